@@ -10,6 +10,9 @@ contract IdentityRegistry is ERC721URIStorage, Ownable {
     // agentId => key => value
     mapping(uint256 => mapping(string => bytes)) private _metadata;
 
+    // agentId => keccak256 of the document tokenURI points at, bytes32(0) if not committed
+    mapping(uint256 => bytes32) private _uriHashes;
+
     struct MetadataEntry {
         string key;
         bytes value;
@@ -18,6 +21,7 @@ contract IdentityRegistry is ERC721URIStorage, Ownable {
     event Registered(uint256 indexed agentId, string tokenURI, address indexed owner);
     event MetadataSet(uint256 indexed agentId, string indexed indexedKey, string key, bytes value);
     event UriUpdated(uint256 indexed agentId, string newUri, address indexed updatedBy);
+    event UriHashCommitted(uint256 indexed agentId, string uri, bytes32 uriHash);
 
     constructor() ERC721("AgentIdentity", "AID") Ownable(msg.sender) {}
 
@@ -28,22 +32,25 @@ contract IdentityRegistry is ERC721URIStorage, Ownable {
     }
 
     function register(string memory tokenUri) external returns (uint256 agentId) {
-        agentId = _lastId++;
-        _safeMint(msg.sender, agentId);
-        _setTokenURI(agentId, tokenUri);
-        emit Registered(agentId, tokenUri, msg.sender);
+        agentId = _register(tokenUri, new MetadataEntry[](0));
     }
 
     function register(string memory tokenUri, MetadataEntry[] memory metadata) external returns (uint256 agentId) {
-        agentId = _lastId++;
-        _safeMint(msg.sender, agentId);
-        _setTokenURI(agentId, tokenUri);
-        emit Registered(agentId, tokenUri, msg.sender);
+        agentId = _register(tokenUri, metadata);
+    }
 
-        for (uint256 i = 0; i < metadata.length; i++) {
-            _metadata[agentId][metadata[i].key] = metadata[i].value;
-            emit MetadataSet(agentId, metadata[i].key, metadata[i].key, metadata[i].value);
-        }
+    function register(string memory tokenUri, bytes32 uriHash) external returns (uint256 agentId) {
+        agentId = _register(tokenUri, new MetadataEntry[](0));
+        _commitUriHash(agentId, tokenUri, uriHash);
+    }
+
+    function register(
+        string memory tokenUri,
+        MetadataEntry[] memory metadata,
+        bytes32 uriHash
+    ) external returns (uint256 agentId) {
+        agentId = _register(tokenUri, metadata);
+        _commitUriHash(agentId, tokenUri, uriHash);
     }
 
     function getMetadata(uint256 agentId, string memory key) external view returns (bytes memory) {
@@ -61,7 +68,36 @@ contract IdentityRegistry is ERC721URIStorage, Ownable {
         emit MetadataSet(agentId, key, key, value);
     }
 
+    // Moving the URI without a new hash drops the old commitment, which no longer applies
     function setAgentUri(uint256 agentId, string calldata newUri) external {
+        _setAgentUri(agentId, newUri);
+        if (_uriHashes[agentId] != bytes32(0)) {
+            _commitUriHash(agentId, newUri, bytes32(0));
+        }
+    }
+
+    function setAgentUri(uint256 agentId, string calldata newUri, bytes32 uriHash) external {
+        _setAgentUri(agentId, newUri);
+        _commitUriHash(agentId, newUri, uriHash);
+    }
+
+    function getUriHash(uint256 agentId) external view returns (bytes32) {
+        return _uriHashes[agentId];
+    }
+
+    function _register(string memory tokenUri, MetadataEntry[] memory metadata) private returns (uint256 agentId) {
+        agentId = _lastId++;
+        _safeMint(msg.sender, agentId);
+        _setTokenURI(agentId, tokenUri);
+        emit Registered(agentId, tokenUri, msg.sender);
+
+        for (uint256 i = 0; i < metadata.length; i++) {
+            _metadata[agentId][metadata[i].key] = metadata[i].value;
+            emit MetadataSet(agentId, metadata[i].key, metadata[i].key, metadata[i].value);
+        }
+    }
+
+    function _setAgentUri(uint256 agentId, string calldata newUri) private {
         address owner = ownerOf(agentId);
         require(
             msg.sender == owner ||
@@ -72,5 +108,10 @@ contract IdentityRegistry is ERC721URIStorage, Ownable {
         _setTokenURI(agentId, newUri);
         emit UriUpdated(agentId, newUri, msg.sender);
     }
+
+    function _commitUriHash(uint256 agentId, string memory uri, bytes32 uriHash) private {
+        _uriHashes[agentId] = uriHash;
+        emit UriHashCommitted(agentId, uri, uriHash);
+    }
 }
 
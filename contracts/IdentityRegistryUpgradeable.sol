@@ -2,21 +2,24 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts-upgradeable/token/ERC721/extensions/ERC721URIStorageUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "./UpgradeTimelockUpgradeable.sol";
+import "./PausableRegistryUpgradeable.sol";
 
 contract IdentityRegistryUpgradeable is
     Initializable,
     ERC721URIStorageUpgradeable,
-    OwnableUpgradeable,
-    UUPSUpgradeable
+    UpgradeTimelockUpgradeable,
+    PausableRegistryUpgradeable
 {
     uint256 private _lastId;
 
     // agentId => key => value
     mapping(uint256 => mapping(string => bytes)) private _metadata;
 
+    // agentId => keccak256 of the document tokenURI points at, bytes32(0) if not committed
+    mapping(uint256 => bytes32) private _uriHashes;
+
     struct MetadataEntry {
         string key;
         bytes value;
@@ -25,6 +28,7 @@ contract IdentityRegistryUpgradeable is
     event Registered(uint256 indexed agentId, string tokenURI, address indexed owner);
     event MetadataSet(uint256 indexed agentId, string indexed indexedKey, string key, bytes value);
     event UriUpdated(uint256 indexed agentId, string newUri, address indexed updatedBy);
+    event UriHashCommitted(uint256 indexed agentId, string uri, bytes32 uriHash);
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
@@ -39,36 +43,39 @@ contract IdentityRegistryUpgradeable is
         _lastId = 0;
     }
 
-    function register() external returns (uint256 agentId) {
+    function register() external whenNotPaused returns (uint256 agentId) {
         agentId = _lastId++;
         _safeMint(msg.sender, agentId);
         emit Registered(agentId, "", msg.sender);
     }
 
-    function register(string memory tokenUri) external returns (uint256 agentId) {
-        agentId = _lastId++;
-        _safeMint(msg.sender, agentId);
-        _setTokenURI(agentId, tokenUri);
-        emit Registered(agentId, tokenUri, msg.sender);
+    function register(string memory tokenUri) external whenNotPaused returns (uint256 agentId) {
+        agentId = _register(tokenUri, new MetadataEntry[](0));
     }
 
-    function register(string memory tokenUri, MetadataEntry[] memory metadata) external returns (uint256 agentId) {
-        agentId = _lastId++;
-        _safeMint(msg.sender, agentId);
-        _setTokenURI(agentId, tokenUri);
-        emit Registered(agentId, tokenUri, msg.sender);
+    function register(string memory tokenUri, MetadataEntry[] memory metadata) external whenNotPaused returns (uint256 agentId) {
+        agentId = _register(tokenUri, metadata);
+    }
 
-        for (uint256 i = 0; i < metadata.length; i++) {
-            _metadata[agentId][metadata[i].key] = metadata[i].value;
-            emit MetadataSet(agentId, metadata[i].key, metadata[i].key, metadata[i].value);
-        }
+    function register(string memory tokenUri, bytes32 uriHash) external whenNotPaused returns (uint256 agentId) {
+        agentId = _register(tokenUri, new MetadataEntry[](0));
+        _commitUriHash(agentId, tokenUri, uriHash);
+    }
+
+    function register(
+        string memory tokenUri,
+        MetadataEntry[] memory metadata,
+        bytes32 uriHash
+    ) external whenNotPaused returns (uint256 agentId) {
+        agentId = _register(tokenUri, metadata);
+        _commitUriHash(agentId, tokenUri, uriHash);
     }
 
     function getMetadata(uint256 agentId, string memory key) external view returns (bytes memory) {
         return _metadata[agentId][key];
     }
 
-    function setMetadata(uint256 agentId, string memory key, bytes memory value) external {
+    function setMetadata(uint256 agentId, string memory key, bytes memory value) external whenNotPaused {
         require(
             msg.sender == _ownerOf(agentId) ||
             isApprovedForAll(_ownerOf(agentId), msg.sender) ||
@@ -79,7 +86,36 @@ contract IdentityRegistryUpgradeable is
         emit MetadataSet(agentId, key, key, value);
     }
 
-    function setAgentUri(uint256 agentId, string calldata newUri) external {
+    // Moving the URI without a new hash drops the old commitment, which no longer applies
+    function setAgentUri(uint256 agentId, string calldata newUri) external whenNotPaused {
+        _setAgentUri(agentId, newUri);
+        if (_uriHashes[agentId] != bytes32(0)) {
+            _commitUriHash(agentId, newUri, bytes32(0));
+        }
+    }
+
+    function setAgentUri(uint256 agentId, string calldata newUri, bytes32 uriHash) external whenNotPaused {
+        _setAgentUri(agentId, newUri);
+        _commitUriHash(agentId, newUri, uriHash);
+    }
+
+    function getUriHash(uint256 agentId) external view returns (bytes32) {
+        return _uriHashes[agentId];
+    }
+
+    function _register(string memory tokenUri, MetadataEntry[] memory metadata) private returns (uint256 agentId) {
+        agentId = _lastId++;
+        _safeMint(msg.sender, agentId);
+        _setTokenURI(agentId, tokenUri);
+        emit Registered(agentId, tokenUri, msg.sender);
+
+        for (uint256 i = 0; i < metadata.length; i++) {
+            _metadata[agentId][metadata[i].key] = metadata[i].value;
+            emit MetadataSet(agentId, metadata[i].key, metadata[i].key, metadata[i].value);
+        }
+    }
+
+    function _setAgentUri(uint256 agentId, string calldata newUri) private {
         address owner = ownerOf(agentId);
         require(
             msg.sender == owner ||
@@ -91,9 +127,17 @@ contract IdentityRegistryUpgradeable is
         emit UriUpdated(agentId, newUri, msg.sender);
     }
 
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    function _commitUriHash(uint256 agentId, string memory uri, bytes32 uriHash) private {
+        _uriHashes[agentId] = uriHash;
+        emit UriHashCommitted(agentId, uri, uriHash);
+    }
+
+    // Transfers move the agent to a new owner, so they stop with the other writes
+    function _update(address to, uint256 tokenId, address auth) internal override whenNotPaused returns (address) {
+        return super._update(to, tokenId, auth);
+    }
 
     function getVersion() external pure returns (string memory) {
-        return "1.0.0";
+        return "1.1.0";
     }
 }
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Mock stablecoin for testing token payments
+/// @dev Anyone can mint; payments settled by a third party go through approve + transferFrom
+contract MockERC20 is ERC20 {
+    constructor() ERC20("Mock USD", "mUSD") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
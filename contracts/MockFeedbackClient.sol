@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IReputationRegistry {
+    function giveFeedback(
+        uint256 agentId,
+        uint8 score,
+        bytes32 tag1,
+        bytes32 tag2,
+        string calldata feedbackUri,
+        bytes32 feedbackHash,
+        bytes calldata feedbackAuth
+    ) external;
+
+    function revokeFeedback(uint256 agentId, uint64 feedbackIndex) external;
+}
+
+/// @notice Mock feedback client for testing
+/// @dev Submits many feedback entries per transaction so tests can seed large reputations
+contract MockFeedbackClient {
+    IReputationRegistry public immutable reputationRegistry;
+
+    constructor(address _reputationRegistry) {
+        reputationRegistry = IReputationRegistry(_reputationRegistry);
+    }
+
+    /// @notice Gives `count` feedback entries with scores cycling through 0..100
+    /// @dev `feedbackAuth` must name this contract as clientAddress
+    function giveFeedbackBatch(uint256 agentId, uint256 count, bytes32 tag1, bytes calldata feedbackAuth) external {
+        for (uint256 i = 0; i < count; i++) {
+            reputationRegistry.giveFeedback(agentId, uint8(i % 101), tag1, bytes32(0), "", bytes32(0), feedbackAuth);
+        }
+    }
+
+    function revokeFeedback(uint256 agentId, uint64 feedbackIndex) external {
+        reputationRegistry.revokeFeedback(agentId, feedbackIndex);
+    }
+}
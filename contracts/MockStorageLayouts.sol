@@ -0,0 +1,202 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Storage layouts for testing the upgrade storage layout checker
+/// @dev Each V2 changes MockStorageV1 in one way; only MockStorageV2Appended is a safe upgrade
+contract MockNamespacedBase {
+    /// @custom:storage-location erc7201:erc8004.mock.Namespaced
+    struct NamespacedStorage {
+        address admin;
+        uint256 nonce;
+    }
+}
+
+contract MockStorageV1 is MockNamespacedBase {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint256 public count;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockNamespacedBaseV2 {
+    /// @custom:storage-location erc7201:erc8004.mock.Namespaced
+    struct NamespacedStorage {
+        address admin;
+        uint256 nonce;
+        bool paused;
+    }
+}
+
+contract MockStorageV2Appended is MockNamespacedBaseV2 {
+    struct Record {
+        uint64 score;
+        address author;
+        uint256 timestamp;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint256 public count;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+    uint256 public added;
+}
+
+contract MockStorageV2Reordered is MockNamespacedBase {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    address public owner;
+    uint256 public count;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockStorageV2Retyped is MockNamespacedBase {
+    struct Record {
+        uint32 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint128 public count;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockStorageV2Removed is MockNamespacedBase {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockStorageV2Inserted is MockNamespacedBase {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint256 public count;
+    uint256 public inserted;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockStorageV2Renamed is MockNamespacedBase {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint256 public total;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockStorageV2GrownArray is MockNamespacedBase {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+        uint256 timestamp;
+    }
+
+    uint256 public count;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockNamespacedBaseChanged {
+    /// @custom:storage-location erc7201:erc8004.mock.Namespaced
+    struct NamespacedStorage {
+        uint256 nonce;
+        address admin;
+    }
+}
+
+contract MockStorageV2NamespaceChanged is MockNamespacedBaseChanged {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint256 public count;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
+
+contract MockStorageV2NamespaceRemoved {
+    struct Record {
+        uint64 score;
+        address author;
+    }
+
+    struct Entry {
+        uint64 score;
+        address author;
+    }
+
+    uint256 public count;
+    address public owner;
+    mapping(uint256 => Record) public records;
+    Entry[] public history;
+}
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+
+/// @notice Emergency stop for registry writes, triggered by the owner or an account holding the pauser role
+/// @dev Pausers can only pause; unpausing is left to the owner so a leaked pauser key cannot undo a stop.
+/// Reads, ownership and upgrades keep working while paused. State lives in ERC-7201 namespaces.
+abstract contract PausableRegistryUpgradeable is Initializable, Ownable2StepUpgradeable, PausableUpgradeable {
+    /// @custom:storage-location erc7201:erc8004.storage.Pauser
+    struct PauserStorage {
+        mapping(address => bool) pausers;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("erc8004.storage.Pauser")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant PauserStorageLocation =
+        0xba7b3731fa27ccd4d56a489d71f9aaa63e09901d54a722b5892d8a8938584900;
+
+    event PauserGranted(address indexed account);
+    event PauserRevoked(address indexed account);
+
+    function _getPauserStorage() private pure returns (PauserStorage storage $) {
+        assembly {
+            $.slot := PauserStorageLocation
+        }
+    }
+
+    function grantPauser(address account) external onlyOwner {
+        require(account != address(0), "bad pauser");
+        PauserStorage storage $ = _getPauserStorage();
+        require(!$.pausers[account], "Already pauser");
+        $.pausers[account] = true;
+        emit PauserGranted(account);
+    }
+
+    function revokePauser(address account) external onlyOwner {
+        PauserStorage storage $ = _getPauserStorage();
+        require($.pausers[account], "Not pauser");
+        $.pausers[account] = false;
+        emit PauserRevoked(account);
+    }
+
+    /// @notice Lets a pauser give up the role without the owner
+    function renouncePauser() external {
+        PauserStorage storage $ = _getPauserStorage();
+        require($.pausers[msg.sender], "Not pauser");
+        $.pausers[msg.sender] = false;
+        emit PauserRevoked(msg.sender);
+    }
+
+    function isPauser(address account) public view returns (bool) {
+        return _getPauserStorage().pausers[account];
+    }
+
+    function pause() external {
+        require(msg.sender == owner() || isPauser(msg.sender), "Not pauser");
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+}
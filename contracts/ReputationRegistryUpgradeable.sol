@@ -2,11 +2,12 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
-import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "./UpgradeTimelockUpgradeable.sol";
+import "./PausableRegistryUpgradeable.sol";
 
 interface IIdentityRegistry {
     function ownerOf(uint256 tokenId) external view returns (address);
@@ -14,7 +15,12 @@ interface IIdentityRegistry {
     function getApproved(uint256 tokenId) external view returns (address);
 }
 
-contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUPSUpgradeable {
+contract ReputationRegistryUpgradeable is
+    Initializable,
+    UpgradeTimelockUpgradeable,
+    PausableRegistryUpgradeable,
+    EIP712Upgradeable
+{
     using ECDSA for bytes32;
     using MessageHashUtils for bytes32;
 
@@ -36,6 +42,29 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         uint64 indexed feedbackIndex
     );
 
+    event FeedbackAmended(
+        uint256 indexed agentId,
+        address indexed clientAddress,
+        uint64 indexed previousIndex,
+        uint64 newIndex
+    );
+
+    event FeedbackDisputed(
+        uint256 indexed agentId,
+        address indexed clientAddress,
+        uint64 feedbackIndex,
+        address indexed disputer,
+        string reasonUri,
+        bytes32 reasonHash
+    );
+
+    event FeedbackDisputeWithdrawn(
+        uint256 indexed agentId,
+        address indexed clientAddress,
+        uint64 feedbackIndex,
+        address indexed withdrawnBy
+    );
+
     event ResponseAppended(
         uint256 indexed agentId,
         address indexed clientAddress,
@@ -50,8 +79,25 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         bytes32 tag1;
         bytes32 tag2;
         bool isRevoked;
+        // block.timestamp at giveFeedback; 0 for feedback given before timestamps were recorded
+        uint64 createdAt;
+        // Index this entry amends (0 for original feedback) and the index that amended it
+        // (0 while it is the latest version); superseded entries no longer count
+        uint64 previousIndex;
+        uint64 supersededBy;
+        // Set by the agent owner or an operator to contest the entry; the reason is in the event
+        bool isDisputed;
     }
 
+    uint256 private constant DECAY_SCALE = 1e18;
+
+    string private constant EIP712_NAME = "ERC8004ReputationRegistry";
+    string private constant EIP712_VERSION = "1";
+
+    bytes32 private constant FEEDBACK_AUTH_TYPEHASH = keccak256(
+        "FeedbackAuth(uint256 agentId,address clientAddress,uint64 indexLimit,uint256 expiry,uint256 chainId,address identityRegistry,address signerAddress)"
+    );
+
     struct FeedbackAuth {
         uint256 agentId;
         address clientAddress;
@@ -103,9 +149,45 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         string calldata feedbackUri,
         bytes32 feedbackHash,
         bytes calldata feedbackAuth
-    ) external {
+    ) external whenNotPaused {
+        require(score <= 100, "score>100");
+        _requireFeedbackAllowed(agentId, feedbackAuth);
+
+        _storeFeedback(agentId, score, tag1, tag2, feedbackUri, feedbackHash, 0);
+    }
+
+    /// @notice Replaces one of the sender's feedback entries with a corrected version. The new
+    /// version gets the next index (emitting NewFeedback) and records `feedbackIndex` as its
+    /// previous version; only the latest version of a chain of amendments counts. Like
+    /// giveFeedback it needs a feedbackAuth whose indexLimit covers the new index. Entries the
+    /// agent disputes cannot be amended until the dispute is withdrawn.
+    function amendFeedback(
+        uint256 agentId,
+        uint64 feedbackIndex,
+        uint8 score,
+        bytes32 tag1,
+        bytes32 tag2,
+        string calldata feedbackUri,
+        bytes32 feedbackHash,
+        bytes calldata feedbackAuth
+    ) external whenNotPaused {
         require(score <= 100, "score>100");
+        require(feedbackIndex > 0, "index must be > 0");
+        require(feedbackIndex <= _lastIndex[agentId][msg.sender], "index out of bounds");
+        Feedback storage previous = _feedback[agentId][msg.sender][feedbackIndex];
+        require(!previous.isRevoked, "Already revoked");
+        require(previous.supersededBy == 0, "Already amended");
+        require(!previous.isDisputed, "Feedback is disputed");
+        _requireFeedbackAllowed(agentId, feedbackAuth);
+
+        uint64 newIndex = _storeFeedback(agentId, score, tag1, tag2, feedbackUri, feedbackHash, feedbackIndex);
+        previous.supersededBy = newIndex;
+        emit FeedbackAmended(agentId, msg.sender, feedbackIndex, newIndex);
+    }
 
+    /// @dev Checks shared by giveFeedback and amendFeedback: the agent exists, the sender is not
+    /// its owner or an operator, and feedbackAuth allows the sender's next index
+    function _requireFeedbackAllowed(uint256 agentId, bytes calldata feedbackAuth) internal view {
         // Verify agent exists
         require(_agentExists(agentId), "Agent does not exist");
 
@@ -123,16 +205,30 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
 
         // Verify feedbackAuth signature
         _verifyFeedbackAuth(agentId, msg.sender, feedbackAuth);
+    }
 
+    function _storeFeedback(
+        uint256 agentId,
+        uint8 score,
+        bytes32 tag1,
+        bytes32 tag2,
+        string calldata feedbackUri,
+        bytes32 feedbackHash,
+        uint64 previousIndex
+    ) internal returns (uint64 currentIndex) {
         // Get current index for this client-agent pair (1-indexed)
-        uint64 currentIndex = _lastIndex[agentId][msg.sender] + 1;
+        currentIndex = _lastIndex[agentId][msg.sender] + 1;
 
         // Store feedback at 1-indexed position
         _feedback[agentId][msg.sender][currentIndex] = Feedback({
             score: score,
             tag1: tag1,
             tag2: tag2,
-            isRevoked: false
+            isRevoked: false,
+            createdAt: uint64(block.timestamp),
+            previousIndex: previousIndex,
+            supersededBy: 0,
+            isDisputed: false
         });
 
         // Update last index
@@ -186,27 +282,32 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         FeedbackAuth memory auth,
         bytes calldata signature
     ) internal view {
-        // Construct message hash
-        bytes32 messageHash = keccak256(
-            abi.encode(
-                auth.agentId,
-                auth.clientAddress,
-                auth.indexLimit,
-                auth.expiry,
-                auth.chainId,
-                auth.identityRegistry,
-                auth.signerAddress
-            )
-        ).toEthSignedMessageHash();
+        bytes memory encodedAuth = abi.encode(
+            auth.agentId,
+            auth.clientAddress,
+            auth.indexLimit,
+            auth.expiry,
+            auth.chainId,
+            auth.identityRegistry,
+            auth.signerAddress
+        );
+
+        // Legacy EIP-191 digest and EIP-712 digest (all fields are static, so the struct
+        // hash is the typehash followed by the same encoding); either format is accepted
+        bytes32 messageHash = keccak256(encodedAuth).toEthSignedMessageHash();
+        bytes32 typedDataHash = _hashTypedDataV4(keccak256(abi.encodePacked(FEEDBACK_AUTH_TYPEHASH, encodedAuth)));
 
         // verify signature: EOA or ERC-1271 contract
-        address recoveredSigner = messageHash.recover(signature);
-        if (recoveredSigner != auth.signerAddress) {
+        if (
+            !_isSignedBy(messageHash, signature, auth.signerAddress) &&
+            !_isSignedBy(typedDataHash, signature, auth.signerAddress)
+        ) {
             if (auth.signerAddress.code.length == 0) {
                 revert("Invalid signature");
             }
             require(
-                IERC1271(auth.signerAddress).isValidSignature(messageHash, signature) == IERC1271.isValidSignature.selector,
+                SignatureChecker.isValidERC1271SignatureNow(auth.signerAddress, messageHash, signature) ||
+                SignatureChecker.isValidERC1271SignatureNow(auth.signerAddress, typedDataHash, signature),
                 "Bad 1271 signature"
             );
         }
@@ -222,22 +323,66 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         );
     }
 
-    function revokeFeedback(uint256 agentId, uint64 feedbackIndex) external {
+    function _isSignedBy(bytes32 hash, bytes calldata signature, address signer) internal pure returns (bool) {
+        (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecover(hash, signature);
+        return err == ECDSA.RecoverError.NoError && recovered == signer;
+    }
+
+    /// @notice EIP-712 digest a signer produces for `auth` with eth_signTypedData_v4
+    function getFeedbackAuthTypedDataHash(FeedbackAuth calldata auth) external view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(FEEDBACK_AUTH_TYPEHASH, auth)));
+    }
+
+    function revokeFeedback(uint256 agentId, uint64 feedbackIndex) external whenNotPaused {
         require(feedbackIndex > 0, "index must be > 0");
         require(feedbackIndex <= _lastIndex[agentId][msg.sender], "index out of bounds");
         require(!_feedback[agentId][msg.sender][feedbackIndex].isRevoked, "Already revoked");
+        require(_feedback[agentId][msg.sender][feedbackIndex].supersededBy == 0, "Already amended");
 
         _feedback[agentId][msg.sender][feedbackIndex].isRevoked = true;
         emit FeedbackRevoked(agentId, msg.sender, feedbackIndex);
     }
 
+    /// @notice Flags feedback the agent contests. Only the agent owner or an operator may call;
+    /// the reason is published at `reasonUri` and committed by `reasonHash`.
+    function disputeFeedback(
+        uint256 agentId,
+        address clientAddress,
+        uint64 feedbackIndex,
+        string calldata reasonUri,
+        bytes32 reasonHash
+    ) external whenNotPaused {
+        _requireAgentOperator(agentId);
+        require(feedbackIndex > 0, "index must be > 0");
+        require(feedbackIndex <= _lastIndex[agentId][clientAddress], "index out of bounds");
+        require(bytes(reasonUri).length > 0, "Empty URI");
+        Feedback storage fb = _feedback[agentId][clientAddress][feedbackIndex];
+        require(!fb.isRevoked, "Already revoked");
+        require(fb.supersededBy == 0, "Already amended");
+        require(!fb.isDisputed, "Already disputed");
+
+        fb.isDisputed = true;
+        emit FeedbackDisputed(agentId, clientAddress, feedbackIndex, msg.sender, reasonUri, reasonHash);
+    }
+
+    function withdrawDispute(uint256 agentId, address clientAddress, uint64 feedbackIndex) external whenNotPaused {
+        _requireAgentOperator(agentId);
+        require(feedbackIndex > 0, "index must be > 0");
+        require(feedbackIndex <= _lastIndex[agentId][clientAddress], "index out of bounds");
+        Feedback storage fb = _feedback[agentId][clientAddress][feedbackIndex];
+        require(fb.isDisputed, "Not disputed");
+
+        fb.isDisputed = false;
+        emit FeedbackDisputeWithdrawn(agentId, clientAddress, feedbackIndex, msg.sender);
+    }
+
     function appendResponse(
         uint256 agentId,
         address clientAddress,
         uint64 feedbackIndex,
         string calldata responseUri,
         bytes32 responseHash
-    ) external {
+    ) external whenNotPaused {
         require(feedbackIndex > 0, "index must be > 0");
         require(feedbackIndex <= _lastIndex[agentId][clientAddress], "index out of bounds");
         require(bytes(responseUri).length > 0, "Empty URI");
@@ -261,12 +406,30 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
     function readFeedback(uint256 agentId, address clientAddress, uint64 index)
         external
         view
-        returns (uint8 score, bytes32 tag1, bytes32 tag2, bool isRevoked)
+        returns (uint8 score, bytes32 tag1, bytes32 tag2, bool isRevoked, bool isDisputed)
     {
         require(index > 0, "index must be > 0");
         require(index <= _lastIndex[agentId][clientAddress], "index out of bounds");
         Feedback storage f = _feedback[agentId][clientAddress][index];
-        return (f.score, f.tag1, f.tag2, f.isRevoked);
+        return (f.score, f.tag1, f.tag2, f.isRevoked, f.isDisputed);
+    }
+
+    function getFeedbackTimestamp(uint256 agentId, address clientAddress, uint64 index) external view returns (uint64) {
+        require(index > 0, "index must be > 0");
+        require(index <= _lastIndex[agentId][clientAddress], "index out of bounds");
+        return _feedback[agentId][clientAddress][index].createdAt;
+    }
+
+    /// @notice Links of an entry in its chain of amendments; both are 0 for feedback never amended
+    function getFeedbackAmendment(uint256 agentId, address clientAddress, uint64 index)
+        external
+        view
+        returns (uint64 previousIndex, uint64 supersededBy)
+    {
+        require(index > 0, "index must be > 0");
+        require(index <= _lastIndex[agentId][clientAddress], "index out of bounds");
+        Feedback storage f = _feedback[agentId][clientAddress][index];
+        return (f.previousIndex, f.supersededBy);
     }
 
     function getSummary(
@@ -274,6 +437,87 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         address[] calldata clientAddresses,
         bytes32 tag1,
         bytes32 tag2
+    ) external view returns (uint64 count, uint8 averageScore) {
+        uint256 totalScore;
+        (count, totalScore, ) = _sumScores(agentId, clientAddresses, tag1, tag2, false);
+        averageScore = count > 0 ? uint8(totalScore / count) : 0;
+    }
+
+    /// @notice getSummary that can leave out feedback the agent disputes
+    function getSummary(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        bytes32 tag1,
+        bytes32 tag2,
+        bool excludeDisputed
+    ) external view returns (uint64 count, uint8 averageScore) {
+        uint256 totalScore;
+        (count, totalScore, ) = _sumScores(agentId, clientAddresses, tag1, tag2, excludeDisputed);
+        averageScore = count > 0 ? uint8(totalScore / count) : 0;
+    }
+
+    /// @notice getSummary without the rounding: the exact mean is scoreTotal / count, and
+    /// scoreSquaresTotal gives the variance for confidence intervals
+    function getSummaryTotals(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        bytes32 tag1,
+        bytes32 tag2
+    ) external view returns (uint64 count, uint256 scoreTotal, uint256 scoreSquaresTotal) {
+        return _sumScores(agentId, clientAddresses, tag1, tag2, false);
+    }
+
+    function getSummaryTotals(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        bytes32 tag1,
+        bytes32 tag2,
+        bool excludeDisputed
+    ) external view returns (uint64 count, uint256 scoreTotal, uint256 scoreSquaresTotal) {
+        return _sumScores(agentId, clientAddresses, tag1, tag2, excludeDisputed);
+    }
+
+    function _sumScores(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        bytes32 tag1,
+        bytes32 tag2,
+        bool excludeDisputed
+    ) internal view returns (uint64 count, uint256 scoreTotal, uint256 scoreSquaresTotal) {
+        address[] memory clientList;
+        if (clientAddresses.length > 0) {
+            clientList = clientAddresses;
+        } else {
+            clientList = _clients[agentId];
+        }
+
+        for (uint256 i = 0; i < clientList.length; i++) {
+            uint64 lastIdx = _lastIndex[agentId][clientList[i]];
+            for (uint64 j = 1; j <= lastIdx; j++) {
+                Feedback storage fb = _feedback[agentId][clientList[i]][j];
+                if (fb.isRevoked || fb.supersededBy != 0) continue;
+                if (excludeDisputed && fb.isDisputed) continue;
+                if (tag1 != bytes32(0) && fb.tag1 != tag1) continue;
+                if (tag2 != bytes32(0) && fb.tag2 != tag2) continue;
+
+                scoreTotal += fb.score;
+                scoreSquaresTotal += uint256(fb.score) * fb.score;
+                count++;
+            }
+        }
+    }
+
+    /// @notice getSummary over feedback given in [fromTimestamp, toTimestamp] (toTimestamp 0 = now).
+    /// Feedback given before timestamps were recorded counts as timestamp 0. As in getSummary,
+    /// `excludeDisputed` leaves out feedback the agent disputes.
+    function getSummaryInWindow(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        bytes32 tag1,
+        bytes32 tag2,
+        uint64 fromTimestamp,
+        uint64 toTimestamp,
+        bool excludeDisputed
     ) external view returns (uint64 count, uint8 averageScore) {
         address[] memory clientList;
         if (clientAddresses.length > 0) {
@@ -289,7 +533,10 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
             uint64 lastIdx = _lastIndex[agentId][clientList[i]];
             for (uint64 j = 1; j <= lastIdx; j++) {
                 Feedback storage fb = _feedback[agentId][clientList[i]][j];
-                if (fb.isRevoked) continue;
+                if (fb.isRevoked || fb.supersededBy != 0) continue;
+                if (excludeDisputed && fb.isDisputed) continue;
+                if (fb.createdAt < fromTimestamp) continue;
+                if (toTimestamp != 0 && fb.createdAt > toTimestamp) continue;
                 if (tag1 != bytes32(0) && fb.tag1 != tag1) continue;
                 if (tag2 != bytes32(0) && fb.tag2 != tag2) continue;
 
@@ -301,6 +548,50 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         averageScore = count > 0 ? uint8(totalScore / count) : 0;
     }
 
+    /// @notice getSummary with each score weighted by its age: the weight halves every
+    /// `halfLife` seconds (linearly in between), so recent feedback dominates the average.
+    /// `count` is the number of entries with a nonzero weight; feedback without a timestamp has none.
+    /// `excludeDisputed` leaves out feedback the agent disputes.
+    function getDecayedSummary(
+        uint256 agentId,
+        address[] calldata clientAddresses,
+        bytes32 tag1,
+        bytes32 tag2,
+        uint64 halfLife,
+        bool excludeDisputed
+    ) external view returns (uint64 count, uint8 averageScore) {
+        require(halfLife > 0, "halfLife must be > 0");
+        address[] memory clientList;
+        if (clientAddresses.length > 0) {
+            clientList = clientAddresses;
+        } else {
+            clientList = _clients[agentId];
+        }
+
+        uint256 weightedScore = 0;
+        uint256 totalWeight = 0;
+        count = 0;
+
+        for (uint256 i = 0; i < clientList.length; i++) {
+            uint64 lastIdx = _lastIndex[agentId][clientList[i]];
+            for (uint64 j = 1; j <= lastIdx; j++) {
+                Feedback storage fb = _feedback[agentId][clientList[i]][j];
+                if (fb.isRevoked || fb.supersededBy != 0 || fb.createdAt == 0) continue;
+                if (excludeDisputed && fb.isDisputed) continue;
+                if (tag1 != bytes32(0) && fb.tag1 != tag1) continue;
+                if (tag2 != bytes32(0) && fb.tag2 != tag2) continue;
+
+                uint256 weight = _decayWeight(block.timestamp - fb.createdAt, halfLife);
+                if (weight == 0) continue;
+                weightedScore += weight * fb.score;
+                totalWeight += weight;
+                count++;
+            }
+        }
+
+        averageScore = totalWeight > 0 ? uint8(weightedScore / totalWeight) : 0;
+    }
+
     function readAllFeedback(
         uint256 agentId,
         address[] calldata clientAddresses,
@@ -312,7 +603,8 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         uint8[] memory scores,
         bytes32[] memory tag1s,
         bytes32[] memory tag2s,
-        bool[] memory revokedStatuses
+        bool[] memory revokedStatuses,
+        bool[] memory disputedStatuses
     ) {
         address[] memory clientList;
         if (clientAddresses.length > 0) {
@@ -327,6 +619,7 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
             uint64 lastIdx = _lastIndex[agentId][clientList[i]];
             for (uint64 j = 1; j <= lastIdx; j++) {
                 Feedback storage fb = _feedback[agentId][clientList[i]][j];
+                if (fb.supersededBy != 0) continue;
                 if (!includeRevoked && fb.isRevoked) continue;
                 if (tag1 != bytes32(0) && fb.tag1 != tag1) continue;
                 if (tag2 != bytes32(0) && fb.tag2 != tag2) continue;
@@ -340,6 +633,7 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         tag1s = new bytes32[](totalCount);
         tag2s = new bytes32[](totalCount);
         revokedStatuses = new bool[](totalCount);
+        disputedStatuses = new bool[](totalCount);
 
         // Second pass: populate arrays
         uint256 idx = 0;
@@ -347,6 +641,7 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
             uint64 lastIdx = _lastIndex[agentId][clientList[i]];
             for (uint64 j = 1; j <= lastIdx; j++) {
                 Feedback storage fb = _feedback[agentId][clientList[i]][j];
+                if (fb.supersededBy != 0) continue;
                 if (!includeRevoked && fb.isRevoked) continue;
                 if (tag1 != bytes32(0) && fb.tag1 != tag1) continue;
                 if (tag2 != bytes32(0) && fb.tag2 != tag2) continue;
@@ -356,6 +651,7 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
                 tag1s[idx] = fb.tag1;
                 tag2s[idx] = fb.tag2;
                 revokedStatuses[idx] = fb.isRevoked;
+                disputedStatuses[idx] = fb.isDisputed;
                 idx++;
             }
         }
@@ -412,6 +708,186 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         return _clients[agentId];
     }
 
+    function getClientCount(uint256 agentId) external view returns (uint256) {
+        return _clients[agentId].length;
+    }
+
+    function getClientsPaginated(uint256 agentId, uint256 offset, uint256 limit)
+        external
+        view
+        returns (address[] memory clients, uint256 total)
+    {
+        address[] storage allClients = _clients[agentId];
+        total = allClients.length;
+        if (offset >= total) {
+            return (new address[](0), total);
+        }
+        uint256 end = offset + limit > total ? total : offset + limit;
+        clients = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            clients[i - offset] = allClients[i];
+        }
+    }
+
+    // Paginated reads walk feedback in (client, index) order starting at the cursor
+    // (clientOffset into getClients, fromIndex within that client; 0 means 1) and visit at
+    // most `limit` entries, so gas is bounded by the page size. They return the cursor of the
+    // next page; the walk is finished once nextClientOffset == getClientCount(agentId).
+
+    function readFeedbackPage(
+        uint256 agentId,
+        uint256 clientOffset,
+        uint64 fromIndex,
+        uint256 limit
+    ) external view returns (
+        address[] memory clients,
+        uint64[] memory indexes,
+        uint8[] memory scores,
+        bytes32[] memory tag1s,
+        bytes32[] memory tag2s,
+        bool[] memory revokedStatuses,
+        bool[] memory disputedStatuses,
+        uint64[] memory supersededBy,
+        uint256 nextClientOffset,
+        uint64 nextIndex
+    ) {
+        uint256 count;
+        (count, nextClientOffset, nextIndex) = _advanceCursor(agentId, clientOffset, fromIndex, limit);
+
+        clients = new address[](count);
+        indexes = new uint64[](count);
+        scores = new uint8[](count);
+        tag1s = new bytes32[](count);
+        tag2s = new bytes32[](count);
+        revokedStatuses = new bool[](count);
+        disputedStatuses = new bool[](count);
+        supersededBy = new uint64[](count);
+
+        uint256 c = clientOffset;
+        uint64 j = fromIndex == 0 ? 1 : fromIndex;
+        for (uint256 k = 0; k < count; k++) {
+            if (j > _lastIndex[agentId][_clients[agentId][c]]) {
+                c++;
+                j = 1;
+            }
+            address client = _clients[agentId][c];
+            Feedback storage fb = _feedback[agentId][client][j];
+            clients[k] = client;
+            indexes[k] = j;
+            scores[k] = fb.score;
+            tag1s[k] = fb.tag1;
+            tag2s[k] = fb.tag2;
+            revokedStatuses[k] = fb.isRevoked;
+            disputedStatuses[k] = fb.isDisputed;
+            supersededBy[k] = fb.supersededBy;
+            j++;
+        }
+    }
+
+    // Partial getSummary over one page: sum the scoreTotal/count of all pages for the average
+    function getSummaryPage(
+        uint256 agentId,
+        uint256 clientOffset,
+        uint64 fromIndex,
+        uint256 limit,
+        bytes32 tag1,
+        bytes32 tag2,
+        bool excludeDisputed
+    ) external view returns (uint64 count, uint256 scoreTotal, uint256 nextClientOffset, uint64 nextIndex) {
+        uint256 visited;
+        (visited, nextClientOffset, nextIndex) = _advanceCursor(agentId, clientOffset, fromIndex, limit);
+
+        uint256 c = clientOffset;
+        uint64 j = fromIndex == 0 ? 1 : fromIndex;
+        for (uint256 k = 0; k < visited; k++) {
+            if (j > _lastIndex[agentId][_clients[agentId][c]]) {
+                c++;
+                j = 1;
+            }
+            Feedback storage fb = _feedback[agentId][_clients[agentId][c]][j];
+            j++;
+            if (fb.isRevoked || fb.supersededBy != 0) continue;
+            if (excludeDisputed && fb.isDisputed) continue;
+            if (tag1 != bytes32(0) && fb.tag1 != tag1) continue;
+            if (tag2 != bytes32(0) && fb.tag2 != tag2) continue;
+            scoreTotal += fb.score;
+            count++;
+        }
+    }
+
+    // Partial getResponseCount(agentId, address(0), 0, responders) over one page
+    function getResponseCountPage(
+        uint256 agentId,
+        uint256 clientOffset,
+        uint64 fromIndex,
+        uint256 limit,
+        address[] calldata responders
+    ) external view returns (uint64 count, uint256 nextClientOffset, uint64 nextIndex) {
+        uint256 visited;
+        (visited, nextClientOffset, nextIndex) = _advanceCursor(agentId, clientOffset, fromIndex, limit);
+
+        uint256 c = clientOffset;
+        uint64 j = fromIndex == 0 ? 1 : fromIndex;
+        for (uint256 k = 0; k < visited; k++) {
+            if (j > _lastIndex[agentId][_clients[agentId][c]]) {
+                c++;
+                j = 1;
+            }
+            count += _countResponses(agentId, _clients[agentId][c], j, responders);
+            j++;
+        }
+    }
+
+    // Counts the entries a page starting at the cursor visits and returns the next cursor
+    function _advanceCursor(
+        uint256 agentId,
+        uint256 clientOffset,
+        uint64 fromIndex,
+        uint256 limit
+    ) internal view returns (uint256 count, uint256 nextClientOffset, uint64 nextIndex) {
+        address[] storage clientList = _clients[agentId];
+        nextClientOffset = clientOffset;
+        nextIndex = fromIndex == 0 ? 1 : fromIndex;
+
+        while (nextClientOffset < clientList.length) {
+            uint64 lastIdx = _lastIndex[agentId][clientList[nextClientOffset]];
+            if (nextIndex > lastIdx) {
+                nextClientOffset++;
+                nextIndex = 1;
+                continue;
+            }
+            if (count == limit) break;
+            uint64 available = lastIdx - nextIndex + 1;
+            uint256 take = limit - count < available ? limit - count : available;
+            count += take;
+            nextIndex += uint64(take);
+        }
+        if (nextClientOffset >= clientList.length) {
+            nextClientOffset = clientList.length;
+            nextIndex = 0;
+        }
+    }
+
+    // 2^(-age / halfLife) scaled by 1e18, interpolated linearly between halvings; reaches 0
+    // after 60 half-lives
+    function _decayWeight(uint256 age, uint64 halfLife) internal pure returns (uint256) {
+        uint256 halvings = age / halfLife;
+        if (halvings >= 60) return 0;
+        uint256 weight = DECAY_SCALE >> halvings;
+        return weight - (weight * (age % halfLife)) / (2 * uint256(halfLife));
+    }
+
+    function _requireAgentOperator(uint256 agentId) internal view {
+        IIdentityRegistry registry = IIdentityRegistry(identityRegistry);
+        address owner = registry.ownerOf(agentId);
+        require(
+            msg.sender == owner ||
+            registry.isApprovedForAll(owner, msg.sender) ||
+            registry.getApproved(agentId) == msg.sender,
+            "Not authorized"
+        );
+    }
+
     function _agentExists(uint256 agentId) internal view returns (bool) {
         try IIdentityRegistry(identityRegistry).ownerOf(agentId) returns (address owner) {
             return owner != address(0);
@@ -420,9 +896,16 @@ contract ReputationRegistryUpgradeable is Initializable, OwnableUpgradeable, UUP
         }
     }
 
-    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+    /// @dev Constant domain so proxies upgraded from a version without EIP-712 need no reinitializer
+    function _EIP712Name() internal pure override returns (string memory) {
+        return EIP712_NAME;
+    }
+
+    function _EIP712Version() internal pure override returns (string memory) {
+        return EIP712_VERSION;
+    }
 
     function getVersion() external pure returns (string memory) {
-        return "1.0.0";
+        return "1.1.0";
     }
 }
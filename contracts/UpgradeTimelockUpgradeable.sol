@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+
+/// @notice Two-step ownership and an optional delay between scheduling and executing upgrades
+/// @dev With a delay set, `upgradeToAndCall` only accepts the scheduled implementation and calldata
+/// once the delay has passed. State lives in an ERC-7201 namespace so deployed registries keep their layout.
+abstract contract UpgradeTimelockUpgradeable is Initializable, Ownable2StepUpgradeable, UUPSUpgradeable {
+    /// @custom:storage-location erc7201:erc8004.storage.UpgradeTimelock
+    struct UpgradeTimelockStorage {
+        uint64 delay;
+        uint64 pendingDelay;
+        uint64 pendingDelayEffectiveAt;
+        address scheduledImplementation;
+        uint64 scheduledReadyAt;
+        bytes32 scheduledDataHash;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("erc8004.storage.UpgradeTimelock")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant UpgradeTimelockStorageLocation =
+        0x493904a2b14dc117ef3bab20d7398db226cd151698a83c762a6c9ca1f40dcf00;
+
+    event UpgradeScheduled(address indexed implementation, bytes data, uint256 readyAt);
+    event UpgradeCancelled(address indexed implementation);
+    event UpgradeExecuted(address indexed implementation);
+    event UpgradeDelayChanged(uint256 oldDelay, uint256 newDelay, uint256 effectiveAt);
+
+    function _getUpgradeTimelockStorage() private pure returns (UpgradeTimelockStorage storage $) {
+        assembly {
+            $.slot := UpgradeTimelockStorageLocation
+        }
+    }
+
+    /// @notice Announces `upgradeToAndCall(implementation, data)`, executable after the current delay
+    function scheduleUpgrade(address implementation, bytes calldata data) external onlyOwner {
+        require(implementation.code.length > 0, "bad implementation");
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        require($.scheduledImplementation == address(0), "Upgrade already scheduled");
+
+        uint64 readyAt = uint64(block.timestamp) + getUpgradeDelay();
+        $.scheduledImplementation = implementation;
+        $.scheduledDataHash = keccak256(data);
+        $.scheduledReadyAt = readyAt;
+        emit UpgradeScheduled(implementation, data, readyAt);
+    }
+
+    function cancelUpgrade() external onlyOwner {
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        address implementation = $.scheduledImplementation;
+        require(implementation != address(0), "No upgrade scheduled");
+        _clearSchedule($);
+        emit UpgradeCancelled(implementation);
+    }
+
+    /// @notice Raising the delay applies immediately; lowering it only once the current delay has passed
+    function setUpgradeDelay(uint64 newDelay) external onlyOwner {
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        uint64 current = getUpgradeDelay();
+        $.delay = current;
+
+        uint64 effectiveAt = uint64(block.timestamp);
+        if (newDelay >= current) {
+            $.delay = newDelay;
+            $.pendingDelay = 0;
+            $.pendingDelayEffectiveAt = 0;
+        } else {
+            effectiveAt += current;
+            $.pendingDelay = newDelay;
+            $.pendingDelayEffectiveAt = effectiveAt;
+        }
+        emit UpgradeDelayChanged(current, newDelay, effectiveAt);
+    }
+
+    function getUpgradeDelay() public view returns (uint64) {
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        if ($.pendingDelayEffectiveAt != 0 && block.timestamp >= $.pendingDelayEffectiveAt) {
+            return $.pendingDelay;
+        }
+        return $.delay;
+    }
+
+    /// @notice A lowered delay that has not taken effect yet, (0, 0) if none
+    function getPendingUpgradeDelay() external view returns (uint64 delay, uint64 effectiveAt) {
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        if ($.pendingDelayEffectiveAt > block.timestamp) {
+            return ($.pendingDelay, $.pendingDelayEffectiveAt);
+        }
+    }
+
+    function getScheduledUpgrade() external view returns (address implementation, bytes32 dataHash, uint64 readyAt) {
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        return ($.scheduledImplementation, $.scheduledDataHash, $.scheduledReadyAt);
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {
+        UpgradeTimelockStorage storage $ = _getUpgradeTimelockStorage();
+        bool scheduled = $.scheduledImplementation != address(0) &&
+            newImplementation == $.scheduledImplementation &&
+            keccak256(_upgradeData()) == $.scheduledDataHash;
+
+        if (!scheduled) {
+            require(getUpgradeDelay() == 0, "Upgrade not scheduled");
+            return;
+        }
+        require(block.timestamp >= $.scheduledReadyAt, "Upgrade not ready");
+        _clearSchedule($);
+        emit UpgradeExecuted(newImplementation);
+    }
+
+    /// @dev `_authorizeUpgrade` is only reached from `upgradeToAndCall(address,bytes)`
+    function _upgradeData() private pure returns (bytes memory data) {
+        require(msg.sig == UUPSUpgradeable.upgradeToAndCall.selector, "Upgrade not scheduled");
+        (, data) = abi.decode(msg.data[4:], (address, bytes));
+    }
+
+    function _clearSchedule(UpgradeTimelockStorage storage $) private {
+        $.scheduledImplementation = address(0);
+        $.scheduledReadyAt = 0;
+        $.scheduledDataHash = bytes32(0);
+    }
+}
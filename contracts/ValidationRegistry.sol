@@ -29,6 +29,20 @@ contract ValidationRegistry {
         bytes32 tag
     );
 
+    event ValidationCancelled(
+        address indexed validatorAddress,
+        uint256 indexed agentId,
+        bytes32 indexed requestHash
+    );
+
+    enum ValidationState {
+        None,
+        Pending,    // requested, no response yet
+        Responded,
+        Cancelled,  // withdrawn by the agent owner/operator before any response
+        Expired     // never stored: Pending past its deadline
+    }
+
     struct ValidationStatus {
         address validatorAddress;
         uint256 agentId;
@@ -36,6 +50,8 @@ contract ValidationRegistry {
         bytes32 responseHash;
         bytes32 tag;
         uint256 lastUpdate;
+        ValidationState state;
+        uint256 deadline;     // 0 = no deadline
     }
 
     // requestHash => validation status
@@ -47,6 +63,10 @@ contract ValidationRegistry {
     // validatorAddress => list of requestHashes
     mapping(address => bytes32[]) private _validatorRequests;
 
+    // requestHash => 1-based position in _agentValidations / _validatorRequests (0 = not tracked)
+    mapping(bytes32 => uint256) private _agentValidationPosition;
+    mapping(bytes32 => uint256) private _validatorRequestPosition;
+
     constructor(address _identityRegistry) {
         require(_identityRegistry != address(0), "bad identity");
         identityRegistry = _identityRegistry;
@@ -62,16 +82,31 @@ contract ValidationRegistry {
         string calldata requestUri,
         bytes32 requestHash
     ) external {
+        _validationRequest(validatorAddress, agentId, requestUri, requestHash, 0);
+    }
+
+    // Same as above, but responses are rejected after `deadline` (unix seconds)
+    function validationRequest(
+        address validatorAddress,
+        uint256 agentId,
+        string calldata requestUri,
+        bytes32 requestHash,
+        uint256 deadline
+    ) external {
+        require(deadline > block.timestamp, "bad deadline");
+        _validationRequest(validatorAddress, agentId, requestUri, requestHash, deadline);
+    }
+
+    function _validationRequest(
+        address validatorAddress,
+        uint256 agentId,
+        string calldata requestUri,
+        bytes32 requestHash,
+        uint256 deadline
+    ) internal {
         require(validatorAddress != address(0), "bad validator");
         require(validations[requestHash].validatorAddress == address(0), "exists");
-
-        // Check permission: caller must be owner or approved operator
-        IIdentityRegistry registry = IIdentityRegistry(identityRegistry);
-        address owner = registry.ownerOf(agentId);
-        require(
-            msg.sender == owner || registry.isApprovedForAll(owner, msg.sender),
-            "Not authorized"
-        );
+        _requireAgentOperator(agentId);
 
         validations[requestHash] = ValidationStatus({
             validatorAddress: validatorAddress,
@@ -79,12 +114,14 @@ contract ValidationRegistry {
             response: 0,
             responseHash: bytes32(0),
             tag: bytes32(0),
-            lastUpdate: block.timestamp
+            lastUpdate: block.timestamp,
+            state: ValidationState.Pending,
+            deadline: deadline
         });
 
         // Track for lookups
-        _agentValidations[agentId].push(requestHash);
-        _validatorRequests[validatorAddress].push(requestHash);
+        _track(_agentValidations[agentId], _agentValidationPosition, requestHash);
+        _track(_validatorRequests[validatorAddress], _validatorRequestPosition, requestHash);
 
         emit ValidationRequest(validatorAddress, agentId, requestUri, requestHash);
     }
@@ -100,13 +137,32 @@ contract ValidationRegistry {
         require(s.validatorAddress != address(0), "unknown");
         require(msg.sender == s.validatorAddress, "not validator");
         require(response <= 100, "resp>100");
+        require(s.state != ValidationState.Cancelled, "cancelled");
+        require(s.deadline == 0 || block.timestamp <= s.deadline, "expired");
         s.response = response;
         s.responseHash = responseHash;
         s.tag = tag;
         s.lastUpdate = block.timestamp;
+        s.state = ValidationState.Responded;
         emit ValidationResponse(s.validatorAddress, s.agentId, requestHash, response, responseUri, responseHash, tag);
     }
 
+    // Withdraws an unanswered (pending or expired) request and drops it from the lookup lists
+    function cancelValidationRequest(bytes32 requestHash) external {
+        ValidationStatus storage s = validations[requestHash];
+        require(s.validatorAddress != address(0), "unknown");
+        _requireAgentOperator(s.agentId);
+        ValidationState state = _stateOf(s);
+        require(state == ValidationState.Pending || state == ValidationState.Expired, "not pending");
+
+        s.state = ValidationState.Cancelled;
+        s.lastUpdate = block.timestamp;
+        _untrack(_agentValidations[s.agentId], _agentValidationPosition, requestHash);
+        _untrack(_validatorRequests[s.validatorAddress], _validatorRequestPosition, requestHash);
+
+        emit ValidationCancelled(s.validatorAddress, s.agentId, requestHash);
+    }
+
     function getValidationStatus(bytes32 requestHash)
         external
         view
@@ -144,7 +200,8 @@ contract ValidationRegistry {
             // Filter by tag (0x0 means no filter)
             bool matchTag = (tag == bytes32(0)) || (s.tag == tag);
 
-            if (matchValidator && matchTag && s.response >= 0) {
+            // Pending requests have no response yet and must not count as 0
+            if (matchValidator && matchTag && _stateOf(s) == ValidationState.Responded) {
                 totalResponse += s.response;
                 count++;
             }
@@ -153,6 +210,70 @@ contract ValidationRegistry {
         avgResponse = count > 0 ? uint8(totalResponse / count) : 0;
     }
 
+    /// @notice getSummary without the rounding: the exact mean is responseTotal / count, and
+    /// responseSquaresTotal gives the variance for confidence intervals
+    function getSummaryTotals(
+        uint256 agentId,
+        address[] calldata validatorAddresses,
+        bytes32 tag
+    ) external view returns (uint64 count, uint256 responseTotal, uint256 responseSquaresTotal) {
+        bytes32[] storage requestHashes = _agentValidations[agentId];
+
+        for (uint256 i = 0; i < requestHashes.length; i++) {
+            ValidationStatus storage s = validations[requestHashes[i]];
+
+            bool matchValidator = (validatorAddresses.length == 0);
+            if (!matchValidator) {
+                for (uint256 j = 0; j < validatorAddresses.length; j++) {
+                    if (s.validatorAddress == validatorAddresses[j]) {
+                        matchValidator = true;
+                        break;
+                    }
+                }
+            }
+
+            bool matchTag = (tag == bytes32(0)) || (s.tag == tag);
+
+            if (matchValidator && matchTag && _stateOf(s) == ValidationState.Responded) {
+                responseTotal += s.response;
+                responseSquaresTotal += uint256(s.response) * s.response;
+                count++;
+            }
+        }
+    }
+
+    function getValidationState(bytes32 requestHash) external view returns (ValidationState) {
+        return _stateOf(validations[requestHash]);
+    }
+
+    function getPendingCount(
+        uint256 agentId,
+        address[] calldata validatorAddresses
+    ) external view returns (uint64 pending, uint64 responded) {
+        bytes32[] storage requestHashes = _agentValidations[agentId];
+
+        for (uint256 i = 0; i < requestHashes.length; i++) {
+            ValidationStatus storage s = validations[requestHashes[i]];
+
+            bool matchValidator = (validatorAddresses.length == 0);
+            for (uint256 j = 0; !matchValidator && j < validatorAddresses.length; j++) {
+                matchValidator = s.validatorAddress == validatorAddresses[j];
+            }
+            if (!matchValidator) continue;
+
+            ValidationState state = _stateOf(s);
+            if (state == ValidationState.Pending) {
+                pending++;
+            } else if (state == ValidationState.Responded) {
+                responded++;
+            }
+        }
+    }
+
+    function getValidationDeadline(bytes32 requestHash) external view returns (uint256) {
+        return validations[requestHash].deadline;
+    }
+
     function getAgentValidations(uint256 agentId) external view returns (bytes32[] memory) {
         return _agentValidations[agentId];
     }
@@ -160,4 +281,48 @@ contract ValidationRegistry {
     function getValidatorRequests(address validatorAddress) external view returns (bytes32[] memory) {
         return _validatorRequests[validatorAddress];
     }
+
+    // Pending requests past their deadline report Expired
+    function _stateOf(ValidationStatus storage s) internal view returns (ValidationState) {
+        if (s.state == ValidationState.Pending && s.deadline != 0 && block.timestamp > s.deadline) {
+            return ValidationState.Expired;
+        }
+        return s.state;
+    }
+
+    function _requireAgentOperator(uint256 agentId) internal view {
+        // Check permission: caller must be owner or approved operator
+        IIdentityRegistry registry = IIdentityRegistry(identityRegistry);
+        address owner = registry.ownerOf(agentId);
+        require(
+            msg.sender == owner || registry.isApprovedForAll(owner, msg.sender),
+            "Not authorized"
+        );
+    }
+
+    function _track(
+        bytes32[] storage list,
+        mapping(bytes32 => uint256) storage position,
+        bytes32 requestHash
+    ) internal {
+        list.push(requestHash);
+        position[requestHash] = list.length;
+    }
+
+    // Swap-and-pop removal; the last hash takes the removed one's place
+    function _untrack(
+        bytes32[] storage list,
+        mapping(bytes32 => uint256) storage position,
+        bytes32 requestHash
+    ) internal {
+        uint256 pos = position[requestHash];
+        uint256 last = list.length;
+        if (pos != last) {
+            bytes32 moved = list[last - 1];
+            list[pos - 1] = moved;
+            position[moved] = pos;
+        }
+        list.pop();
+        delete position[requestHash];
+    }
 }
@@ -17,7 +17,10 @@ const config: HardhatUserConfig = {
             enabled: true,
             runs: 200
           },
-          viaIR: true
+          viaIR: true,
+          outputSelection: {
+            "*": { "*": ["storageLayout"] }
+          }
         }
       },
       production: {
@@ -27,7 +30,10 @@ const config: HardhatUserConfig = {
             enabled: true,
             runs: 200
           },
-          viaIR: true
+          viaIR: true,
+          outputSelection: {
+            "*": { "*": ["storageLayout"] }
+          }
         }
       }
     }
@@ -0,0 +1,59 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Upgradeable (UUPS) ERC-8004 stack: each `*Upgradeable` implementation behind an
+ * `ERC1967Proxy` whose constructor runs the initializer encoded from the ABI.
+ *
+ * The returned registries are the proxies, typed with the implementation ABI.
+ */
+const ERC8004UpgradeableModule = buildModule("ERC8004UpgradeableModule", (m) => {
+  // IdentityRegistry: initialize()
+  const identityRegistryImplementation = m.contract("IdentityRegistryUpgradeable");
+  const identityRegistryProxy = m.contract(
+    "ERC1967Proxy",
+    [identityRegistryImplementation, m.encodeFunctionCall(identityRegistryImplementation, "initialize")],
+    { id: "IdentityRegistryProxy" }
+  );
+  const identityRegistry = m.contractAt("IdentityRegistryUpgradeable", identityRegistryProxy, {
+    id: "IdentityRegistry"
+  });
+
+  // ReputationRegistry: initialize(identityRegistry)
+  const reputationRegistryImplementation = m.contract("ReputationRegistryUpgradeable");
+  const reputationRegistryProxy = m.contract(
+    "ERC1967Proxy",
+    [
+      reputationRegistryImplementation,
+      m.encodeFunctionCall(reputationRegistryImplementation, "initialize", [identityRegistryProxy])
+    ],
+    { id: "ReputationRegistryProxy" }
+  );
+  const reputationRegistry = m.contractAt("ReputationRegistryUpgradeable", reputationRegistryProxy, {
+    id: "ReputationRegistry"
+  });
+
+  // ValidationRegistry: initialize(identityRegistry)
+  const validationRegistryImplementation = m.contract("ValidationRegistryUpgradeable");
+  const validationRegistryProxy = m.contract(
+    "ERC1967Proxy",
+    [
+      validationRegistryImplementation,
+      m.encodeFunctionCall(validationRegistryImplementation, "initialize", [identityRegistryProxy])
+    ],
+    { id: "ValidationRegistryProxy" }
+  );
+  const validationRegistry = m.contractAt("ValidationRegistryUpgradeable", validationRegistryProxy, {
+    id: "ValidationRegistry"
+  });
+
+  return {
+    identityRegistry,
+    reputationRegistry,
+    validationRegistry,
+    identityRegistryImplementation,
+    reputationRegistryImplementation,
+    validationRegistryImplementation
+  };
+});
+
+export default ERC8004UpgradeableModule;
@@ -0,0 +1,51 @@
+import hre from "hardhat";
+
+import { REGISTRY_NAMES, readManifest } from "../src/sdk/index.js";
+import { compareStorageLayouts, readStorageLayout } from "../src/upgrades/index.js";
+
+/**
+ * Checks that the compiled *Upgradeable contracts can replace the deployed implementations
+ * without corrupting proxy storage (what upgrade-contracts.ts enforces before upgrading)
+ *
+ * The deployed layouts come from deployments/<network>.json, or from OLD_ARTIFACTS (the
+ * artifacts directory of the deployed version) when set.
+ *
+ * Usage:
+ * Run: npx hardhat run scripts/check-storage-layout.ts --network <network>
+ */
+async function main() {
+  const { networkName } = await hre.network.connect();
+  const manifest = readManifest(networkName);
+
+  console.log("Checking storage layouts");
+  console.log("========================");
+  console.log("Network:", networkName);
+  console.log("");
+
+  let failed = false;
+  for (const name of REGISTRY_NAMES) {
+    const { contractName, storageLayout } = manifest.contracts[name];
+    const previous = process.env.OLD_ARTIFACTS
+      ? readStorageLayout(contractName, process.env.OLD_ARTIFACTS)
+      : storageLayout;
+    if (!previous) {
+      console.log(`❌ ${contractName}: no storage layout recorded, set OLD_ARTIFACTS`);
+      failed = true;
+      continue;
+    }
+
+    const issues = compareStorageLayouts(previous, readStorageLayout(contractName, hre.config.paths.artifacts));
+    console.log(`${issues.length === 0 ? "✅" : "❌"} ${contractName}`);
+    for (const issue of issues) {
+      console.log(`   ${issue.kind} ${issue.label}: ${issue.detail}`);
+    }
+    failed ||= issues.length > 0;
+  }
+
+  if (failed) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
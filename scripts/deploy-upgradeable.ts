@@ -3,43 +3,59 @@ import { encodeAbiParameters } from "viem";
 import fs from "fs";
 import path from "path";
 
+import { type CompilerSettings, type DeployedContract, writeManifest } from "../src/sdk/index.js";
+import { readStorageLayout } from "../src/upgrades/index.js";
+
 /**
  * Deploy script for ERC-8004 upgradeable contracts using UUPS proxy pattern
  *
- * USAGE: npx hardhat run scripts/deploy.ts
+ * Writes deployments/<network>.json, which the other scripts and the SDK
+ * (`loadERC8004Clients`) read by network name.
+ *
+ * USAGE: npx hardhat run scripts/deploy-upgradeable.ts --network <network>
  */
 async function main() {
-  const { viem } = await hre.network.connect();
+  const connection = await hre.network.connect();
+  const { viem } = connection;
+  const publicClient = await viem.getPublicClient();
   const [deployer] = await viem.getWalletClients();
 
+  async function deploy(contractName: string, args: unknown[] = []): Promise<DeployedContract> {
+    const { contract, deploymentTransaction } = await viem.sendDeploymentTransaction(contractName, args);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: deploymentTransaction.hash });
+    return {
+      address: contract.address,
+      transactionHash: receipt.transactionHash,
+      blockNumber: Number(receipt.blockNumber)
+    };
+  }
+
   console.log("Deploying ERC-8004 Upgradeable Contracts");
   console.log("========================================");
+  console.log("Network:", connection.networkName);
   console.log("Deployer address:", deployer.account.address);
   console.log("");
 
   // --- 1. Identity Registry ---
   console.log("1. Deploying IdentityRegistry...");
-  const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+  const identityImpl = await deploy("IdentityRegistryUpgradeable");
   const identityInitData = "0x8129fc1c" as `0x${string}`; // initialize()
-  const identityProxy = await viem.deployContract("ERC1967Proxy", [
+  const identityProxy = await deploy("ERC1967Proxy", [
     identityImpl.address,
     identityInitData
   ]);
-  // We don't strictly need to get the contract instance for verification, just addresses
   console.log(`   Impl:  ${identityImpl.address}`);
   console.log(`   Proxy: ${identityProxy.address}`);
 
   // --- 2. Reputation Registry ---
   console.log("2. Deploying ReputationRegistry...");
-  const reputationImpl = await viem.deployContract(
-    "ReputationRegistryUpgradeable"
-  );
+  const reputationImpl = await deploy("ReputationRegistryUpgradeable");
   const reputationInitData = ("0xc4d66de8" +
     encodeAbiParameters(
       [{ name: "identityRegistry", type: "address" }],
       [identityProxy.address]
     ).slice(2)) as `0x${string}`; // initialize(address)
-  const reputationProxy = await viem.deployContract("ERC1967Proxy", [
+  const reputationProxy = await deploy("ERC1967Proxy", [
     reputationImpl.address,
     reputationInitData
   ]);
@@ -48,23 +64,53 @@ async function main() {
 
   // --- 3. Validation Registry ---
   console.log("3. Deploying ValidationRegistry...");
-  const validationImpl = await viem.deployContract(
-    "ValidationRegistryUpgradeable"
-  );
+  const validationImpl = await deploy("ValidationRegistryUpgradeable");
   const validationInitData = ("0xc4d66de8" +
     encodeAbiParameters(
       [{ name: "identityRegistry", type: "address" }],
       [identityProxy.address]
     ).slice(2)) as `0x${string}`; // initialize(address)
-  const validationProxy = await viem.deployContract("ERC1967Proxy", [
+  const validationProxy = await deploy("ERC1967Proxy", [
     validationImpl.address,
     validationInitData
   ]);
   console.log(`   Impl:  ${validationImpl.address}`);
   console.log(`   Proxy: ${validationProxy.address}`);
 
+  // --- 4. Deployment manifest ---
+  const manifestPath = writeManifest({
+    network: connection.networkName,
+    chainId: await publicClient.getChainId(),
+    deployer: deployer.account.address,
+    deployedAt: new Date().toISOString(),
+    compiler: await readCompilerSettings("IdentityRegistryUpgradeable"),
+    contracts: {
+      identityRegistry: {
+        contractName: "IdentityRegistryUpgradeable",
+        proxy: identityProxy,
+        implementation: identityImpl,
+        initData: identityInitData,
+        storageLayout: readStorageLayout("IdentityRegistryUpgradeable", hre.config.paths.artifacts)
+      },
+      reputationRegistry: {
+        contractName: "ReputationRegistryUpgradeable",
+        proxy: reputationProxy,
+        implementation: reputationImpl,
+        initData: reputationInitData,
+        storageLayout: readStorageLayout("ReputationRegistryUpgradeable", hre.config.paths.artifacts)
+      },
+      validationRegistry: {
+        contractName: "ValidationRegistryUpgradeable",
+        proxy: validationProxy,
+        implementation: validationImpl,
+        initData: validationInitData,
+        storageLayout: readStorageLayout("ValidationRegistryUpgradeable", hre.config.paths.artifacts)
+      }
+    }
+  });
   console.log("");
   console.log("✅ All contracts deployed successfully!");
+  console.log("Manifest:", manifestPath);
 
   // --- Auto-Generate Manual Verification Helper Script ---
   const verifyScriptContent = `#!/bin/bash
@@ -128,6 +174,21 @@ echo "👉 Open verify-bundles/MANIFEST.txt to see instructions."
   } catch (e) {}
 }
 
+/**
+ * Compiler version and the settings that affect bytecode, taken from the build info the
+ * artifact was produced by (what a verifier has to reproduce).
+ */
+async function readCompilerSettings(contractName: string): Promise<CompilerSettings> {
+  const buildInfoId = await hre.artifacts.getBuildInfoId(contractName);
+  const buildInfoPath = buildInfoId && (await hre.artifacts.getBuildInfoPath(buildInfoId));
+  if (!buildInfoPath) {
+    throw new Error(`No build info for ${contractName}, compile first`);
+  }
+  const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
+  const { evmVersion, optimizer, viaIR } = buildInfo.input.settings;
+  return { version: buildInfo.solcLongVersion, settings: { evmVersion, optimizer, viaIR } };
+}
+
 main().catch((error) => {
   console.error(error);
   process.exit(1);
@@ -0,0 +1,66 @@
+import hre from "hardhat";
+import type { Address } from "viem";
+
+import { ERC8004Indexer, IndexerStore } from "../src/indexer/index.js";
+import { type RegistryAddresses, getDeploymentBlock, getRegistryAddresses, readManifest } from "../src/sdk/index.js";
+
+/**
+ * Indexes ERC-8004 registry events into a local SQLite database
+ *
+ * Re-running resumes from the stored checkpoint and repairs reorgs.
+ *
+ * Usage:
+ * 1. Registry addresses and the start block come from deployments/<network>.json;
+ *    export ID_PROXY, REP_PROXY and VAL_PROXY to index another deployment
+ * 2. Optionally set INDEXER_DB (default erc8004-index.db), START_BLOCK and CONFIRMATIONS
+ * 3. Run: npx hardhat run scripts/index-events.ts --network <network>
+ */
+async function main() {
+  const { viem, networkName } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
+
+  const { ID_PROXY, REP_PROXY, VAL_PROXY } = process.env;
+  let addresses: RegistryAddresses;
+  let startBlock = 0n;
+  if (ID_PROXY || REP_PROXY || VAL_PROXY) {
+    if (!ID_PROXY || !REP_PROXY || !VAL_PROXY) {
+      throw new Error("ID_PROXY, REP_PROXY and VAL_PROXY must be set together");
+    }
+    addresses = {
+      identityRegistry: ID_PROXY as Address,
+      reputationRegistry: REP_PROXY as Address,
+      validationRegistry: VAL_PROXY as Address
+    };
+  } else {
+    const manifest = readManifest(networkName);
+    addresses = getRegistryAddresses(manifest);
+    startBlock = getDeploymentBlock(manifest);
+  }
+  const dbPath = process.env.INDEXER_DB ?? "erc8004-index.db";
+
+  const store = new IndexerStore(dbPath);
+  const indexer = new ERC8004Indexer({
+    publicClient,
+    addresses,
+    store,
+    startBlock: process.env.START_BLOCK ? BigInt(process.env.START_BLOCK) : startBlock,
+    confirmations: BigInt(process.env.CONFIRMATIONS ?? "0")
+  });
+
+  console.log("Indexing ERC-8004 events");
+  console.log("========================");
+  console.log("Database:", dbPath);
+
+  const result = await indexer.sync();
+  if (result.reorgAncestor !== undefined) {
+    console.log(`Reorg detected, rolled back to block ${result.reorgAncestor}`);
+  }
+  console.log(`Blocks ${result.fromBlock}..${result.toBlock}: ${result.events} new events`);
+  console.log(`Agents: ${store.getAgents().length}, events stored: ${store.countEvents()}`);
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,20 +1,127 @@
 import hre from "hardhat";
+import path from "path";
+import { type Hex, getAddress } from "viem";
 
+import {
+  type AgentDetails,
+  LOCAL_CHAIN_IDS,
+  LocalDirectoryStorage,
+  LocalIpfsStorage,
+  type RegistrationStorage,
+  publishAndRegister
+} from "../src/registration/index.js";
+import { type MetadataEntry, loadERC8004Clients } from "../src/sdk/index.js";
+
+/**
+ * Publishes a registration file for a new agent and registers it in the IdentityRegistry
+ * from deployments/<network>.json
+ *
+ * The file is stored, registered with register(tokenUri, metadata), then stored again with
+ * its `registrations` entry and set as the agent's tokenURI.
+ *
+ * Usage:
+ * 1. Set the agent details
+ *    - AGENT_NAME, AGENT_DESCRIPTION, AGENT_IMAGE (required)
+ *    - AGENT_A2A, AGENT_MCP, AGENT_OASF, AGENT_ENS, AGENT_DID: endpoints, "<uri>" or "<uri>@<version>"
+ *    - AGENT_WALLET: address the agent is paid at (published as eip155:<chainId>:<address>)
+ *    - AGENT_TRUST: comma-separated trust models, e.g. "reputation,crypto-economic"
+ *    - AGENT_METADATA: comma-separated on-chain metadata, "key=0x..."
+ * 2. Choose where the file goes
+ *    - STORAGE=directory (default): files in STORAGE_DIR (default registrations/<network>),
+ *      served from STORAGE_BASE_URI; required except on local chains, which get file:// URIs
+ *    - STORAGE=ipfs: content-addressed files in STORAGE_DIR, registered as ipfs://<cid>;
+ *      pin them on IPFS to make the tokenURI resolvable
+ *    - COMMIT_URI_HASH=1: also commit the file's keccak256 on-chain, so readers can detect
+ *      changes to files served from mutable (e.g. https) locations
+ * 3. Run: npx hardhat run scripts/register-agent.ts --network <network>
+ */
 async function main() {
-  // Hardhat exposes ethers v6 through hre.ethers
-  const [deployer] = await hre.ethers.getSigners();
-  console.log("Using deployer:", deployer.address);
+  const { viem, networkName } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner] = await viem.getWalletClients();
+  const { identity } = await loadERC8004Clients(networkName, publicClient, owner);
+  const chainId = await publicClient.getChainId();
+
+  const details: AgentDetails = {
+    name: required("AGENT_NAME"),
+    description: required("AGENT_DESCRIPTION"),
+    image: required("AGENT_IMAGE"),
+    a2a: endpoint("AGENT_A2A"),
+    mcp: endpoint("AGENT_MCP"),
+    oasf: endpoint("AGENT_OASF"),
+    ens: endpoint("AGENT_ENS"),
+    did: endpoint("AGENT_DID"),
+    wallet: process.env.AGENT_WALLET ? { chainId, address: getAddress(process.env.AGENT_WALLET) } : undefined,
+    supportedTrust: process.env.AGENT_TRUST ? list(process.env.AGENT_TRUST) : undefined
+  };
+  const storage = createStorage(networkName, chainId);
+
+  console.log("Registering agent");
+  console.log("=================");
+  console.log("Network:", networkName);
+  console.log("Owner:", owner.account.address);
+  console.log("Identity registry:", identity.address);
+  console.log("");
+
+  const published = await publishAndRegister({
+    identity,
+    storage,
+    details,
+    metadata: metadata(),
+    commitHash: process.env.COMMIT_URI_HASH === "1" || process.env.COMMIT_URI_HASH === "true"
+  });
+
+  console.log("Agent ID:", published.agentId.toString());
+  console.log("Registered in:", published.registration.hash);
+  if (published.uriUpdateHash) console.log("tokenURI updated in:", published.uriUpdateHash);
+  console.log("tokenURI:", published.tokenUri);
+  if (published.uriHash) console.log("uriHash:", published.uriHash);
+  console.log("");
+  console.log("✅ Agent registered");
+}
 
-  // Connect to your deployed IdentityRegistry
-  const registryAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
-  const registry = await hre.ethers.getContractAt("IdentityRegistry", registryAddress);
+function createStorage(networkName: string, chainId: number): RegistrationStorage {
+  const kind = process.env.STORAGE ?? "directory";
+  const dir = process.env.STORAGE_DIR ?? path.join("registrations", networkName);
+  if (kind === "ipfs") return new LocalIpfsStorage(dir);
+  if (kind === "directory") {
+    if (!process.env.STORAGE_BASE_URI && !LOCAL_CHAIN_IDS.includes(chainId)) {
+      throw new Error(
+        `STORAGE_BASE_URI is required for STORAGE=directory on ${networkName}: set it to the URL ${dir} is served from, ` +
+          "or use STORAGE=ipfs (file:// tokenURIs only work on local chains)"
+      );
+    }
+    return new LocalDirectoryStorage(dir, process.env.STORAGE_BASE_URI);
+  }
+  throw new Error(`Unknown STORAGE "${kind}", expected "directory" or "ipfs"`);
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is required`);
+  return value;
+}
 
-  // Call the register() function
-  console.log("Registering agent...");
-  const tx = await registry.connect(deployer).register("ipfs://example-agent.json");
-  const receipt = await tx.wait();
+/** "<uri>" or "<uri>@<version>" */
+function endpoint(name: string): AgentDetails["a2a"] {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const at = value.lastIndexOf("@");
+  return at > value.indexOf(":") + 2 ? { endpoint: value.slice(0, at), version: value.slice(at + 1) } : value;
+}
+
+function list(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
 
-  console.log("✅ Agent registered in tx:", receipt?.hash);
+function metadata(): MetadataEntry[] {
+  return list(process.env.AGENT_METADATA ?? "").map((entry) => {
+    const [key, value] = entry.split("=");
+    if (!key || !/^0x([0-9a-fA-F]{2})*$/.test(value ?? "")) {
+      throw new Error(`AGENT_METADATA entry "${entry}" must be key=0x...`);
+    }
+    return { key, value: value as Hex };
+  });
 }
 
 main().catch((err) => {
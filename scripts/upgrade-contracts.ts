@@ -1,113 +1,322 @@
 import hre from "hardhat";
+import fs from "fs";
+import path from "path";
+import { type Hex, getAddress, isAddressEqual } from "viem";
+
+import {
+  type DeployedContract,
+  REGISTRY_NAMES,
+  type RegistryName,
+  type ScheduledUpgrade,
+  readManifest,
+  writeManifest
+} from "../src/sdk/index.js";
+import {
+  type StorageLayout,
+  type UpgradePlan,
+  assertStorageLayoutCompatible,
+  buildSafeUpgradeBatch,
+  encodeUpgradeCall,
+  getImplementationAddress,
+  getUpgradeTimelock,
+  planUpgrade,
+  predictImplementation,
+  readStorageLayout
+} from "../src/upgrades/index.js";
 
 /**
  * Upgrade script for ERC-8004 UUPS upgradeable contracts
  *
- * This script demonstrates how to upgrade the implementation contracts
- * while preserving proxy addresses and storage
+ * Proxy addresses come from deployments/<network>.json (written by
+ * deploy-upgradeable.ts), which is updated with the new implementations.
+ * Nothing is deployed unless every new storage layout is compatible with the
+ * one recorded for the current implementation and every upgradeToAndCall
+ * succeeds in simulation against the predicted implementation code.
  *
  * Usage:
- * 1. Update the proxy addresses below
- * 2. Run: npx hardhat run scripts/upgrade-contracts.ts --network <network>
+ * 1. Compile the new contracts (set OLD_ARTIFACTS to the artifacts directory of the
+ *    deployed version if the manifest has no storage layouts)
+ * 2. Optionally set
+ *    - UPGRADE_TARGETS: comma-separated registries to upgrade, e.g. "identity,validation"
+ *      (default: all three)
+ *    - IDENTITY_INIT_DATA / REPUTATION_INIT_DATA / VALIDATION_INIT_DATA: calldata run by
+ *      upgradeToAndCall after the switch, e.g. a reinitializer (default: 0x)
+ *    - DRY_RUN=1: only simulate and report, without deploying or upgrading anything
+ *    - SAFE_ADDRESS: the Safe owning the proxies; the new implementations are deployed and
+ *      the upgrades simulated from the Safe, then written as a Transaction Builder batch
+ *      (deployments/<network>.safe-upgrade.json) instead of being sent
+ *    - SCHEDULE_ONLY=1: announce the upgrades with scheduleUpgrade even on proxies without
+ *      an upgrade delay
+ * 3. Run: npx hardhat run scripts/upgrade-contracts.ts --network <network>
+ *
+ * On proxies with an upgrade delay the run deploys the implementations and schedules the
+ * upgrades, recording them in the manifest. Running the script again after the delay
+ * executes them.
  */
 async function main() {
-  const { viem } = await hre.network.connect();
+  const { viem, networkName } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
   const [deployer] = await viem.getWalletClients();
+  const dryRun = process.env.DRY_RUN === "1" || process.env.DRY_RUN === "true";
+  const safe = process.env.SAFE_ADDRESS ? getAddress(process.env.SAFE_ADDRESS) : undefined;
+  const scheduleOnly = process.env.SCHEDULE_ONLY === "1" || process.env.SCHEDULE_ONLY === "true";
 
-  // ========================================
-  // CONFIGURATION: Update these addresses from deploy output
-  // ========================================
-  const IDENTITY_REGISTRY_PROXY = "0xe7f1725e7734ce288f8367e1bb143e90bb3f0512";
-  const REPUTATION_REGISTRY_PROXY = "0xcf7ed3acca5a467e9e704c703e8d87f634fb0fc9";
-  const VALIDATION_REGISTRY_PROXY = "0x5fc8d32690cc91d4c39d9d3abcbd16989f875707";
+  const manifest = readManifest(networkName);
+  const chainId = await publicClient.getChainId();
+  if (chainId !== manifest.chainId) {
+    throw new Error(`Manifest for ${networkName} is for chain ${manifest.chainId}, connected to ${chainId}`);
+  }
+  let targets = parseTargets(process.env.UPGRADE_TARGETS);
 
-  console.log("Upgrading ERC-8004 Contracts");
+  async function deploy(contractName: string): Promise<DeployedContract> {
+    const { contract, deploymentTransaction } = await viem.sendDeploymentTransaction(contractName);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: deploymentTransaction.hash });
+    return {
+      address: contract.address,
+      transactionHash: receipt.transactionHash,
+      blockNumber: Number(receipt.blockNumber)
+    };
+  }
+
+  console.log(dryRun ? "Upgrading ERC-8004 Contracts (dry run)" : "Upgrading ERC-8004 Contracts");
   console.log("============================");
+  console.log("Network:", networkName);
   console.log("Deployer:", deployer.account.address);
+  if (safe) console.log("Safe (proxy owner):", safe);
+  console.log("Targets:", targets.join(", "));
   console.log("");
 
-  // Deploy new implementations
-  console.log("Deploying new implementations...");
+  // Upgrades scheduled by an earlier run are executed with the recorded implementation
+  const scheduled = {} as Record<RegistryName, ScheduledUpgrade>;
+  const notReady = new Set<RegistryName>();
+  const executedElsewhere = new Set<RegistryName>();
+  for (const name of targets) {
+    const entry = manifest.contracts[name];
+    if (!entry.scheduledUpgrade) continue;
+    const { implementation } = entry.scheduledUpgrade;
+    if ((await getImplementationAddress(publicClient, entry.proxy.address)) === getAddress(implementation.address)) {
+      // Executed outside this script, e.g. by a Safe
+      entry.implementation = implementation;
+      entry.storageLayout = entry.scheduledUpgrade.storageLayout;
+      delete entry.scheduledUpgrade;
+      executedElsewhere.add(name);
+      console.log(`${entry.contractName}: already upgraded to ${implementation.address}`);
+      continue;
+    }
+    const timelock = await getUpgradeTimelock(publicClient, entry.proxy.address);
+    if (!isAddressEqual(timelock.scheduledImplementation, implementation.address)) {
+      throw new Error(
+        `${entry.contractName}: the upgrade to ${implementation.address} in the manifest is not scheduled on chain ` +
+          "(cancelled, or the Safe batch was not executed); remove scheduledUpgrade from the manifest to start over"
+      );
+    }
+    const { timestamp } = await publicClient.getBlock();
+    if (timelock.readyAt > timestamp) {
+      const message = `${entry.contractName}: the scheduled upgrade is ready at ${formatTime(timelock.readyAt)}`;
+      if (!dryRun) throw new Error(message);
+      console.log(message);
+      notReady.add(name);
+    }
+    scheduled[name] = entry.scheduledUpgrade;
+  }
+  if (executedElsewhere.size > 0) {
+    if (!dryRun) console.log("Manifest updated:", writeManifest(manifest));
+    targets = targets.filter((name) => !executedElsewhere.has(name));
+    if (targets.length === 0) {
+      console.log("");
+      console.log("✅ Nothing left to upgrade");
+      return;
+    }
+  }
   console.log("");
 
-  // IdentityRegistry V2
-  console.log("1. Deploying IdentityRegistryUpgradeable V2...");
-  const identityRegistryImplV2 = await viem.deployContract("IdentityRegistryUpgradeable");
-  console.log("   New implementation:", identityRegistryImplV2.address);
+  // Refuse to upgrade unless every new layout keeps the existing storage intact
+  console.log("Checking storage layouts...");
+  const layouts = {} as Record<RegistryName, StorageLayout>;
+  for (const name of targets) {
+    const { contractName, storageLayout } = manifest.contracts[name];
+    if (scheduled[name]) {
+      layouts[name] = scheduled[name].storageLayout;
+      console.log(`   ${contractName}: checked when the upgrade was scheduled`);
+      continue;
+    }
+    const previous = process.env.OLD_ARTIFACTS
+      ? readStorageLayout(contractName, process.env.OLD_ARTIFACTS)
+      : storageLayout;
+    if (!previous) {
+      throw new Error(`No storage layout recorded for ${name}, set OLD_ARTIFACTS to the deployed version's artifacts`);
+    }
+    layouts[name] = readStorageLayout(contractName, hre.config.paths.artifacts);
+    assertStorageLayoutCompatible(contractName, previous, layouts[name]);
+    console.log(`   ${contractName}: compatible`);
+  }
+  console.log("");
+
+  // Simulate every upgrade against the predicted implementations before deploying anything.
+  // Proxies with an upgrade delay get a scheduleUpgrade instead, executed by a later run.
+  console.log("Simulating upgrades...");
+  let nonce = await publicClient.getTransactionCount({ address: deployer.account.address });
+  const plans = {} as Record<RegistryName, UpgradePlan>;
+  for (const name of targets) {
+    const { contractName, proxy } = manifest.contracts[name];
+    if (notReady.has(name)) {
+      console.log(`   ${contractName}: waiting for the scheduled upgrade to ${scheduled[name].implementation.address}`);
+      console.log("");
+      continue;
+    }
+    if (scheduled[name]) {
+      plans[name] = await planUpgrade(publicClient, {
+        proxy: proxy.address,
+        account: safe ?? deployer.account,
+        implementation: scheduled[name].implementation.address,
+        initData: scheduled[name].initData
+      });
+      report(contractName, plans[name]);
+      continue;
+    }
+    const { bytecode } = await hre.artifacts.readArtifact(contractName);
+    plans[name] = await planUpgrade(publicClient, {
+      proxy: proxy.address,
+      account: safe ?? deployer.account,
+      implementation: await predictImplementation(publicClient, deployer.account.address, bytecode as Hex, nonce++),
+      initData: initDataFor(name),
+      schedule: scheduleOnly
+    });
+    report(contractName, plans[name]);
+  }
 
-  // ReputationRegistry V2
-  console.log("2. Deploying ReputationRegistryUpgradeable V2...");
-  const reputationRegistryImplV2 = await viem.deployContract("ReputationRegistryUpgradeable");
-  console.log("   New implementation:", reputationRegistryImplV2.address);
+  if (dryRun) {
+    console.log("✅ Dry run: all upgrades simulated successfully, nothing was sent");
+    return;
+  }
 
-  // ValidationRegistry V2
-  console.log("3. Deploying ValidationRegistryUpgradeable V2...");
-  const validationRegistryImplV2 = await viem.deployContract("ValidationRegistryUpgradeable");
-  console.log("   New implementation:", validationRegistryImplV2.address);
+  // Deploy the new implementations and simulate once more against the deployed code
+  console.log("Deploying new implementations...");
+  const implementations = {} as Record<RegistryName, DeployedContract>;
+  for (const name of targets) {
+    const { contractName, proxy } = manifest.contracts[name];
+    if (scheduled[name]) {
+      implementations[name] = scheduled[name].implementation;
+      continue;
+    }
+    implementations[name] = await deploy(contractName);
+    plans[name] = await planUpgrade(publicClient, {
+      proxy: proxy.address,
+      account: safe ?? deployer.account,
+      implementation: implementations[name].address,
+      initData: initDataFor(name),
+      schedule: scheduleOnly
+    });
+    console.log(`   ${contractName}: ${implementations[name].address}`);
+  }
   console.log("");
 
-  // Get proxy instances
-  const identityRegistry = await viem.getContractAt(
-    "IdentityRegistryUpgradeable",
-    IDENTITY_REGISTRY_PROXY
-  );
+  // Deployed implementations awaiting their delay are recorded for the run that executes them
+  const recordSchedules = () => {
+    for (const name of targets) {
+      if (plans[name].step !== "schedule") continue;
+      manifest.contracts[name].scheduledUpgrade = {
+        implementation: implementations[name],
+        initData: plans[name].initData,
+        storageLayout: layouts[name]
+      };
+    }
+    return writeManifest(manifest);
+  };
 
-  const reputationRegistry = await viem.getContractAt(
-    "ReputationRegistryUpgradeable",
-    REPUTATION_REGISTRY_PROXY
-  );
+  if (safe) {
+    const batch = buildSafeUpgradeBatch({
+      chainId,
+      safe,
+      upgrades: targets.map((name) => plans[name]),
+      description: targets
+        .map((name) => `${plans[name].step} ${manifest.contracts[name].contractName} -> ${plans[name].newImplementation}`)
+        .join(", ")
+    });
+    const batchPath = path.join("deployments", `${networkName}.safe-upgrade.json`);
+    fs.writeFileSync(batchPath, JSON.stringify(batch, null, 2) + "\n");
 
-  const validationRegistry = await viem.getContractAt(
-    "ValidationRegistryUpgradeable",
-    VALIDATION_REGISTRY_PROXY
-  );
+    console.log("Raw calldata (to, value 0, data):");
+    for (const name of targets) {
+      console.log(`   ${plans[name].proxy} ${encodeUpgradeCall(plans[name])}`);
+    }
+    console.log("");
+    console.log("✅ Safe Transaction Builder batch written to", batchPath);
+    console.log(`   deployments/${networkName}.json keeps the current implementations until the Safe executes it`);
+    if (targets.some((name) => plans[name].step === "schedule")) {
+      console.log("   Scheduled upgrades recorded in", recordSchedules());
+      console.log("   Run this script again once the delay has passed to build the batch that executes them");
+    }
+    return;
+  }
 
-  // Perform upgrades (requires owner privileges)
+  // Perform upgrades (requires owner privileges) and check the ERC-1967 slot afterwards
   console.log("Upgrading proxies to new implementations...");
-  console.log("");
+  for (const name of targets) {
+    const plan = plans[name];
+    const hash = await deployer.writeContract(plan.request);
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") throw new Error(`${plan.step} ${hash} reverted`);
 
-  console.log("4. Upgrading IdentityRegistry...");
-  const identityUpgradeTx = await identityRegistry.write.upgradeToAndCall([
-    identityRegistryImplV2.address,
-    "0x" // No initialization data needed
-  ]);
-  console.log("   Upgrade tx:", identityUpgradeTx);
-
-  console.log("5. Upgrading ReputationRegistry...");
-  const reputationUpgradeTx = await reputationRegistry.write.upgradeToAndCall([
-    reputationRegistryImplV2.address,
-    "0x"
-  ]);
-  console.log("   Upgrade tx:", reputationUpgradeTx);
-
-  console.log("6. Upgrading ValidationRegistry...");
-  const validationUpgradeTx = await validationRegistry.write.upgradeToAndCall([
-    validationRegistryImplV2.address,
-    "0x"
-  ]);
-  console.log("   Upgrade tx:", validationUpgradeTx);
+    if (plan.step === "schedule") {
+      const { readyAt } = await getUpgradeTimelock(publicClient, plan.proxy);
+      console.log(`   ${manifest.contracts[name].contractName}: scheduled in ${hash}, ready at ${formatTime(readyAt)}`);
+      continue;
+    }
+    const implementation = await getImplementationAddress(publicClient, plan.proxy);
+    if (implementation !== plan.newImplementation) {
+      throw new Error(`${name} proxy points at ${implementation}, expected ${plan.newImplementation}`);
+    }
+    console.log(`   ${manifest.contracts[name].contractName}: ${hash}`);
+
+    manifest.contracts[name].implementation = implementations[name];
+    manifest.contracts[name].storageLayout = layouts[name];
+    delete manifest.contracts[name].scheduledUpgrade;
+  }
+  console.log("");
+  console.log("Manifest updated:", recordSchedules());
   console.log("");
 
-  // Verify upgrades
-  console.log("Verifying upgrades...");
-  console.log("=====================");
+  if (targets.some((name) => plans[name].step === "schedule")) {
+    console.log("✅ Upgrades scheduled; run this script again once the delay has passed to execute them");
+  } else {
+    console.log("✅ All contracts upgraded successfully!");
+  }
+}
 
-  const identityVersion = await identityRegistry.read.getVersion();
-  console.log("IdentityRegistry version:", identityVersion);
+/** Accepts full registry names or their prefixes ("identity", "reputation", "validation") */
+function parseTargets(value: string | undefined): RegistryName[] {
+  if (!value) return [...REGISTRY_NAMES];
+  const requested = value.split(",").map((target) => target.trim()).filter(Boolean);
+  const names = requested.map((target) => {
+    const name = REGISTRY_NAMES.find((candidate) => candidate === target || candidate === `${target}Registry`);
+    if (!name) {
+      throw new Error(`Unknown upgrade target "${target}", expected one of ${REGISTRY_NAMES.join(", ")}`);
+    }
+    return name;
+  });
+  return [...new Set(names)];
+}
 
-  const reputationVersion = await reputationRegistry.read.getVersion();
-  console.log("ReputationRegistry version:", reputationVersion);
+function initDataFor(name: RegistryName): Hex {
+  const value = process.env[`${name.replace("Registry", "").toUpperCase()}_INIT_DATA`] ?? "0x";
+  if (!/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new Error(`Init data for ${name} must be 0x-prefixed hex`);
+  }
+  return value as Hex;
+}
 
-  const validationVersion = await validationRegistry.read.getVersion();
-  console.log("ValidationRegistry version:", validationVersion);
-  console.log("");
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
 
-  console.log("✅ All contracts upgraded successfully!");
+function report(contractName: string, plan: UpgradePlan) {
+  console.log(`   ${contractName} (proxy ${plan.proxy})`);
+  console.log(`     step:           ${plan.step}${plan.delay > 0n ? ` (delay ${plan.delay}s)` : ""}`);
+  console.log(`     implementation: ${plan.currentImplementation} -> ${plan.newImplementation}`);
+  console.log(`     version:        ${plan.currentVersion} -> ${plan.newVersion}`);
+  console.log(`     init data:      ${plan.initData}`);
   console.log("");
-  console.log("New Implementation Addresses:");
-  console.log("IdentityRegistry:", identityRegistryImplV2.address);
-  console.log("ReputationRegistry:", reputationRegistryImplV2.address);
-  console.log("ValidationRegistry:", validationRegistryImplV2.address);
 }
 
 main().catch((error) => {
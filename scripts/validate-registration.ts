@@ -0,0 +1,87 @@
+import hre from "hardhat";
+import { readFileSync } from "fs";
+import type { Address } from "viem";
+
+import {
+  type RegistrationValidation,
+  validateAgentRegistration,
+  validateRegistrationFile
+} from "../src/registration/index.js";
+import { IdentityClient, readManifest } from "../src/sdk/index.js";
+
+/**
+ * Validates an ERC-8004 agent registration file
+ *
+ * Usage:
+ * 1. Set one or both of
+ *    - REGISTRATION_FILE: path of a local registration file to check
+ *    - AGENT_ID: agent whose tokenURI is resolved and checked; with REGISTRATION_FILE, the
+ *      local file is checked against that agent instead of the resolved one
+ *    The identity registry comes from deployments/<network>.json (or ID_PROXY)
+ * 2. Optionally set IPFS_GATEWAYS / ARWEAVE_GATEWAYS (comma-separated, tried in order) for
+ *    ipfs:// and ar:// tokenURIs
+ * 3. Run: npx hardhat run scripts/validate-registration.ts --network <network>
+ */
+async function main() {
+  const { REGISTRATION_FILE, AGENT_ID, ID_PROXY, IPFS_GATEWAYS, ARWEAVE_GATEWAYS } = process.env;
+  if (!REGISTRATION_FILE && !AGENT_ID) {
+    throw new Error("Set REGISTRATION_FILE and/or AGENT_ID");
+  }
+
+  console.log("Validating agent registration");
+  console.log("=============================");
+
+  let result: RegistrationValidation;
+  if (AGENT_ID) {
+    const { viem, networkName } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const address = (ID_PROXY ?? readManifest(networkName).contracts.identityRegistry.proxy.address) as Address;
+    const identity = new IdentityClient({ address, publicClient });
+    const agentId = BigInt(AGENT_ID);
+    console.log("Network:", networkName);
+    console.log("Identity registry:", address);
+    console.log("Agent:", agentId.toString());
+
+    if (REGISTRATION_FILE) {
+      console.log("File:", REGISTRATION_FILE);
+      result = validateRegistrationFile(readJson(REGISTRATION_FILE), {
+        agentId,
+        chainId: await publicClient.getChainId(),
+        identityRegistry: address
+      });
+    } else {
+      const resolved = await validateAgentRegistration(identity, agentId, {
+        ipfsGateways: IPFS_GATEWAYS?.split(","),
+        arweaveGateways: ARWEAVE_GATEWAYS?.split(",")
+      });
+      console.log("tokenURI:", resolved.tokenUri.length > 80 ? `${resolved.tokenUri.slice(0, 77)}...` : resolved.tokenUri);
+      result = resolved;
+    }
+  } else {
+    console.log("File:", REGISTRATION_FILE);
+    result = validateRegistrationFile(readJson(REGISTRATION_FILE!));
+  }
+  console.log("");
+
+  for (const issue of result.errors) {
+    console.log(`❌ ${issue.path || "/"}: ${issue.message}`);
+  }
+  for (const issue of result.warnings) {
+    console.log(`⚠️  ${issue.path || "/"}: ${issue.message}`);
+  }
+  console.log(result.valid ? "✅ Registration file is valid" : `❌ ${result.errors.length} error(s)`);
+  if (!result.valid) process.exitCode = 1;
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read ${path} as JSON: ${(error as Error).message}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+import { type Address, type Hex, getAddress, isHex, keccak256, size, toHex } from "viem";
+
+import { formatAgentRegistry, hashTokenUriContent } from "../registration/index.js";
+import { ZERO_BYTES32 } from "../sdk/index.js";
+
+/** MCP capability kinds the spec lists for `capability` */
+export const FEEDBACK_CAPABILITIES = ["prompts", "resources", "tools", "completions"] as const;
+
+export interface ProofOfPayment {
+  fromAddress: Address;
+  toAddress: Address;
+  chainId: string;
+  txHash: Hex;
+  [extra: string]: unknown;
+}
+
+/**
+ * The off-chain document `giveFeedback`'s `feedbackUri` points at.
+ */
+export interface FeedbackFile {
+  /** CAIP-10 address of the identity registry, `eip155:<chainId>:<address>` */
+  agentRegistry: string;
+  agentId: number;
+  /** CAIP-10 address of the client, `eip155:<chainId>:<address>` */
+  clientAddress: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** The encoded feedbackAuth passed to `giveFeedback` */
+  feedbackAuth: Hex;
+  score: number;
+  tag1?: string;
+  tag2?: string;
+  /** As defined by A2A */
+  skill?: string;
+  context?: string;
+  task?: string;
+  /** As defined by MCP, one of `FEEDBACK_CAPABILITIES` */
+  capability?: string;
+  /** Name of the MCP tool, prompt or resource */
+  name?: string;
+  proof_of_payment?: ProofOfPayment;
+  [extra: string]: unknown;
+}
+
+export interface FeedbackDetails {
+  agentId: bigint;
+  chainId: number;
+  identityRegistry: Address;
+  clientAddress: Address;
+  score: number;
+  feedbackAuth: Hex;
+  /** Default now */
+  createdAt?: Date;
+  tag1?: string;
+  tag2?: string;
+  skill?: string;
+  context?: string;
+  task?: string;
+  capability?: string;
+  name?: string;
+  proofOfPayment?: { fromAddress: Address; toAddress: Address; chainId: number | bigint; txHash: Hex };
+}
+
+/** A feedback file ready to publish, with the `giveFeedback` arguments that commit to it */
+export interface PreparedFeedback {
+  file: FeedbackFile;
+  /** The exact bytes to store at `feedbackUri` */
+  content: string;
+  feedbackHash: Hex;
+  tag1: Hex;
+  tag2: Hex;
+}
+
+/**
+ * Renders a feedback file from `details` and computes what `giveFeedback` needs: the
+ * `feedbackHash` of the serialized file and its tags as bytes32. Store `content` unchanged,
+ * or the hash will not match.
+ */
+export function buildFeedbackFile(details: FeedbackDetails): PreparedFeedback {
+  if (!Number.isInteger(details.score) || details.score < 0 || details.score > 100) {
+    throw new Error("score must be an integer from 0 to 100");
+  }
+  if (details.agentId > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`agentId ${details.agentId} does not fit in a JSON number`);
+  }
+
+  const file: FeedbackFile = {
+    agentRegistry: formatAgentRegistry(details.chainId, details.identityRegistry),
+    agentId: Number(details.agentId),
+    clientAddress: `eip155:${details.chainId}:${getAddress(details.clientAddress)}`,
+    createdAt: (details.createdAt ?? new Date()).toISOString(),
+    feedbackAuth: details.feedbackAuth,
+    score: details.score
+  };
+  for (const key of ["tag1", "tag2", "skill", "context", "task", "capability", "name"] as const) {
+    if (details[key] !== undefined) file[key] = details[key];
+  }
+  if (details.proofOfPayment) {
+    const payment = details.proofOfPayment;
+    file.proof_of_payment = {
+      fromAddress: getAddress(payment.fromAddress),
+      toAddress: getAddress(payment.toAddress),
+      chainId: payment.chainId.toString(),
+      txHash: payment.txHash
+    };
+  }
+
+  const content = JSON.stringify(file, null, 2) + "\n";
+  return {
+    file,
+    content,
+    feedbackHash: computeFeedbackHash(content),
+    tag1: encodeFeedbackTag(file.tag1),
+    tag2: encodeFeedbackTag(file.tag2)
+  };
+}
+
+/** `feedbackHash` of a stored feedback file: keccak256 of its bytes (UTF-8 for strings) */
+export function computeFeedbackHash(content: string | Uint8Array): Hex {
+  return hashTokenUriContent(content);
+}
+
+/**
+ * The bytes32 tag `giveFeedback` takes for a file's tag: a 0x-prefixed bytes32 is used as
+ * is, any other string is hashed with keccak256, and no tag is bytes32(0).
+ */
+export function encodeFeedbackTag(tag: string | undefined): Hex {
+  if (tag === undefined || tag === "") {
+    return ZERO_BYTES32;
+  }
+  return isHex(tag) && size(tag) === 32 ? (tag.toLowerCase() as Hex) : keccak256(toHex(tag));
+}
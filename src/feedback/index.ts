@@ -0,0 +1,3 @@
+export * from "./file.js";
+export * from "./payment.js";
+export * from "./verify.js";
@@ -0,0 +1,233 @@
+import {
+  type Address,
+  BaseError,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  createPublicClient,
+  getAddress,
+  hexToString,
+  http,
+  isAddressEqual,
+  parseAbi,
+  parseEventLogs,
+  size,
+  TransactionReceiptNotFoundError
+} from "viem";
+
+import {
+  type Caip10Account,
+  type FetchRegistrationOptions,
+  type RegistrationIssue,
+  TokenUriResolver,
+  parseCaip10
+} from "../registration/index.js";
+import type { IdentityClient } from "../sdk/index.js";
+import { type FeedbackRecord, checkProofOfPayment } from "./verify.js";
+
+const erc20TransferAbi = parseAbi(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+
+/** An account the agent is paid at; `chainId` is unset for metadata, which names no chain */
+export interface AgentWallet {
+  chainId?: number;
+  address: Address;
+  source: "metadata" | "registration";
+}
+
+/** An asset that counts as payment on one chain */
+export interface AcceptedAsset {
+  /** ERC-20 token contract, or `"native"` for the chain's own currency */
+  asset: Address | "native";
+  /** Smallest amount that backs feedback, in the asset's base units (default 1) */
+  minAmount?: bigint;
+}
+
+export interface PaymentVerificationOptions extends FetchRegistrationOptions {
+  /** RPC per payment chain id: a URL or a viem public client */
+  rpc: Record<number, string | PublicClient>;
+  /**
+   * Assets accepted per payment chain id. Transfers of anything else do not count, since anyone
+   * can deploy a token and move it for free.
+   */
+  acceptedAssets: Record<number, AcceptedAsset[]>;
+  /**
+   * `paymentKey`s of payments that already back feedback. A payment in the set fails, and a
+   * verified one is added, so sharing the set lets each payment back a single entry.
+   */
+  spentPayments?: Set<string>;
+}
+
+export interface VerifiedPayment {
+  chainId: number;
+  txHash: Hash;
+  from: Address;
+  to: Address;
+  /** ERC-20 token contract, or `"native"` for a plain value transfer */
+  asset: Address | "native";
+  amount: bigint;
+  blockNumber: bigint;
+}
+
+export interface PaymentVerification {
+  /** True when the proof names a settled transfer from the client to one of the agent's wallets */
+  paymentBacked: boolean;
+  /** Issues with JSON Pointer paths into the feedback file */
+  errors: RegistrationIssue[];
+  payment?: VerifiedPayment;
+}
+
+/** Identifies a payment across chains, e.g. in `spentPayments` */
+export function paymentKey(chainId: number, txHash: Hash): string {
+  return `${chainId}:${txHash.toLowerCase()}`;
+}
+
+/**
+ * Collects where an agent is paid: its `agentWallet` metadata (a raw 20-byte address or a
+ * UTF-8 CAIP-10 id) and the `agentWallet` endpoints of its registration file. A registration
+ * file that cannot be resolved only removes its wallets from the list.
+ */
+export async function getAgentWallets(
+  identity: IdentityClient,
+  agentId: bigint,
+  options: FetchRegistrationOptions = {}
+): Promise<AgentWallet[]> {
+  const [metadata, tokenUri, uriHash] = await Promise.all([
+    identity.getMetadata(agentId, "agentWallet"),
+    identity.getAgentUri(agentId),
+    identity.getUriHash(agentId)
+  ]);
+  const wallets: AgentWallet[] = [];
+  const fromMetadata = decodeWalletMetadata(metadata);
+  if (fromMetadata) {
+    wallets.push({ ...fromMetadata, source: "metadata" });
+  }
+
+  if (tokenUri !== "") {
+    try {
+      const file = await (options.resolver ?? new TokenUriResolver(options)).resolveJson(tokenUri, uriHash);
+      const endpoints = isObject(file) && Array.isArray(file.endpoints) ? file.endpoints : [];
+      for (const entry of endpoints) {
+        if (!isObject(entry) || entry.name !== "agentWallet" || typeof entry.endpoint !== "string") continue;
+        const account = parseCaip10(entry.endpoint);
+        if (account) wallets.push({ ...account, source: "registration" });
+      }
+    } catch {
+      // An unreachable or tampered file publishes no wallets
+    }
+  }
+  return wallets;
+}
+
+/**
+ * Checks a feedback file's `proof_of_payment` on the payment chain. The transaction must have
+ * succeeded and moved funds from the feedback's client to one of the agent's wallets, either
+ * as an ERC-20 `Transfer` (x402 payments are usually settled by a facilitator, so the sender
+ * of the transaction does not matter) or as the transaction's own value, of at least the
+ * `minAmount` of one of `acceptedAssets`. RPC failures are reported like any other failed check.
+ */
+export async function verifyFeedbackPayment(
+  identity: IdentityClient,
+  feedback: FeedbackRecord,
+  file: unknown,
+  options: PaymentVerificationOptions
+): Promise<PaymentVerification> {
+  const fail = (path: string, message: string): PaymentVerification => ({
+    paymentBacked: false,
+    errors: [{ path: `/proof_of_payment${path}`, message }]
+  });
+  const proof = isObject(file) ? file.proof_of_payment : undefined;
+  if (proof === undefined) {
+    return fail("", "Missing");
+  }
+  const errors = checkProofOfPayment(proof);
+  if (errors.length > 0 || !isObject(proof)) {
+    return { paymentBacked: false, errors };
+  }
+
+  const chainId = Number(proof.chainId);
+  const from = getAddress(proof.fromAddress as string);
+  const to = getAddress(proof.toAddress as string);
+  const txHash = proof.txHash as Hash;
+  if (!isAddressEqual(from, feedback.clientAddress)) {
+    return fail("/fromAddress", `Payer ${from} is not the client ${feedback.clientAddress}`);
+  }
+  const wallets = await getAgentWallets(identity, feedback.agentId, options);
+  if (!wallets.some((wallet) => isAddressEqual(wallet.address, to) && (wallet.chainId ?? chainId) === chainId)) {
+    return fail("/toAddress", `${to} is not a wallet of agent ${feedback.agentId} on chain ${chainId}`);
+  }
+
+  const accepted = options.acceptedAssets[chainId] ?? [];
+  if (accepted.length === 0) {
+    return fail("/chainId", `No accepted assets configured for chain ${chainId}`);
+  }
+  if (options.spentPayments?.has(paymentKey(chainId, txHash))) {
+    return fail("/txHash", "Payment already backs other feedback");
+  }
+  const rpc = options.rpc[chainId];
+  if (rpc === undefined) {
+    return fail("/chainId", `No RPC configured for chain ${chainId}`);
+  }
+  const client = typeof rpc === "string" ? createPublicClient({ transport: http(rpc) }) : rpc;
+
+  let payment: VerifiedPayment | string;
+  try {
+    const servedChainId = await client.getChainId();
+    if (servedChainId !== chainId) {
+      return fail("/chainId", `The RPC for chain ${chainId} serves chain ${servedChainId}`);
+    }
+    payment = await findPayment(client, { chainId, txHash, from, to }, accepted);
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return fail("/txHash", `Transaction not found on chain ${chainId}`);
+    }
+    const message = error instanceof BaseError ? error.shortMessage : (error as Error).message;
+    return fail("/txHash", `RPC for chain ${chainId} failed: ${message}`);
+  }
+  if (typeof payment === "string") {
+    return fail("/txHash", payment);
+  }
+  options.spentPayments?.add(paymentKey(chainId, txHash));
+  return { paymentBacked: true, errors: [], payment };
+}
+
+/** The accepted transfer `txHash` made from `from` to `to`, or why there is none */
+async function findPayment(
+  client: PublicClient,
+  { chainId, txHash, from, to }: Pick<VerifiedPayment, "chainId" | "txHash" | "from" | "to">,
+  accepted: AcceptedAsset[]
+): Promise<VerifiedPayment | string> {
+  const receipt = await client.getTransactionReceipt({ hash: txHash });
+  if (receipt.status !== "success") {
+    return "Transaction reverted";
+  }
+  const settled = { chainId, txHash, from, to, blockNumber: receipt.blockNumber };
+  const accepts = (asset: Address | "native", amount: bigint) =>
+    accepted.some(
+      (entry) =>
+        (entry.asset === "native" ? asset === "native" : asset !== "native" && isAddressEqual(entry.asset, asset)) &&
+        amount >= (entry.minAmount ?? 1n)
+    );
+
+  const transfer = parseEventLogs({ abi: erc20TransferAbi, logs: receipt.logs }).find(
+    ({ address, args }) => isAddressEqual(args.from, from) && isAddressEqual(args.to, to) && accepts(address, args.value)
+  );
+  if (transfer) {
+    return { ...settled, asset: getAddress(transfer.address), amount: transfer.args.value };
+  }
+  const { from: sender, to: recipient, value } = await client.getTransaction({ hash: txHash });
+  if (isAddressEqual(sender, from) && recipient && isAddressEqual(recipient, to) && accepts("native", value)) {
+    return { ...settled, asset: "native", amount: value };
+  }
+  return `Transaction does not transfer an accepted asset from ${from} to ${to}`;
+}
+
+function decodeWalletMetadata(value: Hex): Caip10Account | { address: Address } | undefined {
+  if (size(value) === 20) {
+    return { address: getAddress(value) };
+  }
+  return size(value) > 0 ? parseCaip10(hexToString(value)) : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
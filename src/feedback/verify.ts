@@ -0,0 +1,258 @@
+import { type Address, type Hex, isAddress, isAddressEqual, isHex, recoverAddress, size } from "viem";
+
+import {
+  type FetchRegistrationOptions,
+  type RegistrationIssue,
+  TokenUriResolver,
+  formatAgentRegistry,
+  parseCaip10
+} from "../registration/index.js";
+import {
+  type NewFeedbackEvent,
+  type ReputationClient,
+  type SignedFeedbackAuth,
+  ZERO_BYTES32,
+  decodeFeedbackAuth,
+  erc1271Abi,
+  getFeedbackAuthDigest,
+  getFeedbackAuthTypedDataDigest,
+  validateFeedbackAuth
+} from "../sdk/index.js";
+import { FEEDBACK_CAPABILITIES, computeFeedbackHash, encodeFeedbackTag } from "./file.js";
+
+/** The on-chain side of a feedback: a `NewFeedback` event or an indexed feedback row */
+export type FeedbackRecord = Pick<
+  NewFeedbackEvent,
+  "agentId" | "clientAddress" | "score" | "tag1" | "tag2" | "feedbackUri" | "feedbackHash"
+>;
+
+/** The registry a feedback file is expected to be about */
+export interface FeedbackContext {
+  chainId: number;
+  identityRegistry: Address;
+}
+
+export interface FeedbackVerification {
+  valid: boolean;
+  /** Issues with JSON Pointer paths into the file, `""` for the whole document */
+  errors: RegistrationIssue[];
+  warnings: RegistrationIssue[];
+}
+
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Checks a parsed feedback file against the feedback it was given with: the required fields,
+ * the agent, client, score and tags, and that the embedded feedbackAuth was issued for this
+ * agent, client and registry. The feedbackAuth signature needs chain access; see
+ * `verifyFeedback`.
+ */
+export function verifyFeedbackFile(
+  file: unknown,
+  feedback: FeedbackRecord,
+  context: FeedbackContext
+): FeedbackVerification {
+  const errors: RegistrationIssue[] = [];
+  const warnings: RegistrationIssue[] = [];
+  if (!isObject(file)) {
+    return { valid: false, errors: [{ path: "", message: "Must be an object" }], warnings };
+  }
+  for (const key of ["agentRegistry", "agentId", "clientAddress", "createdAt", "feedbackAuth", "score"]) {
+    if (!(key in file)) errors.push({ path: "", message: `Missing required property "${key}"` });
+  }
+
+  const registry = formatAgentRegistry(context.chainId, context.identityRegistry);
+  if ("agentRegistry" in file) {
+    const account = typeof file.agentRegistry === "string" ? parseCaip10(file.agentRegistry) : undefined;
+    if (!account) {
+      errors.push({ path: "/agentRegistry", message: "Must be an eip155 CAIP-10 address" });
+    } else if (formatAgentRegistry(account.chainId, account.address) !== registry) {
+      errors.push({ path: "/agentRegistry", message: `Feedback is for ${file.agentRegistry}, not ${registry}` });
+    }
+  }
+  if ("agentId" in file) {
+    if (!Number.isSafeInteger(file.agentId) || (file.agentId as number) < 0) {
+      errors.push({ path: "/agentId", message: "Must be a non-negative integer" });
+    } else if (BigInt(file.agentId as number) !== feedback.agentId) {
+      errors.push({ path: "/agentId", message: `Feedback file is for agent ${file.agentId}, not ${feedback.agentId}` });
+    }
+  }
+  if ("clientAddress" in file) {
+    const account = typeof file.clientAddress === "string" ? parseCaip10(file.clientAddress) : undefined;
+    if (!account) {
+      errors.push({ path: "/clientAddress", message: "Must be an eip155 CAIP-10 address" });
+    } else if (account.chainId !== context.chainId || !isAddressEqual(account.address, feedback.clientAddress)) {
+      errors.push({ path: "/clientAddress", message: `Feedback was given by ${feedback.clientAddress}` });
+    }
+  }
+  const { createdAt } = file;
+  if ("createdAt" in file && !(typeof createdAt === "string" && ISO_8601.test(createdAt) && !isNaN(Date.parse(createdAt)))) {
+    errors.push({ path: "/createdAt", message: "Must be an ISO 8601 date-time" });
+  }
+  if ("score" in file) {
+    if (!Number.isInteger(file.score) || (file.score as number) < 0 || (file.score as number) > 100) {
+      errors.push({ path: "/score", message: "Must be an integer from 0 to 100" });
+    } else if (file.score !== feedback.score) {
+      errors.push({ path: "/score", message: `Score ${file.score} does not match the on-chain ${feedback.score}` });
+    }
+  }
+
+  for (const key of ["tag1", "tag2"] as const) {
+    const value = file[key];
+    if (value !== undefined && typeof value !== "string") {
+      errors.push({ path: `/${key}`, message: "Must be a string" });
+    } else if (encodeFeedbackTag(value) !== feedback[key].toLowerCase()) {
+      errors.push({
+        path: `/${key}`,
+        message: value === undefined ? `Missing, but ${key} is set on-chain` : `Does not match the on-chain ${key}`
+      });
+    }
+  }
+  for (const key of ["skill", "context", "task", "capability", "name"]) {
+    if (file[key] !== undefined && typeof file[key] !== "string") {
+      errors.push({ path: `/${key}`, message: "Must be a string" });
+    }
+  }
+  if (typeof file.capability === "string" && !(FEEDBACK_CAPABILITIES as readonly string[]).includes(file.capability)) {
+    warnings.push({ path: "/capability", message: `Unknown MCP capability "${file.capability}"` });
+  }
+  if (file.proof_of_payment !== undefined) {
+    errors.push(...checkProofOfPayment(file.proof_of_payment));
+  }
+
+  if ("feedbackAuth" in file) {
+    const auth = decode(file.feedbackAuth);
+    if (auth === undefined) {
+      errors.push({ path: "/feedbackAuth", message: "Must be an encoded feedbackAuth" });
+    } else {
+      // Expiry and index limit were enforced by the registry when the feedback was given
+      const mismatches = validateFeedbackAuth(auth, {
+        agentId: feedback.agentId,
+        clientAddress: feedback.clientAddress,
+        chainId: BigInt(context.chainId),
+        identityRegistry: context.identityRegistry,
+        now: 0n
+      });
+      errors.push(...mismatches.map((message) => ({ path: "/feedbackAuth", message })));
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Fetches the file behind a feedback's `feedbackUri` and verifies it: the bytes must match
+ * `feedbackHash`, the content must pass `verifyFeedbackFile`, and the embedded feedbackAuth
+ * must carry a valid signature by its `signerAddress` (EOA or ERC-1271). Feedback without a
+ * hash outside IPFS gets a warning, since its file can change unnoticed.
+ */
+export async function verifyFeedback(
+  reputation: ReputationClient,
+  feedback: FeedbackRecord,
+  options: FetchRegistrationOptions = {}
+): Promise<FeedbackVerification & { file?: unknown }> {
+  const fail = (message: string) => ({ valid: false, errors: [{ path: "", message }], warnings: [] });
+  if (feedback.feedbackUri === "") {
+    return fail("Feedback has no feedbackUri");
+  }
+
+  const [chainId, identityRegistry] = await Promise.all([
+    reputation.publicClient.getChainId(),
+    reputation.getIdentityRegistry()
+  ]);
+  let body: Uint8Array;
+  let text: string;
+  try {
+    ({ body, text } = await (options.resolver ?? new TokenUriResolver(options)).resolve(feedback.feedbackUri));
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+
+  const warnings: RegistrationIssue[] = [];
+  if (feedback.feedbackHash !== ZERO_BYTES32) {
+    const actual = computeFeedbackHash(body);
+    if (actual !== feedback.feedbackHash.toLowerCase()) {
+      return fail(`Content does not match feedbackHash ${feedback.feedbackHash} (content hashes to ${actual})`);
+    }
+  } else if (!feedback.feedbackUri.startsWith("ipfs://")) {
+    warnings.push({ path: "", message: "No feedbackHash committed, so the file can change unnoticed" });
+  }
+
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return fail("Feedback file is not valid JSON");
+  }
+  const result = verifyFeedbackFile(file, feedback, { chainId, identityRegistry });
+  result.warnings.unshift(...warnings);
+
+  const auth = isObject(file) ? decode(file.feedbackAuth) : undefined;
+  if (auth && !(await hasValidSignature(reputation, auth))) {
+    result.errors.push({ path: "/feedbackAuth", message: `Not signed by ${auth.signerAddress}` });
+  }
+  return { ...result, valid: result.errors.length === 0, file };
+}
+
+/** Both digests the registry accepts, recovered as an EOA or checked through ERC-1271 */
+async function hasValidSignature(reputation: ReputationClient, auth: SignedFeedbackAuth): Promise<boolean> {
+  const digests = [getFeedbackAuthDigest(auth), getFeedbackAuthTypedDataDigest(auth, reputation.address)];
+  for (const hash of digests) {
+    const signer = await recoverAddress({ hash, signature: auth.signature }).catch(() => undefined);
+    if (signer !== undefined && isAddressEqual(signer, auth.signerAddress)) return true;
+  }
+
+  const code = await reputation.publicClient.getCode({ address: auth.signerAddress });
+  if (code === undefined || code === "0x") {
+    return false;
+  }
+  for (const hash of digests) {
+    const magicValue = await reputation.publicClient
+      .readContract({
+        address: auth.signerAddress,
+        abi: erc1271Abi,
+        functionName: "isValidSignature",
+        args: [hash, auth.signature]
+      })
+      .catch(() => undefined);
+    if (magicValue === "0x1626ba7e") return true;
+  }
+  return false;
+}
+
+/** Structural checks of a `proof_of_payment` object; see `verifyFeedbackPayment` for the on-chain ones */
+export function checkProofOfPayment(payment: unknown): RegistrationIssue[] {
+  const path = "/proof_of_payment";
+  if (!isObject(payment)) {
+    return [{ path, message: "Must be an object" }];
+  }
+  const errors: RegistrationIssue[] = [];
+  for (const key of ["fromAddress", "toAddress"]) {
+    if (typeof payment[key] !== "string" || !isAddress(payment[key] as string)) {
+      errors.push({ path: `${path}/${key}`, message: "Must be an address" });
+    }
+  }
+  const chainId = typeof payment.chainId === "string" ? Number(payment.chainId) : payment.chainId;
+  if (!Number.isSafeInteger(chainId) || (chainId as number) < 1) {
+    errors.push({ path: `${path}/chainId`, message: "Must be a chain id" });
+  }
+  if (typeof payment.txHash !== "string" || !isHex(payment.txHash) || size(payment.txHash as Hex) !== 32) {
+    errors.push({ path: `${path}/txHash`, message: "Must be a transaction hash" });
+  }
+  return errors;
+}
+
+function decode(feedbackAuth: unknown): SignedFeedbackAuth | undefined {
+  if (typeof feedbackAuth !== "string" || !isHex(feedbackAuth)) {
+    return undefined;
+  }
+  try {
+    return decodeFeedbackAuth(feedbackAuth);
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,235 @@
+import {
+  type AbiEvent,
+  type Address,
+  type Hash,
+  type Log,
+  type PublicClient,
+  getAddress,
+  isAddressEqual
+} from "viem";
+
+import { identityRegistryAbi, reputationRegistryAbi, validationRegistryAbi } from "../sdk/index.js";
+import type { RegistryAddresses } from "../sdk/index.js";
+import type { IndexerStore } from "./IndexerStore.js";
+import type { IndexedEventName, IndexerConfig, StoredEvent, SyncResult } from "./types.js";
+
+const EVENT_SOURCES: Record<IndexedEventName, keyof RegistryAddresses> = {
+  Registered: "identityRegistry",
+  MetadataSet: "identityRegistry",
+  UriUpdated: "identityRegistry",
+  Transfer: "identityRegistry",
+  NewFeedback: "reputationRegistry",
+  FeedbackRevoked: "reputationRegistry",
+  FeedbackAmended: "reputationRegistry",
+  FeedbackDisputed: "reputationRegistry",
+  FeedbackDisputeWithdrawn: "reputationRegistry",
+  ResponseAppended: "reputationRegistry",
+  ValidationRequest: "validationRegistry",
+  ValidationResponse: "validationRegistry",
+  ValidationCancelled: "validationRegistry"
+};
+
+/** Consecutive times a range may change under a scan before `sync` gives up */
+const MAX_RANGE_RETRIES = 3;
+
+const INDEXED_EVENTS = ([...identityRegistryAbi, ...reputationRegistryAbi, ...validationRegistryAbi] as const).filter(
+  (item) => item.type === "event" && item.name in EVENT_SOURCES
+) as AbiEvent[];
+
+/**
+ * Scans the registries' logs into an {@link IndexerStore}.
+ *
+ * Each `sync()` resumes from the stored checkpoint, fetching logs in `batchSize` chunks and
+ * committing one transaction per chunk. Before scanning it compares the checkpoint's block
+ * hash with the chain; on a mismatch it walks back through the recorded hashes to the last
+ * common block, drops everything after it and re-scans from there. A chunk is only committed
+ * if its last block kept the same hash while it was fetched, so a reorg during the scan is
+ * handled the same way.
+ *
+ * `NewFeedback` does not carry the feedback index, so it is read with `getLastIndex` at the
+ * log's block. Scanning ranges older than the node's state history needs an archive node.
+ */
+export class ERC8004Indexer {
+  readonly publicClient: PublicClient;
+  readonly addresses: RegistryAddresses;
+  readonly store: IndexerStore;
+  readonly startBlock: bigint;
+  readonly batchSize: bigint;
+  readonly confirmations: bigint;
+  readonly reorgDepth: number;
+
+  constructor(config: IndexerConfig) {
+    this.publicClient = config.publicClient;
+    this.addresses = config.addresses;
+    this.store = config.store;
+    this.startBlock = config.startBlock ?? 0n;
+    this.batchSize = config.batchSize ?? 2000n;
+    this.confirmations = config.confirmations ?? 0n;
+    this.reorgDepth = config.reorgDepth ?? 128;
+
+    if (this.batchSize < 1n) {
+      throw new Error("batchSize must be at least 1");
+    }
+    this.store.bindRegistries(this.addresses);
+  }
+
+  /**
+   * Indexes up to `toBlock` (default: head minus `confirmations`).
+   */
+  async sync(toBlock?: bigint): Promise<SyncResult> {
+    let reorgAncestor = await this.handleReorg();
+    const head = toBlock ?? (await this.publicClient.getBlockNumber()) - this.confirmations;
+    let fromBlock = this.resumeBlock();
+
+    let events = 0;
+    let retries = 0;
+    for (let start = fromBlock; start <= head; ) {
+      const end = start + this.batchSize - 1n < head ? start + this.batchSize - 1n : head;
+      const indexed = await this.indexRange(start, end);
+      if (indexed !== undefined) {
+        events += indexed;
+        retries = 0;
+        start = end + 1n;
+        continue;
+      }
+      // The chain reorganized during the scan; roll back like at the start of a sync
+      if (++retries > MAX_RANGE_RETRIES) {
+        throw new Error(`Blocks ${start}-${end} kept changing while they were indexed`);
+      }
+      reorgAncestor = (await this.handleReorg()) ?? reorgAncestor;
+      start = this.resumeBlock();
+      if (start < fromBlock) fromBlock = start;
+    }
+    return { fromBlock, toBlock: head < fromBlock ? fromBlock - 1n : head, events, reorgAncestor };
+  }
+
+  private resumeBlock(): bigint {
+    const checkpoint = this.store.getCheckpoint();
+    return checkpoint === undefined ? this.startBlock : checkpoint.blockNumber + 1n;
+  }
+
+  /**
+   * Indexes one chunk. Returns `undefined` without storing anything if the chain changed
+   * while it was fetched.
+   */
+  private async indexRange(fromBlock: bigint, toBlock: bigint): Promise<number | undefined> {
+    // Pin the chunk to its last block first; a reorg below it changes that block's hash
+    const endBlock = await this.publicClient.getBlock({ blockNumber: toBlock });
+    const logs = await this.publicClient.getLogs({
+      address: [this.addresses.identityRegistry, this.addresses.reputationRegistry, this.addresses.validationRegistry],
+      events: INDEXED_EVENTS,
+      fromBlock,
+      toBlock
+    });
+
+    const events = logs
+      .map((log) => this.toStoredEvent(log))
+      .filter((event): event is StoredEvent => event !== undefined)
+      .sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1));
+    const blockHashes = new Map<bigint, Hash>([[toBlock, endBlock.hash]]);
+    for (const event of events) {
+      if ((blockHashes.get(event.blockNumber) ?? event.blockHash) !== event.blockHash) {
+        return undefined;
+      }
+      blockHashes.set(event.blockNumber, event.blockHash);
+    }
+    await this.addFeedbackIndexes(events);
+    if ((await this.getBlockHash(toBlock)) !== endBlock.hash) {
+      return undefined;
+    }
+
+    this.store.transaction(() => {
+      for (const event of events) {
+        this.store.appendEvent(event);
+        this.store.recordBlockHash(event.blockNumber, event.blockHash);
+      }
+      this.store.setCheckpoint({ blockNumber: toBlock, blockHash: endBlock.hash });
+      this.store.pruneBlockHashes(toBlock - BigInt(this.reorgDepth));
+    });
+    return events.length;
+  }
+
+  /**
+   * Sets `feedbackIndex` on each `NewFeedback`: the client's `getLastIndex` after the log's
+   * block, counted back over its later feedback in the same block.
+   */
+  private async addFeedbackIndexes(events: StoredEvent[]): Promise<void> {
+    const byBlock = new Map<string, StoredEvent[]>();
+    for (const event of events) {
+      if (event.eventName !== "NewFeedback") continue;
+      const key = `${event.blockNumber}:${event.args.agentId}:${event.args.clientAddress}`;
+      byBlock.set(key, [...(byBlock.get(key) ?? []), event]);
+    }
+    for (const feedback of byBlock.values()) {
+      const { blockNumber, args } = feedback[0];
+      const lastIndex = await this.publicClient.readContract({
+        address: this.addresses.reputationRegistry,
+        abi: reputationRegistryAbi,
+        functionName: "getLastIndex",
+        args: [BigInt(args.agentId as string), args.clientAddress as Address],
+        blockNumber
+      });
+      feedback.forEach((event, position) => {
+        event.args.feedbackIndex = (lastIndex - BigInt(feedback.length - 1 - position)).toString();
+      });
+    }
+  }
+
+  /**
+   * Rolls the store back to the last block whose hash still matches the chain. Returns that
+   * block, or `undefined` if the checkpoint is still canonical.
+   */
+  private async handleReorg(): Promise<bigint | undefined> {
+    const checkpoint = this.store.getCheckpoint();
+    if (checkpoint === undefined || (await this.getBlockHash(checkpoint.blockNumber)) === checkpoint.blockHash) {
+      return undefined;
+    }
+
+    let ancestor = this.startBlock - 1n;
+    let ancestorHash: Hash | undefined;
+    for (const known of this.store.getBlockHashes()) {
+      if ((await this.getBlockHash(known.blockNumber)) === known.blockHash) {
+        ancestor = known.blockNumber;
+        ancestorHash = known.blockHash;
+        break;
+      }
+    }
+
+    this.store.rollback(ancestor);
+    this.store.setCheckpoint(
+      ancestorHash === undefined ? undefined : { blockNumber: ancestor, blockHash: ancestorHash }
+    );
+    return ancestor;
+  }
+
+  private async getBlockHash(blockNumber: bigint): Promise<Hash | undefined> {
+    if (blockNumber < 0n) {
+      return undefined;
+    }
+    try {
+      return (await this.publicClient.getBlock({ blockNumber })).hash;
+    } catch {
+      // Past the head of a shorter fork
+      return undefined;
+    }
+  }
+
+  private toStoredEvent(log: Log<bigint, number, false, AbiEvent>): StoredEvent | undefined {
+    const { eventName, args } = log as unknown as { eventName: IndexedEventName; args: Record<string, unknown> };
+    const source: Address = this.addresses[EVENT_SOURCES[eventName]];
+    if (!isAddressEqual(log.address, source) || log.blockNumber === null || log.logIndex === null) {
+      return undefined;
+    }
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      blockHash: log.blockHash!,
+      transactionHash: log.transactionHash!,
+      address: getAddress(log.address),
+      eventName,
+      args: Object.fromEntries(
+        Object.entries(args).map(([key, value]) => [key, typeof value === "bigint" ? value.toString() : value])
+      ) as StoredEvent["args"]
+    };
+  }
+}
@@ -0,0 +1,507 @@
+import { DatabaseSync, type SQLInputValue } from "node:sqlite";
+import { type Address, type Hash, type Hex, getAddress } from "viem";
+
+import type { RegistryAddresses } from "../sdk/index.js";
+import { ZERO_BYTES32 } from "../sdk/index.js";
+import { DERIVED_TABLES, SCHEMA, SCHEMA_VERSION } from "./schema.js";
+import type {
+  Checkpoint,
+  IndexedAgent,
+  IndexedFeedback,
+  IndexedFeedbackFilter,
+  IndexedMetadata,
+  IndexedResponse,
+  IndexedValidation,
+  StoredEvent
+} from "./types.js";
+
+type Row = Record<string, SQLInputValue>;
+
+/**
+ * SQLite-backed state of the three registries, materialized from their events.
+ *
+ * Uses the built-in `node:sqlite` module (Node 22.13+). Pass a file path to persist the
+ * index between runs, or omit it for an in-memory store. A file written with an older
+ * schema has its derived tables recreated and replayed from the event log.
+ */
+export class IndexerStore {
+  readonly db: DatabaseSync;
+
+  constructor(path = ":memory:") {
+    this.db = new DatabaseSync(path);
+    this.db.exec(SCHEMA);
+    if (this.getState("schema_version") !== String(SCHEMA_VERSION)) {
+      this.migrate();
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Runs `fn` in a transaction, rolling back if it throws.
+   */
+  transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Pins the store to one deployment; throws if it was built from other registries.
+   */
+  bindRegistries(addresses: RegistryAddresses): void {
+    const value = [addresses.identityRegistry, addresses.reputationRegistry, addresses.validationRegistry]
+      .map((address) => getAddress(address))
+      .join(",");
+    const bound = this.getState("registries");
+    if (bound === undefined) {
+      this.setState("registries", value);
+    } else if (bound !== value) {
+      throw new Error(`Store was indexed for different registries (${bound})`);
+    }
+  }
+
+  getCheckpoint(): Checkpoint | undefined {
+    const blockNumber = this.getState("checkpoint_block");
+    const blockHash = this.getState("checkpoint_hash");
+    if (blockNumber === undefined || blockHash === undefined) {
+      return undefined;
+    }
+    return { blockNumber: BigInt(blockNumber), blockHash: blockHash as Hash };
+  }
+
+  setCheckpoint(checkpoint: Checkpoint | undefined): void {
+    if (checkpoint === undefined) {
+      this.db.prepare("DELETE FROM sync_state WHERE key IN ('checkpoint_block', 'checkpoint_hash')").run();
+      return;
+    }
+    this.setState("checkpoint_block", checkpoint.blockNumber.toString());
+    this.setState("checkpoint_hash", checkpoint.blockHash);
+    this.recordBlockHash(checkpoint.blockNumber, checkpoint.blockHash);
+  }
+
+  recordBlockHash(blockNumber: bigint, blockHash: Hash): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO block_hashes (block_number, block_hash) VALUES (?, ?)")
+      .run(Number(blockNumber), blockHash);
+  }
+
+  /**
+   * Known block hashes, newest first; used to find the common ancestor after a reorg.
+   */
+  getBlockHashes(): Checkpoint[] {
+    return this.db
+      .prepare("SELECT block_number, block_hash FROM block_hashes ORDER BY block_number DESC")
+      .all()
+      .map((row) => ({ blockNumber: BigInt(row.block_number as number), blockHash: row.block_hash as Hash }));
+  }
+
+  pruneBlockHashes(belowBlock: bigint): void {
+    this.db.prepare("DELETE FROM block_hashes WHERE block_number < ?").run(Number(belowBlock));
+  }
+
+  /**
+   * Appends a log to the event table and applies it to the derived tables. Logs must be
+   * appended in chain order.
+   */
+  appendEvent(event: StoredEvent): void {
+    this.db
+      .prepare(
+        `INSERT INTO events (block_number, log_index, block_hash, transaction_hash, address, event_name, args)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        Number(event.blockNumber),
+        event.logIndex,
+        event.blockHash,
+        event.transactionHash,
+        event.address,
+        event.eventName,
+        JSON.stringify(event.args)
+      );
+    this.apply(event);
+  }
+
+  /**
+   * Drops every event after `ancestor` and replays the rest. Returns the number of
+   * events removed.
+   */
+  rollback(ancestor: bigint): number {
+    return this.transaction(() => {
+      const { changes } = this.db.prepare("DELETE FROM events WHERE block_number > ?").run(Number(ancestor));
+      this.db.prepare("DELETE FROM block_hashes WHERE block_number > ?").run(Number(ancestor));
+      this.rebuild();
+      return Number(changes);
+    });
+  }
+
+  /**
+   * Recomputes the derived tables from the event log.
+   */
+  rebuild(): void {
+    for (const table of DERIVED_TABLES) {
+      this.db.exec(`DELETE FROM ${table}`);
+    }
+    const rows = this.db.prepare("SELECT * FROM events ORDER BY block_number, log_index").all();
+    for (const row of rows) {
+      this.apply({
+        blockNumber: BigInt(row.block_number as number),
+        logIndex: row.log_index as number,
+        blockHash: row.block_hash as Hash,
+        transactionHash: row.transaction_hash as Hash,
+        address: row.address as Address,
+        eventName: row.event_name as StoredEvent["eventName"],
+        args: JSON.parse(row.args as string)
+      });
+    }
+  }
+
+  countEvents(): number {
+    return this.db.prepare("SELECT COUNT(*) AS count FROM events").get()!.count as number;
+  }
+
+  getAgent(agentId: bigint): IndexedAgent | undefined {
+    const row = this.db.prepare("SELECT * FROM agents WHERE agent_id = ?").get(agentId.toString());
+    return row === undefined ? undefined : toAgent(row);
+  }
+
+  getAgents(owner?: Address): IndexedAgent[] {
+    const rows =
+      owner === undefined
+        ? this.db.prepare("SELECT * FROM agents ORDER BY length(agent_id), agent_id").all()
+        : this.db
+            .prepare("SELECT * FROM agents WHERE owner = ? ORDER BY length(agent_id), agent_id")
+            .all(getAddress(owner));
+    return rows.map(toAgent);
+  }
+
+  getMetadata(agentId: bigint): IndexedMetadata[] {
+    return this.db
+      .prepare("SELECT key, value, updated_block FROM metadata WHERE agent_id = ? ORDER BY key")
+      .all(agentId.toString())
+      .map((row) => ({
+        key: row.key as string,
+        value: row.value as Hex,
+        updatedBlock: BigInt(row.updated_block as number)
+      }));
+  }
+
+  getFeedback(agentId: bigint, filter: IndexedFeedbackFilter = {}): IndexedFeedback[] {
+    const conditions = ["agent_id = $agentId"];
+    const params: Row = { agentId: agentId.toString() };
+    if (filter.clientAddress !== undefined) {
+      conditions.push("client_address = $clientAddress");
+      params.clientAddress = getAddress(filter.clientAddress);
+    }
+    if (!filter.includeRevoked) {
+      conditions.push("is_revoked = 0");
+    }
+    if (!filter.includeSuperseded) {
+      conditions.push("superseded_by = 0");
+    }
+    if (filter.excludeDisputed) {
+      conditions.push("is_disputed = 0");
+    }
+    return this.db
+      .prepare(
+        `SELECT * FROM feedback WHERE ${conditions.join(" AND ")} ORDER BY block_number, client_address, feedback_index`
+      )
+      .all(params)
+      .map((row) => ({
+        agentId: BigInt(row.agent_id as string),
+        clientAddress: row.client_address as Address,
+        feedbackIndex: BigInt(row.feedback_index as number),
+        score: row.score as number,
+        tag1: row.tag1 as Hex,
+        tag2: row.tag2 as Hex,
+        feedbackUri: row.feedback_uri as string,
+        feedbackHash: row.feedback_hash as Hex,
+        isRevoked: row.is_revoked === 1,
+        previousIndex: BigInt(row.previous_index as number),
+        supersededBy: BigInt(row.superseded_by as number),
+        isDisputed: row.is_disputed === 1,
+        disputeUri: row.dispute_uri as string,
+        disputeHash: row.dispute_hash as Hex,
+        blockNumber: BigInt(row.block_number as number),
+        transactionHash: row.transaction_hash as Hash
+      }));
+  }
+
+  getResponses(agentId: bigint, clientAddress: Address, feedbackIndex: bigint): IndexedResponse[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM responses WHERE agent_id = ? AND client_address = ? AND feedback_index = ?
+         ORDER BY block_number, log_index`
+      )
+      .all(agentId.toString(), getAddress(clientAddress), Number(feedbackIndex))
+      .map((row) => ({
+        agentId: BigInt(row.agent_id as string),
+        clientAddress: row.client_address as Address,
+        feedbackIndex: BigInt(row.feedback_index as number),
+        responder: row.responder as Address,
+        responseUri: row.response_uri as string,
+        responseHash: row.response_hash as Hex,
+        blockNumber: BigInt(row.block_number as number),
+        transactionHash: row.transaction_hash as Hash
+      }));
+  }
+
+  getValidation(requestHash: Hex): IndexedValidation | undefined {
+    const row = this.db.prepare("SELECT * FROM validations WHERE request_hash = ?").get(requestHash.toLowerCase());
+    return row === undefined ? undefined : toValidation(row);
+  }
+
+  /** Cancelled requests are left out, as in the registry's lookup lists */
+  getAgentValidations(agentId: bigint): IndexedValidation[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM validations WHERE agent_id = ? AND is_cancelled = 0 ORDER BY requested_block, request_hash"
+      )
+      .all(agentId.toString())
+      .map(toValidation);
+  }
+
+  getValidatorRequests(validatorAddress: Address): IndexedValidation[] {
+    return this.db
+      .prepare(
+        "SELECT * FROM validations WHERE validator_address = ? AND is_cancelled = 0 ORDER BY requested_block, request_hash"
+      )
+      .all(getAddress(validatorAddress))
+      .map(toValidation);
+  }
+
+  private getState(key: string): string | undefined {
+    return this.db.prepare("SELECT value FROM sync_state WHERE key = ?").get(key)?.value as string | undefined;
+  }
+
+  private setState(key: string, value: string): void {
+    this.db.prepare("INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)").run(key, value);
+  }
+
+  /**
+   * Recreates the derived tables with the current schema and replays the event log into them.
+   */
+  private migrate(): void {
+    this.transaction(() => {
+      for (const table of DERIVED_TABLES) {
+        this.db.exec(`DROP TABLE IF EXISTS ${table}`);
+      }
+      this.db.exec(SCHEMA);
+      this.rebuild();
+      this.setState("schema_version", String(SCHEMA_VERSION));
+    });
+  }
+
+  private apply(event: StoredEvent): void {
+    const { args } = event;
+    const block = Number(event.blockNumber);
+    switch (event.eventName) {
+      case "Transfer":
+        this.run(
+          `INSERT INTO agents (agent_id, owner, updated_block) VALUES ($agentId, $owner, $block)
+           ON CONFLICT (agent_id) DO UPDATE SET owner = $owner, updated_block = $block`,
+          { agentId: args.tokenId as string, owner: args.to as string, block }
+        );
+        break;
+      case "Registered":
+        this.run(
+          `INSERT INTO agents (agent_id, owner, token_uri, registered_block, registered_tx, updated_block)
+           VALUES ($agentId, $owner, $tokenUri, $block, $tx, $block)
+           ON CONFLICT (agent_id) DO UPDATE SET token_uri = $tokenUri, registered_block = $block,
+             registered_tx = $tx, updated_block = $block`,
+          {
+            agentId: args.agentId as string,
+            owner: args.owner as string,
+            tokenUri: args.tokenURI as string,
+            block,
+            tx: event.transactionHash
+          }
+        );
+        break;
+      case "UriUpdated":
+        this.run("UPDATE agents SET token_uri = $uri, updated_block = $block WHERE agent_id = $agentId", {
+          agentId: args.agentId as string,
+          uri: args.newUri as string,
+          block
+        });
+        break;
+      case "MetadataSet":
+        this.run("INSERT OR REPLACE INTO metadata (agent_id, key, value, updated_block) VALUES (?, ?, ?, ?)", [
+          args.agentId as string,
+          args.key as string,
+          args.value as string,
+          block
+        ]);
+        break;
+      case "NewFeedback": {
+        // Set by the indexer from getLastIndex; events stored before it did fall back to counting
+        const feedbackIndex =
+          args.feedbackIndex === undefined
+            ? (this.db
+                .prepare(
+                  "SELECT COALESCE(MAX(feedback_index), 0) AS lastIndex FROM feedback WHERE agent_id = ? AND client_address = ?"
+                )
+                .get(args.agentId as string, args.clientAddress as string)!.lastIndex as number) + 1
+            : Number(args.feedbackIndex);
+        this.run(
+          `INSERT INTO feedback (agent_id, client_address, feedback_index, score, tag1, tag2, feedback_uri,
+             feedback_hash, dispute_hash, block_number, transaction_hash)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            args.agentId as string,
+            args.clientAddress as string,
+            feedbackIndex,
+            args.score as number,
+            args.tag1 as string,
+            args.tag2 as string,
+            args.feedbackUri as string,
+            args.feedbackHash as string,
+            ZERO_BYTES32,
+            block,
+            event.transactionHash
+          ]
+        );
+        break;
+      }
+      case "FeedbackRevoked":
+        this.run(
+          "UPDATE feedback SET is_revoked = 1 WHERE agent_id = ? AND client_address = ? AND feedback_index = ?",
+          [args.agentId as string, args.clientAddress as string, Number(args.feedbackIndex)]
+        );
+        break;
+      case "FeedbackAmended": {
+        // Follows the NewFeedback of the amended version in the same transaction
+        const key = [args.agentId as string, args.clientAddress as string];
+        this.run(
+          "UPDATE feedback SET superseded_by = ? WHERE agent_id = ? AND client_address = ? AND feedback_index = ?",
+          [Number(args.newIndex), ...key, Number(args.previousIndex)]
+        );
+        this.run(
+          "UPDATE feedback SET previous_index = ? WHERE agent_id = ? AND client_address = ? AND feedback_index = ?",
+          [Number(args.previousIndex), ...key, Number(args.newIndex)]
+        );
+        break;
+      }
+      case "FeedbackDisputed":
+        this.run(
+          `UPDATE feedback SET is_disputed = 1, dispute_uri = ?, dispute_hash = ?
+           WHERE agent_id = ? AND client_address = ? AND feedback_index = ?`,
+          [
+            args.reasonUri as string,
+            args.reasonHash as string,
+            args.agentId as string,
+            args.clientAddress as string,
+            Number(args.feedbackIndex)
+          ]
+        );
+        break;
+      case "FeedbackDisputeWithdrawn":
+        this.run(
+          `UPDATE feedback SET is_disputed = 0, dispute_uri = '', dispute_hash = ?
+           WHERE agent_id = ? AND client_address = ? AND feedback_index = ?`,
+          [ZERO_BYTES32, args.agentId as string, args.clientAddress as string, Number(args.feedbackIndex)]
+        );
+        break;
+      case "ResponseAppended":
+        this.run(
+          `INSERT INTO responses (agent_id, client_address, feedback_index, responder, response_uri, response_hash,
+             block_number, log_index, transaction_hash)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            args.agentId as string,
+            args.clientAddress as string,
+            Number(args.feedbackIndex),
+            args.responder as string,
+            args.responseUri as string,
+            args.responseHash as string,
+            block,
+            event.logIndex,
+            event.transactionHash
+          ]
+        );
+        break;
+      case "ValidationRequest":
+        this.run(
+          `INSERT INTO validations (request_hash, validator_address, agent_id, request_uri, response_hash, tag,
+             requested_block, updated_block)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            (args.requestHash as string).toLowerCase(),
+            args.validatorAddress as string,
+            args.agentId as string,
+            args.requestUri as string,
+            ZERO_BYTES32,
+            ZERO_BYTES32,
+            block,
+            block
+          ]
+        );
+        break;
+      case "ValidationResponse":
+        this.run(
+          `UPDATE validations SET response = ?, response_uri = ?, response_hash = ?, tag = ?, has_response = 1,
+             updated_block = ?
+           WHERE request_hash = ?`,
+          [
+            args.response as number,
+            args.responseUri as string,
+            args.responseHash as string,
+            args.tag as string,
+            block,
+            (args.requestHash as string).toLowerCase()
+          ]
+        );
+        break;
+      case "ValidationCancelled":
+        this.run("UPDATE validations SET is_cancelled = 1, updated_block = ? WHERE request_hash = ?", [
+          block,
+          (args.requestHash as string).toLowerCase()
+        ]);
+        break;
+    }
+  }
+
+  private run(sql: string, params: Row | SQLInputValue[]): void {
+    const statement = this.db.prepare(sql);
+    if (Array.isArray(params)) {
+      statement.run(...params);
+    } else {
+      statement.run(params);
+    }
+  }
+}
+
+function toAgent(row: Record<string, unknown>): IndexedAgent {
+  return {
+    agentId: BigInt(row.agent_id as string),
+    owner: row.owner as Address,
+    tokenUri: row.token_uri as string,
+    registeredBlock: row.registered_block === null ? undefined : BigInt(row.registered_block as number),
+    registeredTx: (row.registered_tx ?? undefined) as Hash | undefined
+  };
+}
+
+function toValidation(row: Record<string, unknown>): IndexedValidation {
+  return {
+    requestHash: row.request_hash as Hex,
+    validatorAddress: row.validator_address as Address,
+    agentId: BigInt(row.agent_id as string),
+    requestUri: row.request_uri as string,
+    response: row.response as number,
+    responseUri: row.response_uri as string,
+    responseHash: row.response_hash as Hex,
+    tag: row.tag as Hex,
+    hasResponse: row.has_response === 1,
+    isCancelled: row.is_cancelled === 1,
+    requestedBlock: BigInt(row.requested_block as number),
+    updatedBlock: BigInt(row.updated_block as number)
+  };
+}
@@ -0,0 +1,4 @@
+export { ERC8004Indexer } from "./ERC8004Indexer.js";
+export { IndexerStore } from "./IndexerStore.js";
+export { SCHEMA, SCHEMA_VERSION } from "./schema.js";
+export * from "./types.js";
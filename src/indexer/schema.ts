@@ -0,0 +1,108 @@
+/**
+ * SQLite schema of the indexer store.
+ *
+ * `events` is the append-only source of truth; every other table is derived from it and
+ * can be rebuilt by replaying the log (which is what a reorg does). uint256 values (agent
+ * ids) are stored as decimal TEXT, addresses checksummed, bytes/bytes32 as 0x-hex.
+ */
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sync_state (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS block_hashes (
+  block_number INTEGER PRIMARY KEY,
+  block_hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  address TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS agents (
+  agent_id TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  token_uri TEXT NOT NULL DEFAULT '',
+  registered_block INTEGER,
+  registered_tx TEXT,
+  updated_block INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS metadata (
+  agent_id TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  updated_block INTEGER NOT NULL,
+  PRIMARY KEY (agent_id, key)
+);
+
+CREATE TABLE IF NOT EXISTS feedback (
+  agent_id TEXT NOT NULL,
+  client_address TEXT NOT NULL,
+  feedback_index INTEGER NOT NULL,
+  score INTEGER NOT NULL,
+  tag1 TEXT NOT NULL,
+  tag2 TEXT NOT NULL,
+  feedback_uri TEXT NOT NULL,
+  feedback_hash TEXT NOT NULL,
+  is_revoked INTEGER NOT NULL DEFAULT 0,
+  previous_index INTEGER NOT NULL DEFAULT 0,
+  superseded_by INTEGER NOT NULL DEFAULT 0,
+  is_disputed INTEGER NOT NULL DEFAULT 0,
+  dispute_uri TEXT NOT NULL DEFAULT '',
+  dispute_hash TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  PRIMARY KEY (agent_id, client_address, feedback_index)
+);
+
+CREATE TABLE IF NOT EXISTS responses (
+  agent_id TEXT NOT NULL,
+  client_address TEXT NOT NULL,
+  feedback_index INTEGER NOT NULL,
+  responder TEXT NOT NULL,
+  response_uri TEXT NOT NULL,
+  response_hash TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS responses_by_feedback ON responses (agent_id, client_address, feedback_index);
+
+CREATE TABLE IF NOT EXISTS validations (
+  request_hash TEXT PRIMARY KEY,
+  validator_address TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  request_uri TEXT NOT NULL,
+  response INTEGER NOT NULL DEFAULT 0,
+  response_uri TEXT NOT NULL DEFAULT '',
+  response_hash TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  has_response INTEGER NOT NULL DEFAULT 0,
+  is_cancelled INTEGER NOT NULL DEFAULT 0,
+  requested_block INTEGER NOT NULL,
+  updated_block INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS validations_by_agent ON validations (agent_id);
+CREATE INDEX IF NOT EXISTS validations_by_validator ON validations (validator_address);
+`;
+
+/**
+ * Version of the derived tables, kept in `sync_state`. Bump it whenever a derived table
+ * changes; stores with another version drop and rebuild them from `events` when opened.
+ */
+export const SCHEMA_VERSION = 2;
+
+/** Derived tables, cleared before a replay */
+export const DERIVED_TABLES = ["agents", "metadata", "feedback", "responses", "validations"] as const;
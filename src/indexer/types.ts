@@ -0,0 +1,136 @@
+import type { Address, Hash, Hex, PublicClient } from "viem";
+
+import type { RegistryAddresses } from "../sdk/index.js";
+import type { IndexerStore } from "./IndexerStore.js";
+
+export type IndexedEventName =
+  | "Registered"
+  | "MetadataSet"
+  | "UriUpdated"
+  | "Transfer"
+  | "NewFeedback"
+  | "FeedbackRevoked"
+  | "FeedbackAmended"
+  | "FeedbackDisputed"
+  | "FeedbackDisputeWithdrawn"
+  | "ResponseAppended"
+  | "ValidationRequest"
+  | "ValidationResponse"
+  | "ValidationCancelled";
+
+/**
+ * A registry log as stored in the `events` table. Arguments are JSON-safe: uint256 values
+ * become decimal strings, everything else keeps its viem representation.
+ */
+export interface StoredEvent {
+  blockNumber: bigint;
+  logIndex: number;
+  blockHash: Hash;
+  transactionHash: Hash;
+  address: Address;
+  eventName: IndexedEventName;
+  args: Record<string, string | number | boolean>;
+}
+
+export interface IndexerConfig {
+  publicClient: PublicClient;
+  addresses: RegistryAddresses;
+  store: IndexerStore;
+  /** First block to scan when the store is empty (default 0, use the deployment block) */
+  startBlock?: bigint;
+  /** Blocks per `eth_getLogs` call (default 2000) */
+  batchSize?: bigint;
+  /** Stay this many blocks behind the head (default 0) */
+  confirmations?: bigint;
+  /** How many recent block hashes to keep for finding the common ancestor (default 128) */
+  reorgDepth?: number;
+}
+
+export interface Checkpoint {
+  blockNumber: bigint;
+  blockHash: Hash;
+}
+
+export interface SyncResult {
+  /** First block scanned (after any reorg rollback) */
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Registry logs ingested in this run */
+  events: number;
+  /** Set when a reorg was detected: the last block both chains agree on */
+  reorgAncestor?: bigint;
+}
+
+export interface IndexedAgent {
+  agentId: bigint;
+  owner: Address;
+  tokenUri: string;
+  /** `undefined` if the mint happened before the indexed range */
+  registeredBlock?: bigint;
+  registeredTx?: Hash;
+}
+
+export interface IndexedMetadata {
+  key: string;
+  value: Hex;
+  updatedBlock: bigint;
+}
+
+export interface IndexedFeedback {
+  agentId: bigint;
+  clientAddress: Address;
+  /** 1-based, counted per (agentId, clientAddress) exactly like `getLastIndex` */
+  feedbackIndex: bigint;
+  score: number;
+  tag1: Hex;
+  tag2: Hex;
+  feedbackUri: string;
+  feedbackHash: Hex;
+  isRevoked: boolean;
+  /** The entry this one amends; 0n for original feedback */
+  previousIndex: bigint;
+  /** The amendment that replaced this entry; 0n while it is the latest version */
+  supersededBy: bigint;
+  /** Contested by the agent; the reason fields are empty while it is not */
+  isDisputed: boolean;
+  disputeUri: string;
+  disputeHash: Hex;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+export interface IndexedFeedbackFilter {
+  clientAddress?: Address;
+  includeRevoked?: boolean;
+  /** Also return entries replaced by an amendment (default false, like `readAllFeedback`) */
+  includeSuperseded?: boolean;
+  /** Leave out entries the agent currently disputes (default false) */
+  excludeDisputed?: boolean;
+}
+
+export interface IndexedResponse {
+  agentId: bigint;
+  clientAddress: Address;
+  feedbackIndex: bigint;
+  responder: Address;
+  responseUri: string;
+  responseHash: Hex;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+export interface IndexedValidation {
+  requestHash: Hex;
+  validatorAddress: Address;
+  agentId: bigint;
+  requestUri: string;
+  /** Latest response; meaningless while `hasResponse` is false */
+  response: number;
+  responseUri: string;
+  responseHash: Hex;
+  tag: Hex;
+  hasResponse: boolean;
+  isCancelled: boolean;
+  requestedBlock: bigint;
+  updatedBlock: bigint;
+}
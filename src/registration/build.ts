@@ -0,0 +1,80 @@
+import { type Address, getAddress } from "viem";
+
+import {
+  type AgentRegistration,
+  type AgentRegistrationFile,
+  REGISTRATION_FILE_TYPE,
+  type RegistrationEndpoint
+} from "./schema.js";
+import { validateRegistrationFile } from "./validate.js";
+
+/** An endpoint URI, optionally with the protocol version it speaks */
+export type EndpointDetails = string | { endpoint: string; version?: string };
+
+/**
+ * What an agent operator provides; `buildRegistrationFile` turns it into a registration file.
+ */
+export interface AgentDetails {
+  name: string;
+  description: string;
+  image: string;
+  a2a?: EndpointDetails;
+  mcp?: EndpointDetails;
+  oasf?: EndpointDetails;
+  /** ENS name, e.g. `agent.eth` */
+  ens?: EndpointDetails;
+  did?: EndpointDetails;
+  /** Account the agent is paid at, published as a CAIP-10 `agentWallet` endpoint */
+  wallet?: { chainId: number; address: Address };
+  /** Further endpoints, appended as given */
+  endpoints?: RegistrationEndpoint[];
+  supportedTrust?: string[];
+}
+
+const NAMED_ENDPOINTS = [
+  ["a2a", "A2A"],
+  ["mcp", "MCP"],
+  ["oasf", "OASF"],
+  ["ens", "ENS"],
+  ["did", "DID"]
+] as const;
+
+/**
+ * Renders a registration file from `details`. Throws if the result does not validate, so
+ * nothing gets published or registered with a malformed file.
+ */
+export function buildRegistrationFile(
+  details: AgentDetails,
+  registrations: AgentRegistration[] = []
+): AgentRegistrationFile {
+  const endpoints: RegistrationEndpoint[] = [];
+  for (const [key, name] of NAMED_ENDPOINTS) {
+    const value = details[key];
+    if (value === undefined) continue;
+    endpoints.push(typeof value === "string" ? { name, endpoint: value } : { name, ...value });
+  }
+  if (details.wallet) {
+    endpoints.push({ name: "agentWallet", endpoint: `eip155:${details.wallet.chainId}:${getAddress(details.wallet.address)}` });
+  }
+  endpoints.push(...(details.endpoints ?? []));
+
+  const file: AgentRegistrationFile = {
+    type: REGISTRATION_FILE_TYPE,
+    name: details.name,
+    description: details.description,
+    image: details.image,
+    endpoints,
+    registrations
+  };
+  if (details.supportedTrust !== undefined) {
+    file.supportedTrust = details.supportedTrust;
+  }
+
+  const { errors } = validateRegistrationFile(file);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid registration file:\n${errors.map((issue) => `  ${issue.path || "/"}: ${issue.message}`).join("\n")}`
+    );
+  }
+  return file;
+}
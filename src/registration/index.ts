@@ -0,0 +1,6 @@
+export * from "./build.js";
+export * from "./publish.js";
+export * from "./resolver.js";
+export * from "./schema.js";
+export * from "./storage.js";
+export * from "./validate.js";
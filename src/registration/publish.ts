@@ -0,0 +1,74 @@
+import type { Hash, Hex } from "viem";
+
+import type { IdentityClient, MetadataEntry, RegistrationResult } from "../sdk/index.js";
+import { type AgentDetails, buildRegistrationFile } from "./build.js";
+import { hashTokenUriContent } from "./resolver.js";
+import type { AgentRegistrationFile } from "./schema.js";
+import { LOCAL_CHAIN_IDS, type RegistrationStorage } from "./storage.js";
+import { formatAgentRegistry } from "./validate.js";
+
+export interface PublishAndRegisterParams {
+  identity: IdentityClient;
+  storage: RegistrationStorage;
+  details: AgentDetails;
+  /** On-chain metadata passed to `register(tokenUri, metadata)` */
+  metadata?: MetadataEntry[];
+  /** File name for storages that keep names (default `<slugified name>.json`) */
+  fileName?: string;
+  /** Commit the keccak256 of each stored file on-chain as the agent's `uriHash` */
+  commitHash?: boolean;
+}
+
+export interface PublishedAgent {
+  agentId: bigint;
+  /** The final `tokenURI`, pointing at `file` */
+  tokenUri: string;
+  file: AgentRegistrationFile;
+  registration: RegistrationResult;
+  /** `setAgentUri` transaction, unless re-publishing kept the URI (e.g. a local directory) and no hash is committed */
+  uriUpdateHash?: Hash;
+  /** The committed keccak256 of `file`, with `commitHash` */
+  uriHash?: Hex;
+}
+
+/**
+ * Publishes a registration file for a new agent and registers it:
+ * 1. renders the file from `details` and stores it
+ * 2. registers the agent with that URI and `metadata`
+ * 3. stores the file again with the new agent in `registrations` and points `tokenURI` at it
+ *
+ * With `commitHash` both steps also commit the stored file's hash, so `setAgentUri` runs even
+ * when the URI stays the same. Storage returning `file://` URIs is refused outside
+ * `LOCAL_CHAIN_IDS`, before anything is sent.
+ */
+export async function publishAndRegister(params: PublishAndRegisterParams): Promise<PublishedAgent> {
+  const { identity, storage, details, metadata = [], commitHash = false } = params;
+  const fileName = params.fileName ?? `${slugify(details.name)}.json`;
+
+  const chainId = await identity.publicClient.getChainId();
+  const draft = serialize(buildRegistrationFile(details));
+  const draftUri = await storage.put(fileName, draft);
+  if (draftUri.startsWith("file://") && !LOCAL_CHAIN_IDS.includes(chainId)) {
+    throw new Error(`${draftUri} only resolves on this machine; publish to storage with a public URI for chain ${chainId}`);
+  }
+  const registration = await identity.register(draftUri, metadata, commitHash ? hashTokenUriContent(draft) : undefined);
+
+  const file = buildRegistrationFile(details, [
+    { agentId: Number(registration.agentId), agentRegistry: formatAgentRegistry(chainId, identity.address) }
+  ]);
+  const content = serialize(file);
+  const tokenUri = await storage.put(fileName, content);
+  const uriHash = commitHash ? hashTokenUriContent(content) : undefined;
+  const uriUpdateHash =
+    tokenUri === draftUri && !commitHash ? undefined : (await identity.setAgentUri(registration.agentId, tokenUri, uriHash)).hash;
+
+  return { agentId: registration.agentId, tokenUri, file, registration, uriUpdateHash, uriHash };
+}
+
+function serialize(file: AgentRegistrationFile): string {
+  return JSON.stringify(file, null, 2) + "\n";
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "agent";
+}
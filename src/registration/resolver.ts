@@ -0,0 +1,251 @@
+import { type Hex, keccak256, toBytes, zeroHash } from "viem";
+
+/** What a fetcher returns for a URI */
+export interface FetchedContent {
+  body: Uint8Array;
+  contentType?: string;
+  /** The URL actually fetched, e.g. the gateway URL of an `ipfs://` URI */
+  url?: string;
+}
+
+export interface FetcherContext {
+  fetch: typeof fetch;
+  maxBytes: number;
+  timeoutMs: number;
+}
+
+/** Fetches one URI scheme; throws to report failure */
+export type UriFetcher = (uri: string, context: FetcherContext) => Promise<FetchedContent>;
+
+export interface ResolvedTokenUri extends FetchedContent {
+  uri: string;
+  /** `body` decoded as UTF-8 */
+  text: string;
+  fromCache: boolean;
+}
+
+export interface TokenUriResolverOptions {
+  /** Tried in order until one answers (default ipfs.io, dweb.link) */
+  ipfsGateways?: string[];
+  /** Tried in order until one answers (default arweave.net) */
+  arweaveGateways?: string[];
+  /** Largest accepted document (default 1 MiB) */
+  maxBytes?: number;
+  /** Per request, so each gateway gets the full budget (default 10 s) */
+  timeoutMs?: number;
+  /** How long resolved documents are reused, 0 to disable caching (default 5 min) */
+  cacheTtlMs?: number;
+  /** Most documents kept, least recently used first out (default 100) */
+  cacheSize?: number;
+  fetch?: typeof fetch;
+  /** Extra or replacement fetchers by scheme, without the colon (e.g. `{ ipfs: myNodeFetcher }`) */
+  fetchers?: Record<string, UriFetcher>;
+}
+
+export const DEFAULT_IPFS_GATEWAYS = ["https://ipfs.io", "https://dweb.link"];
+export const DEFAULT_ARWEAVE_GATEWAYS = ["https://arweave.net"];
+
+/**
+ * Resolves `tokenURI`s (`ipfs://`, `ar://`, `http(s)://`, `data:`) to their content with size
+ * and time limits, gateway fallback and an in-memory cache. Concurrent requests for the same
+ * URI share one fetch.
+ */
+export class TokenUriResolver {
+  readonly maxBytes: number;
+  readonly timeoutMs: number;
+  readonly cacheTtlMs: number;
+  readonly cacheSize: number;
+
+  private readonly fetchers: Record<string, UriFetcher>;
+  private readonly fetchFn: typeof fetch;
+  private readonly cache = new Map<string, { expiresAt: number; value: ResolvedTokenUri }>();
+  private readonly pending = new Map<string, Promise<ResolvedTokenUri>>();
+
+  constructor(options: TokenUriResolverOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 1024 * 1024;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.cacheTtlMs = options.cacheTtlMs ?? 5 * 60_000;
+    this.cacheSize = options.cacheSize ?? 100;
+    this.fetchFn = options.fetch ?? fetch;
+    this.fetchers = {
+      http: fetchHttp,
+      https: fetchHttp,
+      data: fetchDataUri,
+      ipfs: gatewayFetcher(options.ipfsGateways ?? DEFAULT_IPFS_GATEWAYS, ipfsPath),
+      ar: gatewayFetcher(options.arweaveGateways ?? DEFAULT_ARWEAVE_GATEWAYS, (uri) => uri.slice("ar://".length)),
+      ...options.fetchers
+    };
+  }
+
+  /**
+   * Resolves `uri`, checking the content against `expectedHash` (keccak256 of the bytes, as
+   * committed with `setAgentUri(agentId, uri, uriHash)`) when given. A cached copy that fails
+   * the check is refetched once, since the document may have been replaced together with its
+   * hash. bytes32(0), which `getUriHash` returns for uncommitted URIs, skips the check.
+   */
+  async resolve(uri: string, expectedHash?: Hex): Promise<ResolvedTokenUri> {
+    let resolved = await this.lookup(uri);
+    if (expectedHash === undefined || expectedHash === zeroHash) {
+      return resolved;
+    }
+    let actual = hashTokenUriContent(resolved.body);
+    if (actual !== expectedHash.toLowerCase() && resolved.fromCache) {
+      this.cache.delete(uri);
+      resolved = await this.lookup(uri);
+      actual = hashTokenUriContent(resolved.body);
+    }
+    if (actual !== expectedHash.toLowerCase()) {
+      throw new Error(`${label(uri)} does not match its committed hash ${expectedHash} (content hashes to ${actual})`);
+    }
+    return resolved;
+  }
+
+  /** Resolves `uri` (checked against `expectedHash` like {@link resolve}) and parses it as JSON */
+  async resolveJson(uri: string, expectedHash?: Hex): Promise<unknown> {
+    const { text } = await this.resolve(uri, expectedHash);
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${label(uri)} is not valid JSON`);
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async lookup(uri: string): Promise<ResolvedTokenUri> {
+    const cached = this.cache.get(uri);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Re-insert to mark it as most recently used
+      this.cache.delete(uri);
+      this.cache.set(uri, cached);
+      return { ...cached.value, fromCache: true };
+    }
+    this.cache.delete(uri);
+
+    let request = this.pending.get(uri);
+    if (!request) {
+      request = this.fetchUncached(uri).finally(() => this.pending.delete(uri));
+      this.pending.set(uri, request);
+    }
+    return request;
+  }
+
+  private async fetchUncached(uri: string): Promise<ResolvedTokenUri> {
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(uri)?.[1].toLowerCase();
+    const fetcher = scheme === undefined ? undefined : this.fetchers[scheme];
+    if (!fetcher) {
+      throw new Error(`Unsupported tokenURI scheme: ${uri}`);
+    }
+
+    const content = await fetcher(uri, { fetch: this.fetchFn, maxBytes: this.maxBytes, timeoutMs: this.timeoutMs });
+    if (content.body.byteLength > this.maxBytes) {
+      throw new Error(`${content.url ?? uri} exceeds the ${this.maxBytes} byte limit`);
+    }
+    const value: ResolvedTokenUri = { ...content, uri, text: new TextDecoder().decode(content.body), fromCache: false };
+
+    if (this.cacheTtlMs > 0 && this.cacheSize > 0) {
+      this.cache.set(uri, { expiresAt: Date.now() + this.cacheTtlMs, value });
+      while (this.cache.size > this.cacheSize) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+    return value;
+  }
+}
+
+/** The `uriHash` to commit for a document: keccak256 of its bytes (UTF-8 for strings) */
+export function hashTokenUriContent(content: string | Uint8Array): Hex {
+  return keccak256(typeof content === "string" ? toBytes(content) : content);
+}
+
+/**
+ * GETs an http(s) URL, rejecting non-2xx answers, bodies over `maxBytes` (by Content-Length
+ * or while streaming) and requests slower than `timeoutMs`.
+ */
+export const fetchHttp: UriFetcher = async (url, { fetch, maxBytes, timeoutMs }) => {
+  const signal = AbortSignal.timeout(timeoutMs);
+  try {
+    const response = await fetch(url, { signal, redirect: "follow" });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Fetching ${url} failed with HTTP ${response.status}`);
+    }
+    const declared = Number(response.headers.get("content-length"));
+    if (declared > maxBytes) {
+      await response.body?.cancel();
+      throw new Error(`${url} exceeds the ${maxBytes} byte limit`);
+    }
+
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > maxBytes) {
+          await reader.cancel();
+          throw new Error(`${url} exceeds the ${maxBytes} byte limit`);
+        }
+        chunks.push(value);
+      }
+    }
+    return {
+      body: Buffer.concat(chunks),
+      contentType: response.headers.get("content-type") ?? undefined,
+      url
+    };
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error(`Fetching ${url} timed out after ${timeoutMs} ms`);
+    }
+    throw error;
+  }
+};
+
+/** Decodes `data:[<mediatype>][;base64],<data>` */
+export const fetchDataUri: UriFetcher = async (uri) => {
+  const comma = uri.indexOf(",");
+  if (comma < 0) {
+    throw new Error("Malformed data: URI");
+  }
+  const header = uri.slice("data:".length, comma);
+  const payload = uri.slice(comma + 1);
+  const base64 = header.endsWith(";base64");
+  return {
+    body: base64 ? Buffer.from(payload, "base64") : Buffer.from(decodeURIComponent(payload)),
+    contentType: (base64 ? header.slice(0, -";base64".length) : header) || "text/plain;charset=US-ASCII"
+  };
+};
+
+/**
+ * Builds a fetcher that maps a URI onto `<gateway>/<path>` and tries each gateway in turn,
+ * failing with every gateway's error if none answers.
+ */
+export function gatewayFetcher(gateways: string[], toPath: (uri: string) => string): UriFetcher {
+  return async (uri, context) => {
+    const path = toPath(uri);
+    const errors: string[] = [];
+    for (const gateway of gateways) {
+      try {
+        return await fetchHttp(`${gateway.replace(/\/+$/, "")}/${path}`, context);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+    throw new Error(errors.length === 1 ? errors[0] : `No gateway could resolve ${uri}:\n  ${errors.join("\n  ")}`);
+  };
+}
+
+/** `ipfs://<cid>/<path>` (or the legacy `ipfs://ipfs/<cid>`) as a gateway path */
+function ipfsPath(uri: string): string {
+  return `ipfs/${uri.slice("ipfs://".length).replace(/^ipfs\//, "")}`;
+}
+
+/** `uri` for messages, without the payload of `data:` URIs */
+function label(uri: string): string {
+  return uri.startsWith("data:") ? "data: URI" : uri;
+}
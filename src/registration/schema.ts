@@ -0,0 +1,81 @@
+/** `type` every ERC-8004 registration file must declare */
+export const REGISTRATION_FILE_TYPE = "https://eips.ethereum.org/EIPS/eip-8004#registration-v1";
+
+/** Trust models named by the spec; others are reported as warnings */
+export const KNOWN_TRUST_MODELS = ["reputation", "crypto-economic", "tee-attestation"] as const;
+
+export interface RegistrationEndpoint {
+  /** Protocol or kind, e.g. `A2A`, `MCP`, `OASF`, `ENS`, `DID`, `agentWallet` */
+  name: string;
+  endpoint: string;
+  version?: string;
+  [extra: string]: unknown;
+}
+
+export interface AgentRegistration {
+  agentId: number;
+  /** CAIP-10 address of the identity registry, `eip155:<chainId>:<address>` */
+  agentRegistry: string;
+}
+
+/**
+ * The JSON document an agent's `tokenURI` resolves to.
+ */
+export interface AgentRegistrationFile {
+  type: typeof REGISTRATION_FILE_TYPE;
+  name: string;
+  description: string;
+  image: string;
+  endpoints: RegistrationEndpoint[];
+  registrations: AgentRegistration[];
+  supportedTrust?: string[];
+  [extra: string]: unknown;
+}
+
+/**
+ * JSON Schema (draft 2020-12) of the registration file. Only structure is described here;
+ * `validateRegistrationFile` adds the checks a schema cannot express.
+ */
+export const REGISTRATION_FILE_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "https://eips.ethereum.org/EIPS/eip-8004/registration-v1.schema.json",
+  title: "ERC-8004 agent registration file",
+  type: "object",
+  required: ["type", "name", "description", "image", "endpoints", "registrations"],
+  properties: {
+    type: { const: REGISTRATION_FILE_TYPE },
+    name: { type: "string", minLength: 1 },
+    description: { type: "string", minLength: 1 },
+    image: { type: "string", minLength: 1 },
+    endpoints: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "endpoint"],
+        properties: {
+          name: { type: "string", minLength: 1 },
+          endpoint: { type: "string", minLength: 1 },
+          version: { type: "string" }
+        }
+      }
+    },
+    // Empty until the agent is registered; `validateAgentRegistration` requires the token's entry
+    registrations: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["agentId", "agentRegistry"],
+        additionalProperties: false,
+        properties: {
+          agentId: { type: "integer", minimum: 0 },
+          agentRegistry: { type: "string", pattern: "^eip155:[0-9]+:0x[0-9a-fA-F]{40}$" }
+        }
+      }
+    },
+    supportedTrust: {
+      type: "array",
+      uniqueItems: true,
+      items: { type: "string", minLength: 1 }
+    }
+  }
+} as const;
@@ -0,0 +1,104 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+/**
+ * Where registration files are published. `put` returns the URI to store as `tokenURI`.
+ */
+export interface RegistrationStorage {
+  put(name: string, content: string): Promise<string>;
+  get(uri: string): Promise<string>;
+}
+
+/**
+ * Writes files into a directory. URIs are `<baseUri>/<name>` when the directory is served
+ * somewhere (e.g. `https://agents.example/registrations`), `file://` URLs otherwise. Those only
+ * resolve on this machine, so `publishAndRegister` accepts them on local chains only.
+ * Re-publishing a name overwrites it and returns the same URI.
+ */
+export class LocalDirectoryStorage implements RegistrationStorage {
+  readonly dir: string;
+  readonly baseUri?: string;
+
+  constructor(dir: string, baseUri?: string) {
+    this.dir = resolve(dir);
+    this.baseUri = baseUri?.replace(/\/+$/, "");
+  }
+
+  async put(name: string, content: string): Promise<string> {
+    mkdirSync(this.dir, { recursive: true });
+    const path = join(this.dir, basename(name));
+    writeFileSync(path, content);
+    return this.baseUri ? `${this.baseUri}/${basename(name)}` : pathToFileURL(path).href;
+  }
+
+  async get(uri: string): Promise<string> {
+    const path = this.baseUri && uri.startsWith(`${this.baseUri}/`)
+      ? join(this.dir, basename(uri))
+      : uri.startsWith("file://") ? fileURLToPath(uri) : undefined;
+    if (!path) {
+      throw new Error(`${uri} is not stored in ${this.dir}`);
+    }
+    return readFileSync(path, "utf8");
+  }
+}
+
+/** Chain ids of development nodes (Hardhat, Anvil), the only chains a `file://` tokenURI suits */
+export const LOCAL_CHAIN_IDS: readonly number[] = [31337, 1337];
+
+/**
+ * Content-addressed stand-in for an IPFS node: files are stored under their CIDv1 (raw codec,
+ * sha2-256) and published as `ipfs://<cid>`, the CID `ipfs add --cid-version 1 --raw-leaves`
+ * gives the same content up to 1 MiB. Pinning the directory's files on IPFS makes the URIs resolvable.
+ */
+export class LocalIpfsStorage implements RegistrationStorage {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  async put(_name: string, content: string): Promise<string> {
+    const cid = computeRawCid(Buffer.from(content));
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(join(this.dir, cid), content);
+    return `ipfs://${cid}`;
+  }
+
+  async get(uri: string): Promise<string> {
+    const cid = uri.replace(/^ipfs:\/\//, "");
+    if (!/^b[a-z2-7]+$/.test(cid)) {
+      throw new Error(`${uri} is not a CIDv1 URI`);
+    }
+    return readFileSync(join(this.dir, cid), "utf8");
+  }
+}
+
+/** CIDv1 of `content` as a single raw block, base32-encoded (`bafkrei...`) */
+export function computeRawCid(content: Uint8Array): string {
+  const digest = createHash("sha256").update(content).digest();
+  // version 1, raw codec (0x55), sha2-256 multihash (0x12, 32 bytes)
+  const bytes = Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]);
+  return `b${base32(bytes)}`;
+}
+
+function base32(bytes: Uint8Array): string {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz234567";
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += alphabet[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    output += alphabet[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
@@ -0,0 +1,257 @@
+import { type Address, getAddress, isAddress, isAddressEqual } from "viem";
+
+import type { IdentityClient } from "../sdk/index.js";
+import { TokenUriResolver, type TokenUriResolverOptions } from "./resolver.js";
+import { KNOWN_TRUST_MODELS, REGISTRATION_FILE_SCHEMA } from "./schema.js";
+
+export interface RegistrationIssue {
+  /** JSON Pointer to the offending value, `""` for the whole document */
+  path: string;
+  message: string;
+}
+
+export interface RegistrationValidation {
+  valid: boolean;
+  errors: RegistrationIssue[];
+  warnings: RegistrationIssue[];
+}
+
+/** The on-chain token a registration file is expected to describe */
+export interface RegistrationContext {
+  agentId: bigint;
+  chainId: number;
+  identityRegistry: Address;
+}
+
+export interface Caip10Account {
+  chainId: number;
+  address: Address;
+}
+
+export interface FetchRegistrationOptions extends TokenUriResolverOptions {
+  /** Shared resolver (and its cache); one is created from the other options otherwise */
+  resolver?: TokenUriResolver;
+}
+
+const CAIP10_EIP155 = /^eip155:([1-9][0-9]*):(0x[0-9a-fA-F]{40})$/;
+
+/**
+ * Parses an `eip155:<chainId>:<address>` CAIP-10 account id. Returns `undefined` for other
+ * namespaces, malformed ids and mixed-case addresses with a bad checksum.
+ */
+export function parseCaip10(value: string): Caip10Account | undefined {
+  const match = CAIP10_EIP155.exec(value);
+  if (!match || !isAddress(match[2])) {
+    return undefined;
+  }
+  return { chainId: Number(match[1]), address: getAddress(match[2]) };
+}
+
+/** `agentRegistry` value for an identity registry, e.g. `eip155:1:0x...` */
+export function formatAgentRegistry(chainId: number, identityRegistry: Address): string {
+  return `eip155:${chainId}:${getAddress(identityRegistry)}`;
+}
+
+/**
+ * Validates a parsed registration file against `REGISTRATION_FILE_SCHEMA` and the spec's
+ * semantic rules. With a `context`, `registrations` must also list that token.
+ */
+export function validateRegistrationFile(file: unknown, context?: RegistrationContext): RegistrationValidation {
+  const errors: RegistrationIssue[] = [];
+  const warnings: RegistrationIssue[] = [];
+  checkSchema(REGISTRATION_FILE_SCHEMA, file, "", errors);
+
+  // Semantic checks only run on the parts that are structurally sound
+  const document = isObject(file) ? file : {};
+  const endpoints = Array.isArray(document.endpoints) ? document.endpoints : [];
+  for (const [index, entry] of endpoints.entries()) {
+    if (!isObject(entry) || typeof entry.name !== "string" || typeof entry.endpoint !== "string") continue;
+    const path = `/endpoints/${index}/endpoint`;
+    const message = checkEndpoint(entry.name, entry.endpoint);
+    if (message) errors.push({ path, message });
+  }
+
+  const registrations = Array.isArray(document.registrations) ? document.registrations : [];
+  const seen = new Map<string, unknown>();
+  for (const [index, entry] of registrations.entries()) {
+    if (!isObject(entry) || typeof entry.agentRegistry !== "string") continue;
+    const path = `/registrations/${index}/agentRegistry`;
+    const account = parseCaip10(entry.agentRegistry);
+    if (!account) {
+      errors.push({ path, message: `"${entry.agentRegistry}" is not a valid eip155 CAIP-10 address` });
+      continue;
+    }
+    const registry = formatAgentRegistry(account.chainId, account.address);
+    if (seen.has(registry)) {
+      const message = seen.get(registry) === entry.agentId ? "Duplicate registration" : "Several agentIds registered";
+      errors.push({ path, message: `${message} in ${registry}` });
+    }
+    seen.set(registry, entry.agentId);
+  }
+
+  if (context) {
+    const registry = formatAgentRegistry(context.chainId, context.identityRegistry);
+    const index = registrations.findIndex((entry) => {
+      const account = isObject(entry) && typeof entry.agentRegistry === "string" ? parseCaip10(entry.agentRegistry) : undefined;
+      return account?.chainId === context.chainId && isAddressEqual(account.address, context.identityRegistry);
+    });
+    const agentId = index < 0 ? undefined : (registrations[index] as Record<string, unknown>).agentId;
+    if (index < 0) {
+      errors.push({ path: "/registrations", message: `No registration for ${registry}` });
+    } else if (!Number.isSafeInteger(agentId) || BigInt(agentId as number) !== context.agentId) {
+      errors.push({
+        path: `/registrations/${index}/agentId`,
+        message: `Registered as agent ${String(agentId)} in ${registry}, token is agent ${context.agentId}`
+      });
+    }
+  }
+
+  const trust = Array.isArray(document.supportedTrust) ? document.supportedTrust : [];
+  for (const [index, model] of trust.entries()) {
+    if (typeof model === "string" && !(KNOWN_TRUST_MODELS as readonly string[]).includes(model)) {
+      warnings.push({ path: `/supportedTrust/${index}`, message: `Unknown trust model "${model}"` });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Loads the JSON document behind a `tokenURI` (see `TokenUriResolver` for the supported schemes).
+ */
+export async function fetchRegistrationFile(uri: string, options: FetchRegistrationOptions = {}): Promise<unknown> {
+  return (options.resolver ?? new TokenUriResolver(options)).resolveJson(uri);
+}
+
+/**
+ * Resolves `tokenURI(agentId)` and validates the file it points at against the token itself.
+ * If the agent committed a `uriHash`, the fetched bytes must match it. Resolution failures and
+ * hash mismatches are reported as errors on the whole document.
+ */
+export async function validateAgentRegistration(
+  identity: IdentityClient,
+  agentId: bigint,
+  options: FetchRegistrationOptions = {}
+): Promise<RegistrationValidation & { tokenUri: string }> {
+  const [tokenUri, uriHash, chainId] = await Promise.all([
+    identity.getAgentUri(agentId),
+    identity.getUriHash(agentId),
+    identity.publicClient.getChainId()
+  ]);
+  if (tokenUri === "") {
+    return { tokenUri, valid: false, errors: [{ path: "", message: `Agent ${agentId} has no tokenURI` }], warnings: [] };
+  }
+
+  let file: unknown;
+  try {
+    file = await (options.resolver ?? new TokenUriResolver(options)).resolveJson(tokenUri, uriHash);
+  } catch (error) {
+    return { tokenUri, valid: false, errors: [{ path: "", message: (error as Error).message }], warnings: [] };
+  }
+  return { tokenUri, ...validateRegistrationFile(file, { agentId, chainId, identityRegistry: identity.address }) };
+}
+
+function checkEndpoint(name: string, endpoint: string): string | undefined {
+  if (endpoint.startsWith("eip155:") || name === "agentWallet") {
+    return parseCaip10(endpoint) ? undefined : `"${endpoint}" is not a valid eip155 CAIP-10 address`;
+  }
+  if (name === "A2A" || name === "MCP") {
+    return /^https?:\/\/[^\s/]+/.test(endpoint) ? undefined : `${name} endpoint must be an http(s) URL`;
+  }
+  if (name === "DID") {
+    return /^did:[a-z0-9]+:\S+$/.test(endpoint) ? undefined : `"${endpoint}" is not a DID`;
+  }
+  return undefined;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  object: "an object",
+  array: "an array",
+  string: "a string",
+  integer: "an integer"
+};
+
+/** The subset of JSON Schema keywords `REGISTRATION_FILE_SCHEMA` uses */
+interface SchemaNode {
+  type?: string;
+  const?: unknown;
+  required?: readonly string[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean;
+  items?: SchemaNode;
+  minItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+}
+
+function checkSchema(schema: SchemaNode, value: unknown, path: string, errors: RegistrationIssue[]): void {
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ path, message: `Must be "${String(schema.const)}"` });
+    return;
+  }
+  if (schema.type && !hasType(value, schema.type)) {
+    errors.push({ path, message: `Must be ${TYPE_NAMES[schema.type] ?? schema.type}` });
+    return;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: "Must not be empty" });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `Must match ${schema.pattern}` });
+    }
+  }
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `Must be at least ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `Must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}` });
+    }
+    if (schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+      errors.push({ path, message: "Must not contain duplicates" });
+    }
+    if (schema.items) {
+      for (const [index, item] of value.entries()) {
+        checkSchema(schema.items, item, `${path}/${index}`, errors);
+      }
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        errors.push({ path: `${path}/${key}`, message: "Is required" });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        checkSchema(property, item, `${path}/${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}/${key}`, message: "Is not allowed" });
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object":
+      return isObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isSafeInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,169 @@
+import { getAddress } from "viem";
+
+import type { ScoringFeedback, WeightRule } from "./rules.js";
+
+export interface ScoringOptions {
+  /** Weighting factors, applied in order and multiplied (default none: every entry weighs 1) */
+  rules?: WeightRule[];
+  /**
+   * Most total weight one client can contribute to an agent's score. A client above it has
+   * all its entries scaled down proportionally, so spamming feedback buys no extra influence.
+   */
+  maxWeightPerClient?: number;
+  /** Count entries that an amendment replaced (default false: only the latest version counts) */
+  includeSuperseded?: boolean;
+  /** Leave out entries the agent disputes (default false) */
+  excludeDisputed?: boolean;
+}
+
+export interface WeightFactor {
+  /** Rule name, or `maxWeightPerClient` for the cap */
+  rule: string;
+  factor: number;
+}
+
+export interface ScoredFeedback {
+  entry: ScoringFeedback;
+  /** 0 for entries that do not count */
+  weight: number;
+  factors: WeightFactor[];
+  /** Set when the entry does not count: it was revoked, superseded or disputed, or a factor was 0 */
+  excluded?: "revoked" | "superseded" | "disputed" | "zeroWeight";
+}
+
+export interface AgentScore {
+  agentId: bigint;
+  /** Weighted mean of the counted scores (0-100); `undefined` when nothing counts */
+  score?: number;
+  totalWeight: number;
+  /** Entries with a positive weight */
+  counted: number;
+  /** Distinct clients among the counted entries */
+  clients: number;
+  /** Every input entry, in block order, with how its weight came about */
+  entries: ScoredFeedback[];
+}
+
+/**
+ * Scores every agent in `feedback`, ordered by agentId. Revoked entries never count, and
+ * superseded and disputed ones depend on `options`; the rest are weighed by `options.rules`,
+ * capped per client and averaged. The result is a pure
+ * function of the input, independent of its order.
+ */
+export function scoreAgents(feedback: Iterable<ScoringFeedback>, options: ScoringOptions = {}): AgentScore[] {
+  const byAgent = new Map<bigint, ScoringFeedback[]>();
+  for (const entry of feedback) {
+    const entries = byAgent.get(entry.agentId) ?? [];
+    entries.push(entry);
+    byAgent.set(entry.agentId, entries);
+  }
+  return [...byAgent.keys()]
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    .map((agentId) => scoreAgent(agentId, byAgent.get(agentId)!, options));
+}
+
+/** Scores one agent from its feedback; entries for other agents are ignored */
+export function scoreAgent(
+  agentId: bigint,
+  feedback: Iterable<ScoringFeedback>,
+  options: ScoringOptions = {}
+): AgentScore {
+  const { rules = [], maxWeightPerClient, includeSuperseded = false, excludeDisputed = false } = options;
+  if (maxWeightPerClient !== undefined && !(maxWeightPerClient > 0)) {
+    throw new Error("maxWeightPerClient must be positive");
+  }
+
+  const entries: ScoredFeedback[] = [...feedback]
+    .filter((entry) => entry.agentId === agentId)
+    .sort(compareFeedback)
+    .map((entry) => {
+      const excluded = entry.isRevoked
+        ? "revoked"
+        : entry.supersededBy !== 0n && !includeSuperseded
+          ? "superseded"
+          : entry.isDisputed && excludeDisputed
+            ? "disputed"
+            : undefined;
+      if (excluded) {
+        return { entry, weight: 0, factors: [], excluded };
+      }
+      const factors = rules.map((rule) => ({ rule: rule.name, factor: checkFactor(rule, rule.weigh(entry)) }));
+      return { entry, weight: factors.reduce((weight, { factor }) => weight * factor, 1), factors };
+    });
+
+  if (maxWeightPerClient !== undefined) {
+    const perClient = new Map<string, number>();
+    for (const { entry, weight } of entries) {
+      const client = getAddress(entry.clientAddress);
+      perClient.set(client, (perClient.get(client) ?? 0) + weight);
+    }
+    for (const scored of entries) {
+      const total = perClient.get(getAddress(scored.entry.clientAddress))!;
+      if (total > maxWeightPerClient && scored.weight > 0) {
+        const factor = maxWeightPerClient / total;
+        scored.factors.push({ rule: "maxWeightPerClient", factor });
+        scored.weight *= factor;
+      }
+    }
+  }
+
+  let totalWeight = 0;
+  let weightedSum = 0;
+  const clients = new Set<string>();
+  for (const scored of entries) {
+    if (scored.excluded) continue;
+    if (scored.weight === 0) {
+      scored.excluded = "zeroWeight";
+      continue;
+    }
+    totalWeight += scored.weight;
+    weightedSum += scored.weight * scored.entry.score;
+    clients.add(getAddress(scored.entry.clientAddress));
+  }
+
+  return {
+    agentId,
+    score: totalWeight > 0 ? weightedSum / totalWeight : undefined,
+    totalWeight,
+    counted: entries.filter((scored) => !scored.excluded).length,
+    clients: clients.size,
+    entries
+  };
+}
+
+/**
+ * Renders a score as text: the result, then one line per entry with its weight and the
+ * factors behind it.
+ */
+export function explainScore(result: AgentScore): string {
+  const summary =
+    result.score === undefined
+      ? `Agent ${result.agentId}: no score, none of ${result.entries.length} feedback entries count`
+      : `Agent ${result.agentId}: ${result.score.toFixed(2)} from ${result.counted} of ${result.entries.length} ` +
+        `feedback entries by ${result.clients} client(s), total weight ${format(result.totalWeight)}`;
+  const lines = result.entries.map(({ entry, weight, factors, excluded }) => {
+    const id = `${getAddress(entry.clientAddress)}#${entry.feedbackIndex} score ${entry.score}`;
+    if (excluded && excluded !== "zeroWeight") return `  ${id}: ${excluded}`;
+    const detail = factors.map(({ rule, factor }) => `${rule} ${format(factor)}`).join(", ");
+    return `  ${id}: weight ${format(weight)}${detail ? ` (${detail})` : ""}`;
+  });
+  return [summary, ...lines].join("\n");
+}
+
+function checkFactor(rule: WeightRule, factor: number): number {
+  if (!Number.isFinite(factor) || factor < 0) {
+    throw new Error(`Rule ${rule.name} returned ${factor}, expected a non-negative number`);
+  }
+  return factor;
+}
+
+function compareFeedback(a: ScoringFeedback, b: ScoringFeedback): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  const [clientA, clientB] = [a.clientAddress.toLowerCase(), b.clientAddress.toLowerCase()];
+  if (clientA !== clientB) return clientA < clientB ? -1 : 1;
+  return a.feedbackIndex < b.feedbackIndex ? -1 : a.feedbackIndex > b.feedbackIndex ? 1 : 0;
+}
+
+function format(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
@@ -0,0 +1,113 @@
+import { type Address, type Hash, type Hex, getAddress } from "viem";
+
+import type { IndexedFeedback } from "../indexer/index.js";
+
+/** What the engine needs from a feedback row; `IndexerStore.getFeedback` rows qualify */
+export type ScoringFeedback = Pick<
+  IndexedFeedback,
+  | "agentId"
+  | "clientAddress"
+  | "feedbackIndex"
+  | "score"
+  | "tag1"
+  | "tag2"
+  | "isRevoked"
+  | "supersededBy"
+  | "isDisputed"
+  | "blockNumber"
+>;
+
+/**
+ * One weighting factor. `weigh` returns a non-negative multiplier for an entry: 1 leaves it
+ * alone, 0 drops it. An entry's weight is the product of every rule's factor.
+ */
+export interface WeightRule {
+  /** Shown in score explanations */
+  name: string;
+  weigh(entry: ScoringFeedback): number;
+}
+
+/** `<agentId>:<client>:<feedbackIndex>`, the registry's identity for a feedback */
+export function feedbackKey(entry: Pick<ScoringFeedback, "agentId" | "clientAddress" | "feedbackIndex">): string {
+  return `${entry.agentId}:${getAddress(entry.clientAddress)}:${entry.feedbackIndex}`;
+}
+
+/**
+ * Weighs feedback by who gave it. Clients missing from `weights` get `defaultWeight`
+ * (0 by default, so only listed clients count).
+ */
+export function clientTrust(weights: Record<Address, number>, defaultWeight = 0): WeightRule {
+  const byClient = new Map(Object.entries(weights).map(([client, weight]) => [getAddress(client), weight]));
+  return {
+    name: "clientTrust",
+    weigh: (entry) => byClient.get(getAddress(entry.clientAddress)) ?? defaultWeight
+  };
+}
+
+/** A trust list: listed clients count fully, everyone else counts `otherWeight` (default 0) */
+export function trustedClients(clients: Address[], otherWeight = 0): WeightRule {
+  return { ...clientTrust(Object.fromEntries(clients.map((client) => [client, 1])), otherWeight), name: "trustedClients" };
+}
+
+/** A feedback entry and the payment `verifyFeedbackPayment` matched it with */
+export interface BackedFeedback {
+  /** `feedbackKey` of the entry */
+  key: string;
+  txHash: Hash;
+}
+
+/**
+ * Favors feedback backed by a verified payment (see `verifyFeedbackPayment`); the rest count
+ * `unbackedWeight` (default 0). A payment backs one entry only: when several entries name the
+ * same `txHash`, the one with the lowest key (agentId, then client, then feedbackIndex) keeps
+ * it, whatever the order of `backed`.
+ */
+export function paymentBacked(backed: Iterable<BackedFeedback>, unbackedWeight = 0): WeightRule {
+  const owners = new Map<string, string>();
+  for (const { key, txHash } of backed) {
+    const owner = owners.get(txHash.toLowerCase());
+    if (owner === undefined || compareFeedbackKeys(key, owner) < 0) {
+      owners.set(txHash.toLowerCase(), key);
+    }
+  }
+  const keys = new Set(owners.values());
+  return {
+    name: "paymentBacked",
+    weigh: (entry) => (keys.has(feedbackKey(entry)) ? 1 : unbackedWeight)
+  };
+}
+
+/** Halves an entry's weight every `halfLifeBlocks` blocks before `currentBlock` */
+export function recencyDecay(options: { currentBlock: bigint; halfLifeBlocks: bigint }): WeightRule {
+  if (options.halfLifeBlocks <= 0n) {
+    throw new Error("halfLifeBlocks must be positive");
+  }
+  return {
+    name: "recencyDecay",
+    weigh: (entry) => {
+      const age = options.currentBlock > entry.blockNumber ? options.currentBlock - entry.blockNumber : 0n;
+      return 0.5 ** (Number(age) / Number(options.halfLifeBlocks));
+    }
+  };
+}
+
+/** Keeps feedback carrying these tags, like the registry's `getSummary`; bytes32(0) matches any */
+export function tagFilter(tags: { tag1?: Hex; tag2?: Hex }): WeightRule {
+  const matches = (wanted: Hex | undefined, actual: Hex) =>
+    wanted === undefined || /^0x0{64}$/.test(wanted) || wanted.toLowerCase() === actual.toLowerCase();
+  return {
+    name: "tagFilter",
+    weigh: (entry) => (matches(tags.tag1, entry.tag1) && matches(tags.tag2, entry.tag2) ? 1 : 0)
+  };
+}
+
+function compareFeedbackKeys(a: string, b: string): number {
+  const [agentA, clientA, indexA] = a.split(":");
+  const [agentB, clientB, indexB] = b.split(":");
+  const order = (x: bigint | string, y: bigint | string) => (x < y ? -1 : x > y ? 1 : 0);
+  return (
+    order(BigInt(agentA), BigInt(agentB)) ||
+    order(clientA.toLowerCase(), clientB.toLowerCase()) ||
+    order(BigInt(indexA), BigInt(indexB))
+  );
+}
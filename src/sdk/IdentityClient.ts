@@ -0,0 +1,184 @@
+import { type Address, type Hex, type TransactionReceipt, isAddressEqual } from "viem";
+
+import { identityRegistryAbi } from "./abis.js";
+import { RegistryClient } from "./RegistryClient.js";
+import type {
+  MetadataEntry,
+  MetadataSetEvent,
+  RegistrationResult,
+  UriHashCommittedEvent,
+  UriUpdateResult,
+  WriteResult
+} from "./types.js";
+
+/**
+ * Typed wrapper around IdentityRegistry / IdentityRegistryUpgradeable.
+ */
+export class IdentityClient extends RegistryClient<typeof identityRegistryAbi> {
+  readonly abi = identityRegistryAbi;
+
+  /**
+   * Registers a new agent owned by the wallet account. Picks the `register` overload
+   * matching the arguments, like the contract does. `uriHash` commits the keccak256 of the
+   * bytes `tokenUri` serves, so readers can tell if the document changes behind it.
+   */
+  async register(tokenUri?: string, metadata?: MetadataEntry[], uriHash?: Hex): Promise<RegistrationResult> {
+    const { account, chain } = this.wallet;
+    const base = { address: this.address, abi: this.abi, functionName: "register", account, chain } as const;
+
+    let hash: Hex;
+    if (uriHash !== undefined) {
+      if (tokenUri === undefined) {
+        throw new Error("A uriHash needs a tokenUri to commit to");
+      }
+      hash = await this.wallet.writeContract(
+        metadata !== undefined && metadata.length > 0
+          ? { ...base, args: [tokenUri, metadata, uriHash] }
+          : { ...base, args: [tokenUri, uriHash] }
+      );
+    } else if (metadata !== undefined && metadata.length > 0) {
+      hash = await this.wallet.writeContract({ ...base, args: [tokenUri ?? "", metadata] });
+    } else if (tokenUri !== undefined) {
+      hash = await this.wallet.writeContract({ ...base, args: [tokenUri] });
+    } else {
+      hash = await this.wallet.writeContract({ ...base, args: [] });
+    }
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "Registered");
+    return {
+      hash,
+      receipt,
+      agentId: args.agentId,
+      event: { agentId: args.agentId, tokenUri: args.tokenURI, owner: args.owner },
+      metadata: this.events(receipt, "MetadataSet").map(({ args }) => ({
+        agentId: args.agentId,
+        key: args.key,
+        value: args.value
+      })),
+      uriHash: this.uriHashCommitted(receipt)
+    };
+  }
+
+  async setMetadata(agentId: bigint, key: string, value: Hex): Promise<WriteResult<MetadataSetEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "setMetadata",
+      args: [agentId, key, value],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "MetadataSet");
+    return { hash, receipt, event: { agentId: args.agentId, key: args.key, value: args.value } };
+  }
+
+  /**
+   * Points the agent at `newUri`. With `uriHash` the hash is committed alongside it; without
+   * one, any hash committed for the previous URI is cleared.
+   */
+  async setAgentUri(agentId: bigint, newUri: string, uriHash?: Hex): Promise<UriUpdateResult> {
+    const { account, chain } = this.wallet;
+    const base = { address: this.address, abi: this.abi, functionName: "setAgentUri", account, chain } as const;
+    const hash = await this.wallet.writeContract(
+      uriHash !== undefined ? { ...base, args: [agentId, newUri, uriHash] } : { ...base, args: [agentId, newUri] }
+    );
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "UriUpdated");
+    return {
+      hash,
+      receipt,
+      event: { agentId: args.agentId, newUri: args.newUri, updatedBy: args.updatedBy },
+      uriHash: this.uriHashCommitted(receipt)
+    };
+  }
+
+  async getAgentUri(agentId: bigint): Promise<string> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "tokenURI",
+      args: [agentId]
+    });
+  }
+
+  /** The committed keccak256 of the agent's tokenURI document, bytes32(0) if none */
+  async getUriHash(agentId: bigint): Promise<Hex> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getUriHash",
+      args: [agentId]
+    });
+  }
+
+  async getMetadata(agentId: bigint, key: string): Promise<Hex> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getMetadata",
+      args: [agentId, key]
+    });
+  }
+
+  async ownerOf(agentId: bigint): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "ownerOf",
+      args: [agentId]
+    });
+  }
+
+  async balanceOf(owner: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "balanceOf",
+      args: [owner]
+    });
+  }
+
+  async getApproved(agentId: bigint): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getApproved",
+      args: [agentId]
+    });
+  }
+
+  async isApprovedForAll(owner: Address, operator: Address): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "isApprovedForAll",
+      args: [owner, operator]
+    });
+  }
+
+  /**
+   * Mirrors the registries' owner-or-operator check: true if `account` owns the agent,
+   * is approved for all of the owner's agents, or is approved for this agent.
+   */
+  async isAuthorized(agentId: bigint, account: Address): Promise<boolean> {
+    const owner = await this.ownerOf(agentId);
+    if (isAddressEqual(owner, account)) {
+      return true;
+    }
+    const [approvedForAll, approved] = await Promise.all([
+      this.isApprovedForAll(owner, account),
+      this.getApproved(agentId)
+    ]);
+    return approvedForAll || isAddressEqual(approved, account);
+  }
+
+  private uriHashCommitted(receipt: TransactionReceipt): UriHashCommittedEvent | undefined {
+    const [log] = this.events(receipt, "UriHashCommitted");
+    return log && { agentId: log.args.agentId, uri: log.args.uri, uriHash: log.args.uriHash };
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  type Abi,
+  type Account,
+  type Address,
+  type ContractEventName,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+  isAddressEqual,
+  parseEventLogs
+} from "viem";
+
+import { upgradeableRegistryAbi } from "./abis.js";
+import type { RegistryClientConfig } from "./types.js";
+
+export const ZERO_BYTES32 =
+  "0x0000000000000000000000000000000000000000000000000000000000000000" as const;
+
+/**
+ * Shared plumbing for the three registry clients: wallet access, receipt handling and
+ * event decoding scoped to the registry address.
+ */
+export abstract class RegistryClient<TAbi extends Abi> {
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+
+  abstract readonly abi: TAbi;
+
+  constructor(config: RegistryClientConfig) {
+    this.address = config.address;
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+  }
+
+  /**
+   * Implementation version reported by `getVersion()`, or `undefined` for the plain
+   * (non-upgradeable) registries which do not expose it.
+   */
+  async getVersion(): Promise<string | undefined> {
+    try {
+      return await this.publicClient.readContract({
+        address: this.address,
+        abi: upgradeableRegistryAbi,
+        functionName: "getVersion"
+      });
+    } catch {
+      return undefined;
+    }
+  }
+
+  protected get wallet(): WalletClient & { account: Account } {
+    if (this.walletClient === undefined || this.walletClient.account === undefined) {
+      throw new Error("A walletClient with an account is required for write calls");
+    }
+    return this.walletClient as WalletClient & { account: Account };
+  }
+
+  /**
+   * Waits for the transaction and throws if it reverted.
+   */
+  protected async confirm(hash: Hash): Promise<TransactionReceipt> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  /**
+   * Decodes the logs of `receipt` emitted by this registry for the given event.
+   */
+  protected events<TEventName extends ContractEventName<TAbi>>(
+    receipt: TransactionReceipt,
+    eventName: TEventName
+  ) {
+    return parseEventLogs({
+      abi: this.abi,
+      eventName,
+      logs: receipt.logs.filter((log) => isAddressEqual(log.address, this.address))
+    });
+  }
+
+  /**
+   * Like {@link events} but expects exactly one matching log.
+   */
+  protected event<TEventName extends ContractEventName<TAbi>>(
+    receipt: TransactionReceipt,
+    eventName: TEventName
+  ) {
+    const [log] = this.events(receipt, eventName);
+    if (log === undefined) {
+      throw new Error(`${String(eventName)} event not found in ${receipt.transactionHash}`);
+    }
+    return log;
+  }
+}
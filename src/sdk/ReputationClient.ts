@@ -0,0 +1,770 @@
+import { type Address, type Hex, type TransactionReceipt, isAddressEqual, recoverAddress } from "viem";
+
+import { erc1271Abi, identityRegistryAbi, reputationRegistryAbi } from "./abis.js";
+import {
+  type FeedbackAuth,
+  type FeedbackAuthCheck,
+  type FeedbackAuthScheme,
+  type FeedbackAuthSigner,
+  type SignedFeedbackAuth,
+  buildFeedbackAuth,
+  decodeFeedbackAuth,
+  encodeFeedbackAuth,
+  getFeedbackAuthDigest,
+  getFeedbackAuthTypedDataDigest,
+  getSignerAddress,
+  signFeedbackAuth,
+  validateFeedbackAuth
+} from "./feedbackAuth.js";
+import { RegistryClient, ZERO_BYTES32 } from "./RegistryClient.js";
+import type {
+  AmendFeedbackParams,
+  AmendFeedbackResult,
+  ClientsPage,
+  Feedback,
+  FeedbackAmendment,
+  FeedbackDisputeWithdrawnEvent,
+  FeedbackDisputedEvent,
+  FeedbackCursor,
+  FeedbackEntry,
+  FeedbackFilter,
+  FeedbackPage,
+  FeedbackRevokedEvent,
+  FeedbackSummary,
+  FeedbackWindow,
+  GiveFeedbackParams,
+  NewFeedbackEvent,
+  PagedFeedbackEntry,
+  PaginationOptions,
+  ResponseAppendedEvent,
+  ScoreTotals,
+  SummaryFilter,
+  WriteResult
+} from "./types.js";
+
+const DEFAULT_PAGE_SIZE = 500n;
+
+const FIRST_FEEDBACK: FeedbackCursor = { clientOffset: 0n, feedbackIndex: 1n };
+
+/**
+ * Typed wrapper around ReputationRegistry / ReputationRegistryUpgradeable.
+ */
+export class ReputationClient extends RegistryClient<typeof reputationRegistryAbi> {
+  readonly abi = reputationRegistryAbi;
+
+  /**
+   * Submits feedback as the wallet account. The returned event carries the 1-based
+   * feedback index assigned by the registry.
+   */
+  async giveFeedback(params: GiveFeedbackParams): Promise<WriteResult<NewFeedbackEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "giveFeedback",
+      args: [
+        params.agentId,
+        params.score,
+        params.tag1 ?? ZERO_BYTES32,
+        params.tag2 ?? ZERO_BYTES32,
+        params.feedbackUri ?? "",
+        params.feedbackHash ?? ZERO_BYTES32,
+        params.feedbackAuth
+      ],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args, logIndex } = this.event(receipt, "NewFeedback");
+    const feedbackIndex = await this.feedbackIndexOf(receipt, args.agentId, args.clientAddress, logIndex);
+    return {
+      hash,
+      receipt,
+      event: {
+        agentId: args.agentId,
+        clientAddress: args.clientAddress,
+        feedbackIndex,
+        score: args.score,
+        tag1: args.tag1,
+        tag2: args.tag2,
+        feedbackUri: args.feedbackUri,
+        feedbackHash: args.feedbackHash
+      }
+    };
+  }
+
+  async revokeFeedback(agentId: bigint, feedbackIndex: bigint): Promise<WriteResult<FeedbackRevokedEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "revokeFeedback",
+      args: [agentId, feedbackIndex],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "FeedbackRevoked");
+    return {
+      hash,
+      receipt,
+      event: { agentId: args.agentId, clientAddress: args.clientAddress, feedbackIndex: args.feedbackIndex }
+    };
+  }
+
+  /**
+   * Replaces one of the wallet account's entries with a corrected version at the next index.
+   * The old entry stays readable but no longer counts in summaries or `readAllFeedback`.
+   */
+  async amendFeedback(params: AmendFeedbackParams): Promise<AmendFeedbackResult> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "amendFeedback",
+      args: [
+        params.agentId,
+        params.feedbackIndex,
+        params.score,
+        params.tag1 ?? ZERO_BYTES32,
+        params.tag2 ?? ZERO_BYTES32,
+        params.feedbackUri ?? "",
+        params.feedbackHash ?? ZERO_BYTES32,
+        params.feedbackAuth
+      ],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "FeedbackAmended");
+    const { args: feedback } = this.event(receipt, "NewFeedback");
+    return {
+      hash,
+      receipt,
+      event: {
+        agentId: args.agentId,
+        clientAddress: args.clientAddress,
+        previousIndex: args.previousIndex,
+        newIndex: args.newIndex
+      },
+      feedback: {
+        agentId: feedback.agentId,
+        clientAddress: feedback.clientAddress,
+        feedbackIndex: args.newIndex,
+        score: feedback.score,
+        tag1: feedback.tag1,
+        tag2: feedback.tag2,
+        feedbackUri: feedback.feedbackUri,
+        feedbackHash: feedback.feedbackHash
+      }
+    };
+  }
+
+  /**
+   * Flags an entry as contested by the agent, as its owner or an operator. Publish the
+   * reason at `reasonUri`; `reasonHash` commits to it (bytes32(0) when omitted).
+   */
+  async disputeFeedback(
+    agentId: bigint,
+    clientAddress: Address,
+    feedbackIndex: bigint,
+    reasonUri: string,
+    reasonHash: Hex = ZERO_BYTES32
+  ): Promise<WriteResult<FeedbackDisputedEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "disputeFeedback",
+      args: [agentId, clientAddress, feedbackIndex, reasonUri, reasonHash],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "FeedbackDisputed");
+    return {
+      hash,
+      receipt,
+      event: {
+        agentId: args.agentId,
+        clientAddress: args.clientAddress,
+        feedbackIndex: args.feedbackIndex,
+        disputer: args.disputer,
+        reasonUri: args.reasonUri,
+        reasonHash: args.reasonHash
+      }
+    };
+  }
+
+  async withdrawDispute(
+    agentId: bigint,
+    clientAddress: Address,
+    feedbackIndex: bigint
+  ): Promise<WriteResult<FeedbackDisputeWithdrawnEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "withdrawDispute",
+      args: [agentId, clientAddress, feedbackIndex],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "FeedbackDisputeWithdrawn");
+    return {
+      hash,
+      receipt,
+      event: {
+        agentId: args.agentId,
+        clientAddress: args.clientAddress,
+        feedbackIndex: args.feedbackIndex,
+        withdrawnBy: args.withdrawnBy
+      }
+    };
+  }
+
+  async appendResponse(
+    agentId: bigint,
+    clientAddress: Address,
+    feedbackIndex: bigint,
+    responseUri: string,
+    responseHash: Hex = ZERO_BYTES32
+  ): Promise<WriteResult<ResponseAppendedEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "appendResponse",
+      args: [agentId, clientAddress, feedbackIndex, responseUri, responseHash],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "ResponseAppended");
+    return {
+      hash,
+      receipt,
+      event: {
+        agentId: args.agentId,
+        clientAddress: args.clientAddress,
+        feedbackIndex: args.feedbackIndex,
+        responder: args.responder,
+        responseUri: args.responseUri,
+        responseHash: args.responseHash
+      }
+    };
+  }
+
+  /**
+   * Issues a signed FeedbackAuth for `clientAddress`, filling chainId and identity registry
+   * from the chain. `indexLimit` defaults to allowing exactly one more feedback; `scheme`
+   * defaults to the legacy EIP-191 signature.
+   */
+  async createFeedbackAuth(
+    params: Pick<FeedbackAuth, "agentId" | "clientAddress"> &
+      Partial<Pick<FeedbackAuth, "indexLimit" | "expiry" | "signerAddress">> & { ttlSeconds?: number },
+    signer: FeedbackAuthSigner,
+    scheme: FeedbackAuthScheme = "eip191"
+  ): Promise<Hex> {
+    const [chainId, identityRegistry, lastIndex] = await Promise.all([
+      this.publicClient.getChainId(),
+      this.getIdentityRegistry(),
+      params.indexLimit === undefined ? this.getLastIndex(params.agentId, params.clientAddress) : 0n
+    ]);
+    const auth = buildFeedbackAuth({
+      ...params,
+      indexLimit: params.indexLimit ?? lastIndex + 1n,
+      chainId: BigInt(chainId),
+      identityRegistry,
+      signerAddress: params.signerAddress ?? getSignerAddress(signer)
+    });
+    return encodeFeedbackAuth(await signFeedbackAuth(auth, signer, { scheme, reputationRegistry: this.address }));
+  }
+
+  /**
+   * Runs every check `giveFeedback` applies to a FeedbackAuth against current chain state,
+   * without sending a transaction. `clientAddress` defaults to the auth's own client.
+   */
+  async checkFeedbackAuth(feedbackAuth: Hex | SignedFeedbackAuth, clientAddress?: Address): Promise<FeedbackAuthCheck> {
+    let auth: SignedFeedbackAuth;
+    try {
+      auth = typeof feedbackAuth === "string" ? decodeFeedbackAuth(feedbackAuth) : feedbackAuth;
+    } catch (e) {
+      throw new Error(`Cannot decode feedbackAuth: ${(e as Error).message}`);
+    }
+    const client = clientAddress ?? auth.clientAddress;
+
+    const [chainId, identityRegistry, lastIndex, block] = await Promise.all([
+      this.publicClient.getChainId(),
+      this.getIdentityRegistry(),
+      this.getLastIndex(auth.agentId, client),
+      this.publicClient.getBlock()
+    ]);
+    const errors = validateFeedbackAuth(auth, {
+      clientAddress: client,
+      chainId: BigInt(chainId),
+      identityRegistry,
+      lastIndex,
+      now: block.timestamp
+    });
+    errors.push(...(await this.checkFeedbackAuthSigner(auth, identityRegistry)));
+
+    return { auth, valid: errors.length === 0, errors };
+  }
+
+  async getIdentityRegistry(): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getIdentityRegistry"
+    });
+  }
+
+  async getLastIndex(agentId: bigint, clientAddress: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getLastIndex",
+      args: [agentId, clientAddress]
+    });
+  }
+
+  async readFeedback(agentId: bigint, clientAddress: Address, index: bigint): Promise<Feedback> {
+    const [score, tag1, tag2, isRevoked, isDisputed] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "readFeedback",
+      args: [agentId, clientAddress, index]
+    });
+    return { score, tag1, tag2, isRevoked, isDisputed };
+  }
+
+  async getFeedbackAmendment(agentId: bigint, clientAddress: Address, index: bigint): Promise<FeedbackAmendment> {
+    const [previousIndex, supersededBy] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getFeedbackAmendment",
+      args: [agentId, clientAddress, index]
+    });
+    return { previousIndex, supersededBy };
+  }
+
+  /**
+   * Walks an entry's amendments back to the original feedback: `[original, ..., index]`.
+   */
+  async getFeedbackHistory(agentId: bigint, clientAddress: Address, index: bigint): Promise<bigint[]> {
+    const history = [index];
+    let { previousIndex } = await this.getFeedbackAmendment(agentId, clientAddress, index);
+    while (previousIndex !== 0n) {
+      history.unshift(previousIndex);
+      ({ previousIndex } = await this.getFeedbackAmendment(agentId, clientAddress, previousIndex));
+    }
+    return history;
+  }
+
+  /** When the feedback was given (block timestamp, seconds); 0n for feedback from before timestamps were recorded */
+  async getFeedbackTimestamp(agentId: bigint, clientAddress: Address, index: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getFeedbackTimestamp",
+      args: [agentId, clientAddress, index]
+    });
+  }
+
+  /** With `excludeDisputed` this calls the registry's five-argument overload */
+  async getSummary(agentId: bigint, filter: SummaryFilter = {}): Promise<FeedbackSummary> {
+    const contract = { address: this.address, abi: this.abi, functionName: "getSummary" } as const;
+    const args = summaryArgs(agentId, filter);
+    const [count, averageScore] = filter.excludeDisputed
+      ? await this.publicClient.readContract({ ...contract, args: [...args, true] })
+      : await this.publicClient.readContract({ ...contract, args });
+    return { count, averageScore };
+  }
+
+  /**
+   * The sums behind `getSummary`, for an exact mean (`getFixedPointMean`) or a confidence
+   * interval (`getScoreStatistics`).
+   */
+  async getSummaryTotals(agentId: bigint, filter: SummaryFilter = {}): Promise<ScoreTotals> {
+    const contract = { address: this.address, abi: this.abi, functionName: "getSummaryTotals" } as const;
+    const args = summaryArgs(agentId, filter);
+    const [count, total, squaresTotal] = filter.excludeDisputed
+      ? await this.publicClient.readContract({ ...contract, args: [...args, true] })
+      : await this.publicClient.readContract({ ...contract, args });
+    return { count, total, squaresTotal };
+  }
+
+  /**
+   * `getSummary` over feedback given within `window`, e.g. the last 30 days:
+   * `{ from: now - 30n * 86400n }`.
+   */
+  async getSummaryInWindow(
+    agentId: bigint,
+    window: FeedbackWindow,
+    filter: SummaryFilter = {}
+  ): Promise<FeedbackSummary> {
+    const [count, averageScore] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getSummaryInWindow",
+      args: [
+        agentId,
+        filter.clientAddresses ?? [],
+        filter.tag1 ?? ZERO_BYTES32,
+        filter.tag2 ?? ZERO_BYTES32,
+        window.from ?? 0n,
+        window.to ?? 0n,
+        filter.excludeDisputed ?? false
+      ]
+    });
+    return { count, averageScore };
+  }
+
+  /**
+   * `getSummary` with every score weighted by age: the weight halves each `halfLife` seconds.
+   */
+  async getDecayedSummary(agentId: bigint, halfLife: bigint, filter: SummaryFilter = {}): Promise<FeedbackSummary> {
+    if (halfLife < 1n) {
+      throw new Error("halfLife must be at least 1 second");
+    }
+    const [count, averageScore] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getDecayedSummary",
+      args: [...summaryArgs(agentId, filter), halfLife, filter.excludeDisputed ?? false]
+    });
+    return { count, averageScore };
+  }
+
+  async readAllFeedback(
+    agentId: bigint,
+    filter: FeedbackFilter = {},
+    includeRevoked = false
+  ): Promise<FeedbackEntry[]> {
+    const [clients, scores, tag1s, tag2s, revokedStatuses, disputedStatuses] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "readAllFeedback",
+      args: [
+        agentId,
+        filter.clientAddresses ?? [],
+        filter.tag1 ?? ZERO_BYTES32,
+        filter.tag2 ?? ZERO_BYTES32,
+        includeRevoked
+      ]
+    });
+    return clients.map((clientAddress, i) => ({
+      clientAddress,
+      score: scores[i],
+      tag1: tag1s[i],
+      tag2: tag2s[i],
+      isRevoked: revokedStatuses[i],
+      isDisputed: disputedStatuses[i]
+    }));
+  }
+
+  /**
+   * Same semantics as the contract: a zero `clientAddress` counts across all clients and a
+   * zero `feedbackIndex` across all of the client's feedback.
+   */
+  async getResponseCount(
+    agentId: bigint,
+    clientAddress: Address,
+    feedbackIndex: bigint,
+    responders: Address[] = []
+  ): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getResponseCount",
+      args: [agentId, clientAddress, feedbackIndex, responders]
+    });
+  }
+
+  async getClients(agentId: bigint): Promise<readonly Address[]> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getClients",
+      args: [agentId]
+    });
+  }
+
+  async getClientCount(agentId: bigint, blockNumber?: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getClientCount",
+      args: [agentId],
+      blockNumber
+    });
+  }
+
+  async getClientsPaginated(
+    agentId: bigint,
+    offset: bigint,
+    limit: bigint,
+    blockNumber?: bigint
+  ): Promise<ClientsPage> {
+    const [clients, total] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getClientsPaginated",
+      args: [agentId, offset, limit],
+      blockNumber
+    });
+    return { clients, total };
+  }
+
+  /**
+   * One bounded page of an agent's feedback in (client, index) order, revoked and amended
+   * entries included. Pass `page.next` to continue.
+   */
+  async readFeedbackPage(
+    agentId: bigint,
+    cursor: FeedbackCursor = FIRST_FEEDBACK,
+    limit = DEFAULT_PAGE_SIZE,
+    blockNumber?: bigint
+  ): Promise<FeedbackPage> {
+    const [
+      clients,
+      indexes,
+      scores,
+      tag1s,
+      tag2s,
+      revokedStatuses,
+      disputedStatuses,
+      supersededBy,
+      nextClientOffset,
+      nextIndex
+    ] = await this.publicClient.readContract({
+        address: this.address,
+        abi: this.abi,
+        functionName: "readFeedbackPage",
+        args: [agentId, cursor.clientOffset, cursor.feedbackIndex, limit],
+        blockNumber
+      });
+    return {
+      entries: clients.map((clientAddress, i) => ({
+        clientAddress,
+        feedbackIndex: indexes[i],
+        score: scores[i],
+        tag1: tag1s[i],
+        tag2: tag2s[i],
+        isRevoked: revokedStatuses[i],
+        isDisputed: disputedStatuses[i],
+        supersededBy: supersededBy[i]
+      })),
+      next: toCursor(nextClientOffset, nextIndex)
+    };
+  }
+
+  /**
+   * Streams every client of the agent, one `getClientsPaginated` call per page.
+   */
+  async *iterateClients(agentId: bigint, options: PaginationOptions = {}): AsyncGenerator<Address> {
+    const { pageSize, blockNumber } = await this.paginate(options);
+    for (let offset = 0n; ; offset += pageSize) {
+      const { clients, total } = await this.getClientsPaginated(agentId, offset, pageSize, blockNumber);
+      yield* clients;
+      if (offset + pageSize >= total) return;
+    }
+  }
+
+  /**
+   * Streams the same entries as `readAllFeedback` (plus their indexes) without its gas
+   * ceiling: pages are read with `readFeedbackPage` and filtered locally.
+   */
+  async *iterateFeedback(
+    agentId: bigint,
+    filter: FeedbackFilter = {},
+    includeRevoked = false,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<PagedFeedbackEntry> {
+    const { pageSize, blockNumber } = await this.paginate(options);
+    let cursor: FeedbackCursor | undefined = FIRST_FEEDBACK;
+    while (cursor !== undefined) {
+      const page = await this.readFeedbackPage(agentId, cursor, pageSize, blockNumber);
+      for (const entry of page.entries) {
+        if (entry.supersededBy !== 0n) continue;
+        if (!includeRevoked && entry.isRevoked) continue;
+        if (filter.tag1 !== undefined && filter.tag1 !== ZERO_BYTES32 && entry.tag1 !== filter.tag1) continue;
+        if (filter.tag2 !== undefined && filter.tag2 !== ZERO_BYTES32 && entry.tag2 !== filter.tag2) continue;
+        if (
+          filter.clientAddresses?.length &&
+          !filter.clientAddresses.some((client) => isAddressEqual(client, entry.clientAddress))
+        ) {
+          continue;
+        }
+        yield entry;
+      }
+      cursor = page.next;
+    }
+  }
+
+  /**
+   * `getSummary` over all clients computed from bounded `getSummaryPage` calls.
+   */
+  async getSummaryPaginated(
+    agentId: bigint,
+    filter: Pick<SummaryFilter, "tag1" | "tag2" | "excludeDisputed"> = {},
+    options: PaginationOptions = {}
+  ): Promise<FeedbackSummary> {
+    const { pageSize, blockNumber } = await this.paginate(options);
+    let count = 0n;
+    let scoreTotal = 0n;
+    let cursor: FeedbackCursor | undefined = FIRST_FEEDBACK;
+    while (cursor !== undefined) {
+      const [pageCount, pageTotal, nextClientOffset, nextIndex] = await this.publicClient.readContract({
+        address: this.address,
+        abi: this.abi,
+        functionName: "getSummaryPage",
+        args: [
+          agentId,
+          cursor.clientOffset,
+          cursor.feedbackIndex,
+          pageSize,
+          filter.tag1 ?? ZERO_BYTES32,
+          filter.tag2 ?? ZERO_BYTES32,
+          filter.excludeDisputed ?? false
+        ],
+        blockNumber
+      });
+      count += pageCount;
+      scoreTotal += pageTotal;
+      cursor = toCursor(nextClientOffset, nextIndex);
+    }
+    return { count, averageScore: count > 0n ? Number(scoreTotal / count) : 0 };
+  }
+
+  /**
+   * `getResponseCount(agentId, zeroAddress, 0n, responders)` computed from bounded pages.
+   */
+  async getResponseCountPaginated(
+    agentId: bigint,
+    responders: Address[] = [],
+    options: PaginationOptions = {}
+  ): Promise<bigint> {
+    const { pageSize, blockNumber } = await this.paginate(options);
+    let count = 0n;
+    let cursor: FeedbackCursor | undefined = FIRST_FEEDBACK;
+    while (cursor !== undefined) {
+      const [pageCount, nextClientOffset, nextIndex] = await this.publicClient.readContract({
+        address: this.address,
+        abi: this.abi,
+        functionName: "getResponseCountPage",
+        args: [agentId, cursor.clientOffset, cursor.feedbackIndex, pageSize, responders],
+        blockNumber
+      });
+      count += pageCount;
+      cursor = toCursor(nextClientOffset, nextIndex);
+    }
+    return count;
+  }
+
+  private async paginate(options: PaginationOptions): Promise<Required<PaginationOptions>> {
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (pageSize < 1n) {
+      throw new Error("pageSize must be at least 1");
+    }
+    return { pageSize, blockNumber: options.blockNumber ?? (await this.publicClient.getBlockNumber()) };
+  }
+
+  /**
+   * Mirrors `_verifySignature`: EOA recovery against the EIP-191 and EIP-712 digests, then
+   * ERC-1271 with either digest, then the owner/operator check.
+   */
+  private async checkFeedbackAuthSigner(auth: SignedFeedbackAuth, identityRegistry: Address): Promise<string[]> {
+    const digests = [getFeedbackAuthDigest(auth), getFeedbackAuthTypedDataDigest(auth, this.address)];
+    const recovered = await Promise.all(
+      digests.map((hash) => recoverAddress({ hash, signature: auth.signature }).catch(() => undefined))
+    );
+
+    if (!recovered.some((signer) => signer !== undefined && isAddressEqual(signer, auth.signerAddress))) {
+      const code = await this.publicClient.getCode({ address: auth.signerAddress });
+      if (code === undefined || code === "0x") {
+        return ["Invalid signature"];
+      }
+      const magicValues = await Promise.all(
+        digests.map((hash) =>
+          this.publicClient
+            .readContract({
+              address: auth.signerAddress,
+              abi: erc1271Abi,
+              functionName: "isValidSignature",
+              args: [hash, auth.signature]
+            })
+            .catch(() => undefined)
+        )
+      );
+      if (!magicValues.includes("0x1626ba7e")) {
+        return ["Bad 1271 signature"];
+      }
+    }
+
+    const identity = { address: identityRegistry, abi: identityRegistryAbi } as const;
+    let owner: Address;
+    try {
+      owner = await this.publicClient.readContract({ ...identity, functionName: "ownerOf", args: [auth.agentId] });
+    } catch {
+      return ["Agent does not exist"];
+    }
+    const [approvedForAll, approved] = await Promise.all([
+      this.publicClient.readContract({ ...identity, functionName: "isApprovedForAll", args: [owner, auth.signerAddress] }),
+      this.publicClient.readContract({ ...identity, functionName: "getApproved", args: [auth.agentId] })
+    ]);
+    if (!isAddressEqual(owner, auth.signerAddress) && !approvedForAll && !isAddressEqual(approved, auth.signerAddress)) {
+      return ["Signer not authorized"];
+    }
+    return [];
+  }
+
+  /**
+   * NewFeedback does not carry the index, so derive it from the client's last index at the
+   * mined block minus any later feedback the same client gave the agent in that block.
+   */
+  private async feedbackIndexOf(
+    receipt: TransactionReceipt,
+    agentId: bigint,
+    clientAddress: Address,
+    logIndex: number
+  ): Promise<bigint> {
+    const lastIndex = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getLastIndex",
+      args: [agentId, clientAddress],
+      blockNumber: receipt.blockNumber
+    });
+    const sameBlock = await this.publicClient.getContractEvents({
+      address: this.address,
+      abi: this.abi,
+      eventName: "NewFeedback",
+      args: { agentId, clientAddress },
+      fromBlock: receipt.blockNumber,
+      toBlock: receipt.blockNumber
+    });
+    const later = sameBlock.filter(
+      (log) => log.logIndex > logIndex && isAddressEqual(log.address, this.address)
+    ).length;
+    return lastIndex - BigInt(later);
+  }
+}
+
+/** Arguments of the spec's four-argument `getSummary`; the overloads append `excludeDisputed` */
+function summaryArgs(agentId: bigint, filter: FeedbackFilter) {
+  return [agentId, filter.clientAddresses ?? [], filter.tag1 ?? ZERO_BYTES32, filter.tag2 ?? ZERO_BYTES32] as const;
+}
+
+function toCursor(clientOffset: bigint, feedbackIndex: bigint): FeedbackCursor | undefined {
+  // The registry returns index 0 once the walk is past the last client
+  return feedbackIndex === 0n ? undefined : { clientOffset, feedbackIndex };
+}
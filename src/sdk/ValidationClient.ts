@@ -0,0 +1,220 @@
+import type { Address, Hex } from "viem";
+
+import { validationRegistryAbi } from "./abis.js";
+import { RegistryClient, ZERO_BYTES32 } from "./RegistryClient.js";
+import type {
+  ScoreTotals,
+  ValidationCancelledEvent,
+  ValidationCounts,
+  ValidationRequestEvent,
+  ValidationResponseEvent,
+  ValidationState,
+  ValidationStatus,
+  ValidationSummary,
+  WriteResult
+} from "./types.js";
+
+const VALIDATION_STATES: readonly ValidationState[] = ["none", "pending", "responded", "cancelled", "expired"];
+
+/**
+ * Typed wrapper around ValidationRegistry / ValidationRegistryUpgradeable.
+ */
+export class ValidationClient extends RegistryClient<typeof validationRegistryAbi> {
+  readonly abi = validationRegistryAbi;
+
+  /**
+   * Opens a validation request for an agent. Must be sent by the agent owner or an operator.
+   * With a `deadline` (unix seconds) the registry rejects responses sent after it.
+   */
+  async validationRequest(
+    validatorAddress: Address,
+    agentId: bigint,
+    requestUri: string,
+    requestHash: Hex,
+    deadline?: bigint
+  ): Promise<WriteResult<ValidationRequestEvent>> {
+    const { account, chain } = this.wallet;
+    const base = { address: this.address, abi: this.abi, functionName: "validationRequest", account, chain } as const;
+    const hash =
+      deadline === undefined
+        ? await this.wallet.writeContract({ ...base, args: [validatorAddress, agentId, requestUri, requestHash] })
+        : await this.wallet.writeContract({
+            ...base,
+            args: [validatorAddress, agentId, requestUri, requestHash, deadline]
+          });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "ValidationRequest");
+    return {
+      hash,
+      receipt,
+      event: {
+        validatorAddress: args.validatorAddress,
+        agentId: args.agentId,
+        requestUri: args.requestUri,
+        requestHash: args.requestHash
+      }
+    };
+  }
+
+  /**
+   * Answers a validation request. Must be sent by the validator named in the request.
+   */
+  async validationResponse(
+    requestHash: Hex,
+    response: number,
+    responseUri = "",
+    responseHash: Hex = ZERO_BYTES32,
+    tag: Hex = ZERO_BYTES32
+  ): Promise<WriteResult<ValidationResponseEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "validationResponse",
+      args: [requestHash, response, responseUri, responseHash, tag],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "ValidationResponse");
+    return {
+      hash,
+      receipt,
+      event: {
+        validatorAddress: args.validatorAddress,
+        agentId: args.agentId,
+        requestHash: args.requestHash,
+        response: args.response,
+        responseUri: args.responseUri,
+        responseHash: args.responseHash,
+        tag: args.tag
+      }
+    };
+  }
+
+  /**
+   * Withdraws a request that has not been answered (pending or expired). Must be sent by the
+   * agent owner or an operator.
+   */
+  async cancelValidationRequest(requestHash: Hex): Promise<WriteResult<ValidationCancelledEvent>> {
+    const { account, chain } = this.wallet;
+    const hash = await this.wallet.writeContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "cancelValidationRequest",
+      args: [requestHash],
+      account,
+      chain
+    });
+
+    const receipt = await this.confirm(hash);
+    const { args } = this.event(receipt, "ValidationCancelled");
+    return {
+      hash,
+      receipt,
+      event: { validatorAddress: args.validatorAddress, agentId: args.agentId, requestHash: args.requestHash }
+    };
+  }
+
+  async getIdentityRegistry(): Promise<Address> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getIdentityRegistry"
+    });
+  }
+
+  async getValidationStatus(requestHash: Hex): Promise<ValidationStatus> {
+    const [validatorAddress, agentId, response, responseHash, tag, lastUpdate] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: this.abi,
+        functionName: "getValidationStatus",
+        args: [requestHash]
+      });
+    return { validatorAddress, agentId, response, responseHash, tag, lastUpdate };
+  }
+
+  async getSummary(
+    agentId: bigint,
+    validatorAddresses: Address[] = [],
+    tag: Hex = ZERO_BYTES32
+  ): Promise<ValidationSummary> {
+    const [count, avgResponse] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getSummary",
+      args: [agentId, validatorAddresses, tag]
+    });
+    return { count, avgResponse };
+  }
+
+  /** The sums behind `getSummary` over responded requests; see `getScoreStatistics` */
+  async getSummaryTotals(
+    agentId: bigint,
+    validatorAddresses: Address[] = [],
+    tag: Hex = ZERO_BYTES32
+  ): Promise<ScoreTotals> {
+    const [count, total, squaresTotal] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getSummaryTotals",
+      args: [agentId, validatorAddresses, tag]
+    });
+    return { count, total, squaresTotal };
+  }
+
+  async getValidationState(requestHash: Hex): Promise<ValidationState> {
+    const state = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getValidationState",
+      args: [requestHash]
+    });
+    return VALIDATION_STATES[state];
+  }
+
+  /**
+   * Requests of the agent still waiting for a response, next to the responded ones that
+   * `getSummary` averages.
+   */
+  async getPendingCount(agentId: bigint, validatorAddresses: Address[] = []): Promise<ValidationCounts> {
+    const [pending, responded] = await this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getPendingCount",
+      args: [agentId, validatorAddresses]
+    });
+    return { pending, responded };
+  }
+
+  /** 0 when the request has no deadline */
+  async getValidationDeadline(requestHash: Hex): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getValidationDeadline",
+      args: [requestHash]
+    });
+  }
+
+  async getAgentValidations(agentId: bigint): Promise<readonly Hex[]> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getAgentValidations",
+      args: [agentId]
+    });
+  }
+
+  async getValidatorRequests(validatorAddress: Address): Promise<readonly Hex[]> {
+    return this.publicClient.readContract({
+      address: this.address,
+      abi: this.abi,
+      functionName: "getValidatorRequests",
+      args: [validatorAddress]
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { parseAbi } from "viem";
+
+/**
+ * Human-readable ABIs for the ERC-8004 registries.
+ *
+ * The plain and `*Upgradeable` contracts expose the same external interface, so these
+ * ABIs can be pointed at either a direct deployment or an ERC1967Proxy address.
+ */
+
+export const identityRegistryAbi = parseAbi([
+  "struct MetadataEntry { string key; bytes value; }",
+  "function register() returns (uint256 agentId)",
+  "function register(string tokenUri) returns (uint256 agentId)",
+  "function register(string tokenUri, MetadataEntry[] metadata) returns (uint256 agentId)",
+  "function register(string tokenUri, bytes32 uriHash) returns (uint256 agentId)",
+  "function register(string tokenUri, MetadataEntry[] metadata, bytes32 uriHash) returns (uint256 agentId)",
+  "function getMetadata(uint256 agentId, string key) view returns (bytes)",
+  "function setMetadata(uint256 agentId, string key, bytes value)",
+  "function setAgentUri(uint256 agentId, string newUri)",
+  "function setAgentUri(uint256 agentId, string newUri, bytes32 uriHash)",
+  "function getUriHash(uint256 agentId) view returns (bytes32)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function getApproved(uint256 tokenId) view returns (address)",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "function approve(address to, uint256 tokenId)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function transferFrom(address from, address to, uint256 tokenId)",
+  "event Registered(uint256 indexed agentId, string tokenURI, address indexed owner)",
+  "event MetadataSet(uint256 indexed agentId, string indexed indexedKey, string key, bytes value)",
+  "event UriUpdated(uint256 indexed agentId, string newUri, address indexed updatedBy)",
+  "event UriHashCommitted(uint256 indexed agentId, string uri, bytes32 uriHash)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
+]);
+
+export const reputationRegistryAbi = parseAbi([
+  "struct FeedbackAuth { uint256 agentId; address clientAddress; uint64 indexLimit; uint256 expiry; uint256 chainId; address identityRegistry; address signerAddress; }",
+  "function getIdentityRegistry() view returns (address)",
+  "function getFeedbackAuthTypedDataHash(FeedbackAuth auth) view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function giveFeedback(uint256 agentId, uint8 score, bytes32 tag1, bytes32 tag2, string feedbackUri, bytes32 feedbackHash, bytes feedbackAuth)",
+  "function revokeFeedback(uint256 agentId, uint64 feedbackIndex)",
+  "function amendFeedback(uint256 agentId, uint64 feedbackIndex, uint8 score, bytes32 tag1, bytes32 tag2, string feedbackUri, bytes32 feedbackHash, bytes feedbackAuth)",
+  "function disputeFeedback(uint256 agentId, address clientAddress, uint64 feedbackIndex, string reasonUri, bytes32 reasonHash)",
+  "function withdrawDispute(uint256 agentId, address clientAddress, uint64 feedbackIndex)",
+  "function appendResponse(uint256 agentId, address clientAddress, uint64 feedbackIndex, string responseUri, bytes32 responseHash)",
+  "function getLastIndex(uint256 agentId, address clientAddress) view returns (uint64)",
+  "function readFeedback(uint256 agentId, address clientAddress, uint64 index) view returns (uint8 score, bytes32 tag1, bytes32 tag2, bool isRevoked, bool isDisputed)",
+  "function getFeedbackAmendment(uint256 agentId, address clientAddress, uint64 index) view returns (uint64 previousIndex, uint64 supersededBy)",
+  "function getFeedbackTimestamp(uint256 agentId, address clientAddress, uint64 index) view returns (uint64)",
+  "function getSummary(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2) view returns (uint64 count, uint8 averageScore)",
+  "function getSummary(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2, bool excludeDisputed) view returns (uint64 count, uint8 averageScore)",
+  "function getSummaryTotals(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2) view returns (uint64 count, uint256 scoreTotal, uint256 scoreSquaresTotal)",
+  "function getSummaryTotals(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2, bool excludeDisputed) view returns (uint64 count, uint256 scoreTotal, uint256 scoreSquaresTotal)",
+  "function getSummaryInWindow(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2, uint64 fromTimestamp, uint64 toTimestamp, bool excludeDisputed) view returns (uint64 count, uint8 averageScore)",
+  "function getDecayedSummary(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2, uint64 halfLife, bool excludeDisputed) view returns (uint64 count, uint8 averageScore)",
+  "function readAllFeedback(uint256 agentId, address[] clientAddresses, bytes32 tag1, bytes32 tag2, bool includeRevoked) view returns (address[] clients, uint8[] scores, bytes32[] tag1s, bytes32[] tag2s, bool[] revokedStatuses, bool[] disputedStatuses)",
+  "function getResponseCount(uint256 agentId, address clientAddress, uint64 feedbackIndex, address[] responders) view returns (uint64 count)",
+  "function getClients(uint256 agentId) view returns (address[])",
+  "function getClientCount(uint256 agentId) view returns (uint256)",
+  "function getClientsPaginated(uint256 agentId, uint256 offset, uint256 limit) view returns (address[] clients, uint256 total)",
+  "function readFeedbackPage(uint256 agentId, uint256 clientOffset, uint64 fromIndex, uint256 limit) view returns (address[] clients, uint64[] indexes, uint8[] scores, bytes32[] tag1s, bytes32[] tag2s, bool[] revokedStatuses, bool[] disputedStatuses, uint64[] supersededBy, uint256 nextClientOffset, uint64 nextIndex)",
+  "function getSummaryPage(uint256 agentId, uint256 clientOffset, uint64 fromIndex, uint256 limit, bytes32 tag1, bytes32 tag2, bool excludeDisputed) view returns (uint64 count, uint256 scoreTotal, uint256 nextClientOffset, uint64 nextIndex)",
+  "function getResponseCountPage(uint256 agentId, uint256 clientOffset, uint64 fromIndex, uint256 limit, address[] responders) view returns (uint64 count, uint256 nextClientOffset, uint64 nextIndex)",
+  "event NewFeedback(uint256 indexed agentId, address indexed clientAddress, uint8 score, bytes32 indexed tag1, bytes32 tag2, string feedbackUri, bytes32 feedbackHash)",
+  "event FeedbackRevoked(uint256 indexed agentId, address indexed clientAddress, uint64 indexed feedbackIndex)",
+  "event FeedbackAmended(uint256 indexed agentId, address indexed clientAddress, uint64 indexed previousIndex, uint64 newIndex)",
+  "event FeedbackDisputed(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, address indexed disputer, string reasonUri, bytes32 reasonHash)",
+  "event FeedbackDisputeWithdrawn(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, address indexed withdrawnBy)",
+  "event ResponseAppended(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, address indexed responder, string responseUri, bytes32 responseHash)"
+]);
+
+export const validationRegistryAbi = parseAbi([
+  "function getIdentityRegistry() view returns (address)",
+  "function validationRequest(address validatorAddress, uint256 agentId, string requestUri, bytes32 requestHash)",
+  "function validationRequest(address validatorAddress, uint256 agentId, string requestUri, bytes32 requestHash, uint256 deadline)",
+  "function cancelValidationRequest(bytes32 requestHash)",
+  "function validationResponse(bytes32 requestHash, uint8 response, string responseUri, bytes32 responseHash, bytes32 tag)",
+  "function getValidationStatus(bytes32 requestHash) view returns (address validatorAddress, uint256 agentId, uint8 response, bytes32 responseHash, bytes32 tag, uint256 lastUpdate)",
+  "function getSummary(uint256 agentId, address[] validatorAddresses, bytes32 tag) view returns (uint64 count, uint8 avgResponse)",
+  "function getSummaryTotals(uint256 agentId, address[] validatorAddresses, bytes32 tag) view returns (uint64 count, uint256 responseTotal, uint256 responseSquaresTotal)",
+  "function getValidationState(bytes32 requestHash) view returns (uint8)",
+  "function getPendingCount(uint256 agentId, address[] validatorAddresses) view returns (uint64 pending, uint64 responded)",
+  "function getValidationDeadline(bytes32 requestHash) view returns (uint256)",
+  "function getAgentValidations(uint256 agentId) view returns (bytes32[])",
+  "function getValidatorRequests(address validatorAddress) view returns (bytes32[])",
+  "event ValidationRequest(address indexed validatorAddress, uint256 indexed agentId, string requestUri, bytes32 indexed requestHash)",
+  "event ValidationResponse(address indexed validatorAddress, uint256 indexed agentId, bytes32 indexed requestHash, uint8 response, string responseUri, bytes32 responseHash, bytes32 tag)",
+  "event ValidationCancelled(address indexed validatorAddress, uint256 indexed agentId, bytes32 indexed requestHash)"
+]);
+
+export const erc1271Abi = parseAbi([
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4 magicValue)"
+]);
+
+/**
+ * Functions only present on the `*Upgradeable` implementations (UUPS + Ownable).
+ */
+export const upgradeableRegistryAbi = parseAbi([
+  "function getVersion() pure returns (string)",
+  "function owner() view returns (address)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+  "event Upgraded(address indexed implementation)"
+]);
@@ -0,0 +1,281 @@
+import {
+  type Account,
+  type Address,
+  type Hex,
+  type LocalAccount,
+  type WalletClient,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  hashMessage,
+  hashTypedData,
+  isAddressEqual,
+  keccak256,
+  recoverAddress,
+  size,
+  slice
+} from "viem";
+
+/**
+ * Tuple layout decoded by `ReputationRegistry._verifyFeedbackAuth`: seven static words
+ * (224 bytes) followed by the signature.
+ */
+export const FEEDBACK_AUTH_PARAMETERS = [
+  { name: "agentId", type: "uint256" },
+  { name: "clientAddress", type: "address" },
+  { name: "indexLimit", type: "uint64" },
+  { name: "expiry", type: "uint256" },
+  { name: "chainId", type: "uint256" },
+  { name: "identityRegistry", type: "address" },
+  { name: "signerAddress", type: "address" }
+] as const;
+
+export const FEEDBACK_AUTH_STRUCT_LENGTH = 224;
+
+/** Struct plus a 65-byte ECDSA signature; the registry rejects anything shorter */
+export const FEEDBACK_AUTH_MIN_LENGTH = 289;
+
+/** EIP-712 domain name/version of both Reputation registries; verifyingContract is the registry (proxy) */
+export const FEEDBACK_AUTH_EIP712_NAME = "ERC8004ReputationRegistry";
+export const FEEDBACK_AUTH_EIP712_VERSION = "1";
+
+export const FEEDBACK_AUTH_EIP712_TYPES = {
+  FeedbackAuth: FEEDBACK_AUTH_PARAMETERS
+} as const;
+
+/**
+ * `eip191` signs the raw auth hash as a personal message (legacy); `eip712` signs typed data
+ * bound to the Reputation registry, so wallets can display the fields.
+ */
+export type FeedbackAuthScheme = "eip191" | "eip712";
+
+export interface FeedbackAuthSigningOptions {
+  scheme?: FeedbackAuthScheme;
+  /** Required for `eip712`: the Reputation registry (or its proxy) that will verify the auth */
+  reputationRegistry?: Address;
+}
+
+export interface FeedbackAuth {
+  agentId: bigint;
+  clientAddress: Address;
+  /** Highest feedback index (1-based) the client may submit with this auth */
+  indexLimit: bigint;
+  /** Unix timestamp (seconds); the auth is valid while `block.timestamp < expiry` */
+  expiry: bigint;
+  chainId: bigint;
+  identityRegistry: Address;
+  /** Agent owner/operator, either an EOA or an ERC-1271 wallet */
+  signerAddress: Address;
+}
+
+export interface SignedFeedbackAuth extends FeedbackAuth {
+  signature: Hex;
+}
+
+export interface BuildFeedbackAuthParams extends Omit<FeedbackAuth, "expiry"> {
+  /** Absolute expiry; takes precedence over `ttlSeconds` */
+  expiry?: bigint;
+  /** Lifetime from now when `expiry` is omitted (default one hour) */
+  ttlSeconds?: number;
+}
+
+/**
+ * Signs as an EOA: a viem local account, or a wallet client with an account.
+ */
+export type FeedbackAuthSigner = LocalAccount | (WalletClient & { account: Account });
+
+export function buildFeedbackAuth(params: BuildFeedbackAuthParams): FeedbackAuth {
+  const { ttlSeconds = 3600, ...auth } = params;
+  return {
+    ...auth,
+    expiry: params.expiry ?? BigInt(Math.floor(Date.now() / 1000) + ttlSeconds)
+  };
+}
+
+/**
+ * `keccak256(abi.encode(...))` over the auth fields, before the EIP-191 prefix.
+ */
+export function hashFeedbackAuth(auth: FeedbackAuth): Hex {
+  return keccak256(encodeFeedbackAuthStruct(auth));
+}
+
+/**
+ * Digest the registry recovers against (and passes to ERC-1271 `isValidSignature`):
+ * the EIP-191 signed-message hash of {@link hashFeedbackAuth}.
+ */
+export function getFeedbackAuthDigest(auth: FeedbackAuth): Hex {
+  return hashMessage({ raw: hashFeedbackAuth(auth) });
+}
+
+/**
+ * Typed-data request for `eth_signTypedData_v4` (or viem `signTypedData`).
+ */
+export function getFeedbackAuthTypedData(auth: FeedbackAuth, reputationRegistry: Address) {
+  return {
+    domain: {
+      name: FEEDBACK_AUTH_EIP712_NAME,
+      version: FEEDBACK_AUTH_EIP712_VERSION,
+      chainId: auth.chainId,
+      verifyingContract: reputationRegistry
+    },
+    types: FEEDBACK_AUTH_EIP712_TYPES,
+    primaryType: "FeedbackAuth",
+    message: {
+      agentId: auth.agentId,
+      clientAddress: auth.clientAddress,
+      indexLimit: auth.indexLimit,
+      expiry: auth.expiry,
+      chainId: auth.chainId,
+      identityRegistry: auth.identityRegistry,
+      signerAddress: auth.signerAddress
+    }
+  } as const;
+}
+
+/**
+ * Digest the registry checks for the `eip712` scheme (`getFeedbackAuthTypedDataHash`).
+ */
+export function getFeedbackAuthTypedDataDigest(auth: FeedbackAuth, reputationRegistry: Address): Hex {
+  return hashTypedData(getFeedbackAuthTypedData(auth, reputationRegistry));
+}
+
+/**
+ * Signs the auth with `signer`, as a personal message by default or as EIP-712 typed data.
+ * For ERC-1271 wallets set `signerAddress` to the wallet contract and sign with the key the
+ * wallet accepts (e.g. the owner of MockERC1271Wallet).
+ */
+export async function signFeedbackAuth(
+  auth: FeedbackAuth,
+  signer: FeedbackAuthSigner,
+  options: FeedbackAuthSigningOptions = {}
+): Promise<SignedFeedbackAuth> {
+  let signature: Hex;
+  if (options.scheme === "eip712") {
+    const typedData = getFeedbackAuthTypedData(auth, requireReputationRegistry(options));
+    signature =
+      "account" in signer
+        ? await signer.signTypedData({ account: signer.account, ...typedData })
+        : await signer.signTypedData(typedData);
+  } else {
+    const message = { raw: hashFeedbackAuth(auth) };
+    signature =
+      "account" in signer
+        ? await signer.signMessage({ account: signer.account, message })
+        : await signer.signMessage({ message });
+  }
+  return { ...auth, signature };
+}
+
+export function getSignerAddress(signer: FeedbackAuthSigner): Address {
+  return "account" in signer ? signer.account.address : signer.address;
+}
+
+/**
+ * Encodes to the `bytes feedbackAuth` argument of `giveFeedback`.
+ */
+export function encodeFeedbackAuth(auth: SignedFeedbackAuth): Hex {
+  return `${encodeFeedbackAuthStruct(auth)}${auth.signature.slice(2)}` as Hex;
+}
+
+export function decodeFeedbackAuth(feedbackAuth: Hex): SignedFeedbackAuth {
+  if (size(feedbackAuth) < FEEDBACK_AUTH_MIN_LENGTH) {
+    throw new Error("Invalid auth length");
+  }
+  const [agentId, clientAddress, indexLimit, expiry, chainId, identityRegistry, signerAddress] =
+    decodeAbiParameters(FEEDBACK_AUTH_PARAMETERS, slice(feedbackAuth, 0, FEEDBACK_AUTH_STRUCT_LENGTH));
+  return {
+    agentId,
+    clientAddress,
+    indexLimit,
+    expiry,
+    chainId,
+    identityRegistry,
+    signerAddress,
+    signature: slice(feedbackAuth, FEEDBACK_AUTH_STRUCT_LENGTH)
+  };
+}
+
+/**
+ * Recovers the EOA that produced the signature under the given scheme, or `undefined` if
+ * it is malformed. For ERC-1271 signers this is the wallet's key, not `signerAddress`.
+ */
+export async function recoverFeedbackAuthSigner(
+  auth: SignedFeedbackAuth,
+  options: FeedbackAuthSigningOptions = {}
+): Promise<Address | undefined> {
+  const hash =
+    options.scheme === "eip712"
+      ? getFeedbackAuthTypedDataDigest(auth, requireReputationRegistry(options))
+      : getFeedbackAuthDigest(auth);
+  try {
+    return await recoverAddress({ hash, signature: auth.signature });
+  } catch {
+    return undefined;
+  }
+}
+
+export interface FeedbackAuthContext {
+  agentId?: bigint;
+  clientAddress?: Address;
+  chainId?: bigint;
+  identityRegistry?: Address;
+  /** `getLastIndex(agentId, clientAddress)`; the next feedback uses `lastIndex + 1` */
+  lastIndex?: bigint;
+  /** Seconds; defaults to the local clock */
+  now?: bigint;
+}
+
+export interface FeedbackAuthCheck {
+  auth: SignedFeedbackAuth;
+  valid: boolean;
+  /** Revert reasons `giveFeedback` would hit, in the registry's wording */
+  errors: string[];
+}
+
+/**
+ * Offline checks mirroring `_verifyFeedbackAuth`, returning the registry's revert reasons.
+ * Context fields that are omitted are not checked. Signature validity and signer
+ * authorization need chain access; see `ReputationClient.checkFeedbackAuth`.
+ */
+export function validateFeedbackAuth(auth: FeedbackAuth, context: FeedbackAuthContext = {}): string[] {
+  const errors: string[] = [];
+  const now = context.now ?? BigInt(Math.floor(Date.now() / 1000));
+
+  if (context.agentId !== undefined && auth.agentId !== context.agentId) {
+    errors.push("AgentId mismatch");
+  }
+  if (context.clientAddress !== undefined && !isAddressEqual(auth.clientAddress, context.clientAddress)) {
+    errors.push("Client mismatch");
+  }
+  if (now >= auth.expiry) {
+    errors.push("Auth expired");
+  }
+  if (context.chainId !== undefined && auth.chainId !== context.chainId) {
+    errors.push("ChainId mismatch");
+  }
+  if (context.identityRegistry !== undefined && !isAddressEqual(auth.identityRegistry, context.identityRegistry)) {
+    errors.push("Registry mismatch");
+  }
+  if (context.lastIndex !== undefined && auth.indexLimit < context.lastIndex + 1n) {
+    errors.push("IndexLimit exceeded");
+  }
+  return errors;
+}
+
+function encodeFeedbackAuthStruct(auth: FeedbackAuth): Hex {
+  return encodeAbiParameters(FEEDBACK_AUTH_PARAMETERS, [
+    auth.agentId,
+    auth.clientAddress,
+    auth.indexLimit,
+    auth.expiry,
+    auth.chainId,
+    auth.identityRegistry,
+    auth.signerAddress
+  ]);
+}
+
+function requireReputationRegistry(options: FeedbackAuthSigningOptions): Address {
+  if (options.reputationRegistry === undefined) {
+    throw new Error("reputationRegistry is required for EIP-712 FeedbackAuth");
+  }
+  return options.reputationRegistry;
+}
@@ -0,0 +1,40 @@
+import type { Address, PublicClient, WalletClient } from "viem";
+
+import { IdentityClient } from "./IdentityClient.js";
+import { ReputationClient } from "./ReputationClient.js";
+import { ValidationClient } from "./ValidationClient.js";
+
+export * from "./abis.js";
+export * from "./feedbackAuth.js";
+export * from "./manifest.js";
+export * from "./summary.js";
+export * from "./types.js";
+export { RegistryClient, ZERO_BYTES32 } from "./RegistryClient.js";
+export { IdentityClient, ReputationClient, ValidationClient };
+
+export interface RegistryAddresses {
+  identityRegistry: Address;
+  reputationRegistry: Address;
+  validationRegistry: Address;
+}
+
+export interface ERC8004Clients {
+  identity: IdentityClient;
+  reputation: ReputationClient;
+  validation: ValidationClient;
+}
+
+/**
+ * Builds clients for all three registries of one deployment (plain or proxied).
+ */
+export function createERC8004Clients(
+  addresses: RegistryAddresses,
+  publicClient: PublicClient,
+  walletClient?: WalletClient
+): ERC8004Clients {
+  return {
+    identity: new IdentityClient({ address: addresses.identityRegistry, publicClient, walletClient }),
+    reputation: new ReputationClient({ address: addresses.reputationRegistry, publicClient, walletClient }),
+    validation: new ValidationClient({ address: addresses.validationRegistry, publicClient, walletClient })
+  };
+}
@@ -0,0 +1,126 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Address, Hash, Hex, PublicClient, WalletClient } from "viem";
+
+import type { StorageLayout } from "../upgrades/index.js";
+import { type ERC8004Clients, type RegistryAddresses, createERC8004Clients } from "./index.js";
+
+/** Directory (relative to the working directory) holding one `<network>.json` per network */
+export const DEFAULT_DEPLOYMENTS_DIR = "deployments";
+
+export type RegistryName = keyof RegistryAddresses;
+
+export const REGISTRY_NAMES: readonly RegistryName[] = [
+  "identityRegistry",
+  "reputationRegistry",
+  "validationRegistry"
+];
+
+export interface DeployedContract {
+  address: Address;
+  transactionHash: Hash;
+  blockNumber: number;
+}
+
+export interface RegistryDeployment {
+  /** Implementation artifact name, e.g. `IdentityRegistryUpgradeable` */
+  contractName: string;
+  proxy: DeployedContract;
+  implementation: DeployedContract;
+  /** Calldata passed to the `ERC1967Proxy` constructor */
+  initData: Hex;
+  /** Layout of `implementation`, checked against the next one before upgrading */
+  storageLayout?: StorageLayout;
+  /** An implementation announced with `scheduleUpgrade` that the next upgrade run executes */
+  scheduledUpgrade?: ScheduledUpgrade;
+}
+
+export interface ScheduledUpgrade {
+  implementation: DeployedContract;
+  /** Calldata the upgrade was scheduled with; `upgradeToAndCall` must repeat it exactly */
+  initData: Hex;
+  storageLayout: StorageLayout;
+}
+
+export interface CompilerSettings {
+  /** Long solc version, e.g. `0.8.28+commit.7893614a` */
+  version: string;
+  settings: {
+    evmVersion?: string;
+    optimizer?: { enabled?: boolean; runs?: number };
+    viaIR?: boolean;
+  };
+}
+
+/**
+ * Everything needed to talk to, verify and later upgrade one deployment of the upgradeable stack.
+ */
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployer: Address;
+  /** ISO-8601 time the manifest was written */
+  deployedAt: string;
+  compiler: CompilerSettings;
+  contracts: Record<RegistryName, RegistryDeployment>;
+}
+
+export function getManifestPath(networkName: string, dir = DEFAULT_DEPLOYMENTS_DIR): string {
+  return join(dir, `${networkName}.json`);
+}
+
+/**
+ * Reads `deployments/<network>.json`. Throws if the network was never deployed.
+ */
+export function readManifest(networkName: string, dir = DEFAULT_DEPLOYMENTS_DIR): DeploymentManifest {
+  const path = getManifestPath(networkName, dir);
+  if (!existsSync(path)) {
+    throw new Error(`No deployment manifest for network "${networkName}" (${path})`);
+  }
+  const manifest = JSON.parse(readFileSync(path, "utf8")) as DeploymentManifest;
+  for (const name of REGISTRY_NAMES) {
+    if (!manifest.contracts?.[name]?.proxy?.address) {
+      throw new Error(`Deployment manifest ${path} has no ${name} proxy`);
+    }
+  }
+  return manifest;
+}
+
+/** Writes (or overwrites) the manifest for `manifest.network`, returning its path */
+export function writeManifest(manifest: DeploymentManifest, dir = DEFAULT_DEPLOYMENTS_DIR): string {
+  mkdirSync(dir, { recursive: true });
+  const path = getManifestPath(manifest.network, dir);
+  writeFileSync(path, JSON.stringify(manifest, null, 2) + "\n");
+  return path;
+}
+
+/** Proxy addresses of a manifest, in the shape `createERC8004Clients` expects */
+export function getRegistryAddresses(manifest: DeploymentManifest): RegistryAddresses {
+  return {
+    identityRegistry: manifest.contracts.identityRegistry.proxy.address,
+    reputationRegistry: manifest.contracts.reputationRegistry.proxy.address,
+    validationRegistry: manifest.contracts.validationRegistry.proxy.address
+  };
+}
+
+/** Earliest block of the deployment, a good `startBlock` for the indexer */
+export function getDeploymentBlock(manifest: DeploymentManifest): bigint {
+  return BigInt(Math.min(...REGISTRY_NAMES.map((name) => manifest.contracts[name].proxy.blockNumber)));
+}
+
+/**
+ * Builds clients from `deployments/<network>.json`, refusing a manifest written for another chain.
+ */
+export async function loadERC8004Clients(
+  networkName: string,
+  publicClient: PublicClient,
+  walletClient?: WalletClient,
+  dir = DEFAULT_DEPLOYMENTS_DIR
+): Promise<ERC8004Clients> {
+  const manifest = readManifest(networkName, dir);
+  const chainId = await publicClient.getChainId();
+  if (chainId !== manifest.chainId) {
+    throw new Error(`Deployment manifest for "${networkName}" is for chain ${manifest.chainId}, connected to ${chainId}`);
+  }
+  return createERC8004Clients(getRegistryAddresses(manifest), publicClient, walletClient);
+}
@@ -0,0 +1,40 @@
+import type { ScoreStatistics, ScoreTotals } from "./types.js";
+
+/** z-score of a two-sided 95% confidence interval */
+export const Z_95 = 1.96;
+
+/**
+ * The mean of `totals` as a fixed-point integer with `decimals` decimals, rounded down like
+ * the registries' `getSummary` (which is this with 0 decimals). 0n without entries.
+ */
+export function getFixedPointMean(totals: ScoreTotals, decimals = 2): bigint {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error("decimals must be a non-negative integer");
+  }
+  return totals.count > 0n ? (totals.total * 10n ** BigInt(decimals)) / totals.count : 0n;
+}
+
+/**
+ * Mean, sample standard deviation and a normal-approximation confidence interval
+ * (mean ± z · sd / √n) from summary totals. `z` defaults to a 95% interval.
+ */
+export function getScoreStatistics(totals: ScoreTotals, z = Z_95): ScoreStatistics {
+  const { count, total, squaresTotal } = totals;
+  if (count === 0n) {
+    return { count };
+  }
+  const mean = Number(total) / Number(count);
+  if (count < 2n) {
+    return { count, mean };
+  }
+  // n·Σx² − (Σx)² is exact in bigint, so the variance only rounds once
+  const variance = Number(count * squaresTotal - total * total) / Number(count * (count - 1n));
+  const standardDeviation = Math.sqrt(variance);
+  const margin = (z * standardDeviation) / Math.sqrt(Number(count));
+  return {
+    count,
+    mean,
+    standardDeviation,
+    confidenceInterval: [Math.max(0, mean - margin), Math.min(100, mean + margin)]
+  };
+}
@@ -0,0 +1,303 @@
+import type {
+  Address,
+  Hash,
+  Hex,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient
+} from "viem";
+
+export interface RegistryClientConfig {
+  /** Registry address: a direct deployment or the ERC1967Proxy of a `*Upgradeable` implementation */
+  address: Address;
+  publicClient: PublicClient;
+  /** Only required for state-changing calls */
+  walletClient?: WalletClient;
+}
+
+/**
+ * Result of a confirmed write: the transaction plus the decoded registry event it emitted.
+ */
+export interface WriteResult<TEvent> {
+  hash: Hash;
+  receipt: TransactionReceipt;
+  event: TEvent;
+}
+
+export interface MetadataEntry {
+  key: string;
+  value: Hex;
+}
+
+// ---------------------------------------------------------------------------
+// IdentityRegistry
+// ---------------------------------------------------------------------------
+
+export interface RegisteredEvent {
+  agentId: bigint;
+  tokenUri: string;
+  owner: Address;
+}
+
+export interface MetadataSetEvent {
+  agentId: bigint;
+  key: string;
+  value: Hex;
+}
+
+export interface UriUpdatedEvent {
+  agentId: bigint;
+  newUri: string;
+  updatedBy: Address;
+}
+
+export interface UriHashCommittedEvent {
+  agentId: bigint;
+  uri: string;
+  /** bytes32(0) when a commitment was cleared */
+  uriHash: Hex;
+}
+
+export interface RegistrationResult extends WriteResult<RegisteredEvent> {
+  agentId: bigint;
+  metadata: MetadataSetEvent[];
+  /** Present when registered with a `uriHash` */
+  uriHash?: UriHashCommittedEvent;
+}
+
+export interface UriUpdateResult extends WriteResult<UriUpdatedEvent> {
+  /** Present when a hash was committed, or a previous commitment was cleared */
+  uriHash?: UriHashCommittedEvent;
+}
+
+// ---------------------------------------------------------------------------
+// ReputationRegistry
+// ---------------------------------------------------------------------------
+
+export interface GiveFeedbackParams {
+  agentId: bigint;
+  score: number;
+  /** bytes32(0) when omitted */
+  tag1?: Hex;
+  /** bytes32(0) when omitted */
+  tag2?: Hex;
+  feedbackUri?: string;
+  /** bytes32(0) when omitted */
+  feedbackHash?: Hex;
+  /** Encoded FeedbackAuth (224-byte tuple followed by the signature) */
+  feedbackAuth: Hex;
+}
+
+/**
+ * A corrected version of one of the sender's entries. The new version takes the next index,
+ * so `feedbackAuth` must allow it like for `giveFeedback`.
+ */
+export interface AmendFeedbackParams extends GiveFeedbackParams {
+  /** The entry being replaced: the latest version, neither revoked nor amended yet */
+  feedbackIndex: bigint;
+}
+
+export interface AmendFeedbackResult extends WriteResult<FeedbackAmendedEvent> {
+  /** The new version, at `event.newIndex` */
+  feedback: NewFeedbackEvent;
+}
+
+/** An entry's links in its chain of amendments; 0n where there is none */
+export interface FeedbackAmendment {
+  previousIndex: bigint;
+  supersededBy: bigint;
+}
+
+export interface Feedback {
+  score: number;
+  tag1: Hex;
+  tag2: Hex;
+  isRevoked: boolean;
+  /** Contested by the agent with `disputeFeedback` */
+  isDisputed: boolean;
+}
+
+export interface FeedbackEntry extends Feedback {
+  clientAddress: Address;
+}
+
+export interface FeedbackFilter {
+  /** Restrict to these clients; every client of the agent when empty */
+  clientAddresses?: Address[];
+  tag1?: Hex;
+  tag2?: Hex;
+}
+
+export interface SummaryFilter extends FeedbackFilter {
+  /** Leave out feedback the agent disputes (default false) */
+  excludeDisputed?: boolean;
+}
+
+export interface FeedbackSummary {
+  count: bigint;
+  averageScore: number;
+}
+
+/**
+ * Exact sums behind a summary (`getSummaryTotals`), for means and spreads without the
+ * registry's integer rounding. See `getScoreStatistics`.
+ */
+export interface ScoreTotals {
+  count: bigint;
+  /** Sum of the scores (feedback) or responses (validation) */
+  total: bigint;
+  /** Sum of their squares */
+  squaresTotal: bigint;
+}
+
+export interface ScoreStatistics {
+  count: bigint;
+  /** Exact mean; `undefined` without entries */
+  mean?: number;
+  /** Sample standard deviation; `undefined` below two entries */
+  standardDeviation?: number;
+  /** Normal-approximation interval around the mean, clamped to 0-100; `undefined` below two entries */
+  confidenceInterval?: [low: number, high: number];
+}
+
+/** Unix timestamps in seconds, both inclusive; `to` defaults to now */
+export interface FeedbackWindow {
+  from?: bigint;
+  to?: bigint;
+}
+
+/**
+ * Position in the registry's (client, index) walk over an agent's feedback. Start from
+ * `{ clientOffset: 0n, feedbackIndex: 1n }`.
+ */
+export interface FeedbackCursor {
+  clientOffset: bigint;
+  feedbackIndex: bigint;
+}
+
+export interface PagedFeedbackEntry extends FeedbackEntry {
+  feedbackIndex: bigint;
+  /** Index of the amendment that replaced this entry; 0n while it is the latest version */
+  supersededBy: bigint;
+}
+
+export interface FeedbackPage {
+  entries: PagedFeedbackEntry[];
+  /** `undefined` once every client has been visited */
+  next?: FeedbackCursor;
+}
+
+export interface ClientsPage {
+  clients: readonly Address[];
+  total: bigint;
+}
+
+export interface PaginationOptions {
+  /** Entries per `eth_call` (default 500) */
+  pageSize?: bigint;
+  /** Block every page is read at; defaults to the latest block when the walk starts */
+  blockNumber?: bigint;
+}
+
+export interface NewFeedbackEvent {
+  agentId: bigint;
+  clientAddress: Address;
+  /** 1-based index assigned by the registry */
+  feedbackIndex: bigint;
+  score: number;
+  tag1: Hex;
+  tag2: Hex;
+  feedbackUri: string;
+  feedbackHash: Hex;
+}
+
+export interface FeedbackRevokedEvent {
+  agentId: bigint;
+  clientAddress: Address;
+  feedbackIndex: bigint;
+}
+
+export interface FeedbackAmendedEvent {
+  agentId: bigint;
+  clientAddress: Address;
+  previousIndex: bigint;
+  newIndex: bigint;
+}
+
+export interface FeedbackDisputedEvent {
+  agentId: bigint;
+  clientAddress: Address;
+  feedbackIndex: bigint;
+  disputer: Address;
+  reasonUri: string;
+  reasonHash: Hex;
+}
+
+export interface FeedbackDisputeWithdrawnEvent {
+  agentId: bigint;
+  clientAddress: Address;
+  feedbackIndex: bigint;
+  withdrawnBy: Address;
+}
+
+export interface ResponseAppendedEvent {
+  agentId: bigint;
+  clientAddress: Address;
+  feedbackIndex: bigint;
+  responder: Address;
+  responseUri: string;
+  responseHash: Hex;
+}
+
+// ---------------------------------------------------------------------------
+// ValidationRegistry
+// ---------------------------------------------------------------------------
+
+export interface ValidationStatus {
+  validatorAddress: Address;
+  agentId: bigint;
+  response: number;
+  responseHash: Hex;
+  tag: Hex;
+  lastUpdate: bigint;
+}
+
+/**
+ * Mirrors the registry's `ValidationState` enum; `none` for unknown request hashes and
+ * `expired` for pending requests past their deadline.
+ */
+export type ValidationState = "none" | "pending" | "responded" | "cancelled" | "expired";
+
+/** Only responded validations; pending requests are reported by `getPendingCount` */
+export interface ValidationSummary {
+  count: bigint;
+  avgResponse: number;
+}
+
+export interface ValidationCounts {
+  pending: bigint;
+  responded: bigint;
+}
+
+export interface ValidationRequestEvent {
+  validatorAddress: Address;
+  agentId: bigint;
+  requestUri: string;
+  requestHash: Hex;
+}
+
+export interface ValidationCancelledEvent {
+  validatorAddress: Address;
+  agentId: bigint;
+  requestHash: Hex;
+}
+
+export interface ValidationResponseEvent {
+  validatorAddress: Address;
+  agentId: bigint;
+  requestHash: Hex;
+  response: number;
+  responseUri: string;
+  responseHash: Hex;
+  tag: Hex;
+}
@@ -0,0 +1,3 @@
+export * from "./proxy.js";
+export * from "./safeBatch.js";
+export * from "./storageLayout.js";
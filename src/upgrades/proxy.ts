@@ -0,0 +1,171 @@
+import {
+  type Account,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type SimulateContractReturnType,
+  getAddress,
+  getContractAddress,
+  isAddressEqual,
+  keccak256,
+  parseAbi,
+  sliceHex,
+  zeroAddress,
+  zeroHash
+} from "viem";
+
+/** bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1) */
+export const IMPLEMENTATION_SLOT: Hex = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+export const UUPS_ABI = parseAbi([
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+  "function proxiableUUID() view returns (bytes32)",
+  "function getVersion() pure returns (string)",
+  "function owner() view returns (address)",
+  "function scheduleUpgrade(address implementation, bytes data)",
+  "function getUpgradeDelay() view returns (uint64)",
+  "function getScheduledUpgrade() view returns (address implementation, bytes32 dataHash, uint64 readyAt)",
+  "error ERC1967InvalidImplementation(address implementation)",
+  "error FailedCall()",
+  "error InvalidInitialization()",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)"
+]);
+
+/**
+ * `upgrade` runs `upgradeToAndCall`: right away without a delay, or as the execution of a
+ * scheduled upgrade that is due. `schedule` announces it with `scheduleUpgrade` first.
+ */
+export type UpgradeStep = "upgrade" | "schedule";
+
+export interface UpgradePlan {
+  proxy: Address;
+  currentImplementation: Address;
+  currentVersion: string;
+  newImplementation: Address;
+  newVersion: string;
+  /** Calldata run by `upgradeToAndCall` after the switch (e.g. a reinitializer), `0x` for none */
+  initData: Hex;
+  /** The proxy's upgrade delay in seconds, 0n for immediate upgrades */
+  delay: bigint;
+  step: UpgradeStep;
+  /**
+   * The simulated `upgradeToAndCall`, or `scheduleUpgrade` for the `schedule` step (plan again
+   * once the delay has passed to execute it), ready for `walletClient.writeContract`
+   */
+  request: SimulateContractReturnType<typeof UUPS_ABI, "upgradeToAndCall" | "scheduleUpgrade">["request"];
+}
+
+/** A proxy's upgrade timelock; implementations that predate it report no delay and no schedule */
+export interface UpgradeTimelock {
+  delay: bigint;
+  /** Zero address when nothing is scheduled */
+  scheduledImplementation: Address;
+  scheduledDataHash: Hex;
+  readyAt: bigint;
+}
+
+/** A not-yet-deployed implementation: where it would land and the runtime code it would have */
+export interface PredictedImplementation {
+  address: Address;
+  code: Hex;
+}
+
+/** Reads the implementation address from a proxy's ERC-1967 slot */
+export async function getImplementationAddress(publicClient: PublicClient, proxy: Address): Promise<Address> {
+  const slot = await publicClient.getStorageAt({ address: proxy, slot: IMPLEMENTATION_SLOT });
+  return getAddress(slot ? sliceHex(slot, 12) : zeroAddress);
+}
+
+export async function getUpgradeTimelock(publicClient: PublicClient, proxy: Address): Promise<UpgradeTimelock> {
+  try {
+    const [delay, [scheduledImplementation, scheduledDataHash, readyAt]] = await Promise.all([
+      publicClient.readContract({ address: proxy, abi: UUPS_ABI, functionName: "getUpgradeDelay" }),
+      publicClient.readContract({ address: proxy, abi: UUPS_ABI, functionName: "getScheduledUpgrade" })
+    ]);
+    return { delay, scheduledImplementation, scheduledDataHash, readyAt };
+  } catch {
+    return { delay: 0n, scheduledImplementation: zeroAddress, scheduledDataHash: zeroHash, readyAt: 0n };
+  }
+}
+
+/**
+ * Runs `creationCode` in an `eth_call` to obtain the runtime code (immutables included) that
+ * `deployer` would get by deploying it with `nonce` (default: its next nonce), without sending anything.
+ */
+export async function predictImplementation(
+  publicClient: PublicClient,
+  deployer: Address,
+  creationCode: Hex,
+  nonce?: number
+): Promise<PredictedImplementation> {
+  nonce ??= await publicClient.getTransactionCount({ address: deployer });
+  const { data } = await publicClient.call({
+    account: deployer,
+    data: creationCode,
+    stateOverride: [{ address: deployer, nonce }]
+  });
+  if (!data || data === "0x") {
+    throw new Error("Implementation constructor returned no code");
+  }
+  return { address: getContractAddress({ from: deployer, nonce: BigInt(nonce) }), code: data };
+}
+
+/**
+ * Simulates `upgradeToAndCall` on `proxy` as `account` and reports the versions on either side.
+ * Pass a `PredictedImplementation` to simulate against code that is not deployed yet.
+ * Reverts surface as errors, so nothing is sent for an upgrade that would fail.
+ *
+ * If the proxy has an upgrade delay (or `schedule` is set) and this upgrade is not scheduled
+ * yet, the plan is the `scheduleUpgrade` call instead. Once scheduled, planning the same
+ * implementation and calldata again yields the `upgradeToAndCall`, which reverts with
+ * `Upgrade not ready` until the delay has passed.
+ */
+export async function planUpgrade(
+  publicClient: PublicClient,
+  params: {
+    proxy: Address;
+    account: Account | Address;
+    implementation: Address | PredictedImplementation;
+    initData?: Hex;
+    /** Announce the upgrade even if the proxy has no delay */
+    schedule?: boolean;
+  }
+): Promise<UpgradePlan> {
+  const { proxy, account, initData = "0x" } = params;
+  const [newImplementation, stateOverride] =
+    typeof params.implementation === "string"
+      ? [params.implementation, undefined]
+      : [params.implementation.address, [{ address: params.implementation.address, code: params.implementation.code }]];
+
+  const [currentImplementation, currentVersion, newVersion, timelock] = await Promise.all([
+    getImplementationAddress(publicClient, proxy),
+    publicClient.readContract({ address: proxy, abi: UUPS_ABI, functionName: "getVersion" }),
+    publicClient.readContract({ address: newImplementation, abi: UUPS_ABI, functionName: "getVersion", stateOverride }),
+    getUpgradeTimelock(publicClient, proxy)
+  ]);
+  const plan = {
+    proxy,
+    currentImplementation,
+    currentVersion,
+    newImplementation,
+    newVersion,
+    initData,
+    delay: timelock.delay
+  };
+
+  const scheduled =
+    isAddressEqual(timelock.scheduledImplementation, newImplementation) &&
+    timelock.scheduledDataHash === keccak256(initData);
+  const step: UpgradeStep = !scheduled && (timelock.delay > 0n || params.schedule) ? "schedule" : "upgrade";
+  const { request } = await publicClient.simulateContract({
+    address: proxy,
+    abi: UUPS_ABI,
+    functionName: step === "schedule" ? "scheduleUpgrade" : "upgradeToAndCall",
+    args: [newImplementation, initData],
+    account,
+    stateOverride
+  });
+  return { ...plan, step, request };
+}
@@ -0,0 +1,126 @@
+import { type Address, type Hex, encodeFunctionData, getAbiItem, keccak256, toHex } from "viem";
+
+import { UUPS_ABI, type UpgradePlan, type UpgradeStep } from "./proxy.js";
+
+/** Transaction Builder release whose file format this mirrors */
+export const SAFE_TX_BUILDER_VERSION = "1.18.0";
+
+export interface SafeContractMethod {
+  inputs: { internalType: string; name: string; type: string }[];
+  name: string;
+  payable: boolean;
+}
+
+export interface SafeBatchTransaction {
+  to: Address;
+  value: string;
+  /** `null` when the call is described by `contractMethod` and `contractInputsValues` */
+  data: Hex | null;
+  contractMethod: SafeContractMethod | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+/**
+ * A batch file for the Safe{Wallet} Transaction Builder app ("Drag and drop a JSON file").
+ */
+export interface SafeTransactionBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: Address;
+    createdFromOwnerAddress: string;
+    checksum?: Hex;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+/** `step` defaults to `upgrade`; timelocked proxies need a `schedule` batch first */
+export type SafeUpgrade = Pick<UpgradePlan, "proxy" | "newImplementation" | "initData"> & { step?: UpgradeStep };
+
+const STEP_METHODS = {
+  upgrade: getAbiItem({ abi: UUPS_ABI, name: "upgradeToAndCall" }),
+  schedule: getAbiItem({ abi: UUPS_ABI, name: "scheduleUpgrade" })
+};
+
+/** Raw calldata of `upgradeToAndCall(newImplementation, initData)`, or of `scheduleUpgrade` with the same arguments */
+export function encodeUpgradeCall(upgrade: SafeUpgrade): Hex {
+  return encodeFunctionData({
+    abi: [STEP_METHODS[upgrade.step ?? "upgrade"]],
+    args: [upgrade.newImplementation, upgrade.initData]
+  });
+}
+
+/**
+ * Builds a Transaction Builder batch with one `upgradeToAndCall` (or `scheduleUpgrade`) per proxy,
+ * for a Safe that owns the proxies to review, sign and execute atomically.
+ */
+export function buildSafeUpgradeBatch(params: {
+  chainId: number;
+  safe: Address;
+  upgrades: SafeUpgrade[];
+  name?: string;
+  description?: string;
+  createdAt?: number;
+}): SafeTransactionBatch {
+  const batch: SafeTransactionBatch = {
+    version: "1.0",
+    chainId: String(params.chainId),
+    createdAt: params.createdAt ?? Date.now(),
+    meta: {
+      name: params.name ?? "ERC-8004 registry upgrade",
+      description: params.description ?? "",
+      txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+      createdFromSafeAddress: params.safe,
+      createdFromOwnerAddress: ""
+    },
+    transactions: params.upgrades.map((upgrade) => {
+      const method = STEP_METHODS[upgrade.step ?? "upgrade"];
+      const [implementation, data] = method.inputs;
+      return {
+        to: upgrade.proxy,
+        value: "0",
+        data: null,
+        contractMethod: {
+          inputs: method.inputs.map(({ name, type }) => ({ internalType: type, name, type })),
+          name: method.name,
+          payable: method.stateMutability === "payable"
+        },
+        contractInputsValues: {
+          [implementation.name]: upgrade.newImplementation,
+          [data.name]: upgrade.initData
+        }
+      };
+    })
+  };
+  batch.meta.checksum = calculateSafeBatchChecksum(batch);
+  return batch;
+}
+
+/**
+ * The Transaction Builder's integrity checksum: keccak256 of a key-sorted serialization of the
+ * batch with `meta.name` nulled (and `meta.checksum` left out).
+ */
+export function calculateSafeBatchChecksum(batch: SafeTransactionBatch): Hex {
+  const { checksum: _checksum, ...meta } = batch.meta;
+  return keccak256(toHex(serialize({ ...batch, meta: { ...meta, name: null } })));
+}
+
+function serialize(value: unknown): string {
+  const replacer = (_key: string, item: unknown) => (item === undefined ? null : item);
+  if (Array.isArray(value)) {
+    return `[${value.map(serialize).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const keys = Object.keys(value).sort();
+    let serialized = `{${JSON.stringify(keys, replacer)}`;
+    for (const key of keys) {
+      serialized += `${serialize((value as Record<string, unknown>)[key])},`;
+    }
+    return `${serialized}}`;
+  }
+  return JSON.stringify(value, replacer);
+}
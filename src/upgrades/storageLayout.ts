@@ -0,0 +1,284 @@
+import { readFileSync, readdirSync } from "node:fs";
+import { basename, join } from "node:path";
+import { type Hex, keccak256, numberToHex, toHex } from "viem";
+
+/** A state variable (or struct member) as reported by solc's `storageLayout` output */
+export interface StorageItem {
+  label: string;
+  slot: string;
+  offset: number;
+  /** Key into `StorageLayout.types` */
+  type: string;
+  contract: string;
+}
+
+export interface StorageType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageItem[];
+}
+
+/** An ERC-7201 `@custom:storage-location` struct inherited by the contract */
+export interface NamespacedStorage {
+  id: string;
+  slot: Hex;
+  contract: string;
+  members: { label: string; type: string }[];
+}
+
+export interface StorageLayout {
+  storage: StorageItem[];
+  types: Record<string, StorageType>;
+  namespaces: NamespacedStorage[];
+}
+
+export type StorageLayoutIssueKind =
+  | "removed"
+  | "renamed"
+  | "reordered"
+  | "retyped"
+  | "inserted"
+  | "namespace-removed"
+  | "namespace-changed";
+
+export interface StorageLayoutIssue {
+  kind: StorageLayoutIssueKind;
+  /** Variable label, `Struct.member`, or the ERC-7201 namespace id */
+  label: string;
+  detail: string;
+}
+
+const NAMESPACE_TAG = /@custom:storage-location erc7201:(\S+)/;
+
+/**
+ * Reads the storage layout of `contractName` from a Hardhat artifacts directory, using the
+ * build info the artifact was produced by. Requires `storageLayout` in the solc outputSelection.
+ */
+export function readStorageLayout(contractName: string, artifactsDir = "artifacts"): StorageLayout {
+  const artifactFile = readdirSync(artifactsDir, { recursive: true, encoding: "utf8" }).find(
+    (file) => basename(file) === `${contractName}.json` && !file.startsWith("build-info")
+  );
+  if (!artifactFile) {
+    throw new Error(`No artifact for ${contractName} in ${artifactsDir}`);
+  }
+  const artifact = JSON.parse(readFileSync(join(artifactsDir, artifactFile), "utf8"));
+  const { output } = JSON.parse(
+    readFileSync(join(artifactsDir, "build-info", `${artifact.buildInfoId}.output.json`), "utf8")
+  );
+  const compiled = output.contracts[artifact.inputSourceName][contractName];
+  if (!compiled.storageLayout) {
+    throw new Error(`No storage layout for ${contractName}, add storageLayout to the solc outputSelection`);
+  }
+
+  return {
+    storage: compiled.storageLayout.storage.map(toItem),
+    types: Object.fromEntries(
+      Object.entries<StorageType>(compiled.storageLayout.types ?? {}).map(([id, type]) => [
+        id,
+        type.members ? { ...type, members: type.members.map(toItem) } : type
+      ])
+    ),
+    namespaces: readNamespaces(output.sources, artifact.inputSourceName, contractName)
+  };
+}
+
+/** ERC-7201 storage location: keccak256(abi.encode(uint256(keccak256(id)) - 1)) & ~bytes32(uint256(0xff)) */
+export function erc7201Slot(id: string): Hex {
+  const hash = BigInt(keccak256(numberToHex(BigInt(keccak256(toHex(id))) - 1n, { size: 32 })));
+  return numberToHex(hash & ~0xffn, { size: 32 });
+}
+
+/**
+ * Lists every way `next` would corrupt state written under `previous`. Appending variables,
+ * appending members to structs that live in mappings and appending to namespaces are allowed.
+ */
+export function compareStorageLayouts(previous: StorageLayout, next: StorageLayout): StorageLayoutIssue[] {
+  const issues = compareItems(previous.storage, next.storage, previous, next, "");
+
+  for (const namespace of previous.namespaces) {
+    const updated = next.namespaces.find((candidate) => candidate.id === namespace.id);
+    if (!updated) {
+      issues.push({ kind: "namespace-removed", label: namespace.id, detail: `${namespace.contract} is no longer inherited` });
+      continue;
+    }
+    namespace.members.forEach((member, index) => {
+      const current = updated.members[index];
+      if (!current || current.label !== member.label || current.type !== member.type) {
+        issues.push({
+          kind: "namespace-changed",
+          label: `${namespace.id}.${member.label}`,
+          detail: current ? `${member.type} ${member.label} became ${current.type} ${current.label}` : "removed"
+        });
+      }
+    });
+  }
+  return issues;
+}
+
+/** Throws listing every issue unless `next` can safely replace `previous` */
+export function assertStorageLayoutCompatible(
+  contractName: string,
+  previous: StorageLayout,
+  next: StorageLayout
+): void {
+  const issues = compareStorageLayouts(previous, next);
+  if (issues.length > 0) {
+    const lines = issues.map((issue) => `  ${issue.kind} ${issue.label}: ${issue.detail}`);
+    throw new Error(`Incompatible storage layout for ${contractName}:\n${lines.join("\n")}`);
+  }
+}
+
+function toItem({ label, slot, offset, type, contract }: StorageItem): StorageItem {
+  return { label, slot, offset, type, contract };
+}
+
+function position(item: StorageItem): bigint {
+  return BigInt(item.slot) * 32n + BigInt(item.offset);
+}
+
+function compareItems(
+  previousItems: StorageItem[],
+  nextItems: StorageItem[],
+  previous: StorageLayout,
+  next: StorageLayout,
+  prefix: string
+): StorageLayoutIssue[] {
+  const issues: StorageLayoutIssue[] = [];
+  const previousLabels = new Set(previousItems.map((item) => item.label));
+  const renamed = new Set<string>();
+
+  for (const item of previousItems) {
+    const label = prefix + item.label;
+    const moved = nextItems.find((candidate) => candidate.label === item.label);
+    if (!moved) {
+      const replacement = nextItems.find(
+        (candidate) => position(candidate) === position(item) && !previousLabels.has(candidate.label)
+      );
+      if (replacement && typeIssue(item.type, replacement.type, previous, next, false) === undefined) {
+        renamed.add(replacement.label);
+        issues.push({ kind: "renamed", label, detail: `now ${replacement.label}` });
+      } else {
+        issues.push({ kind: "removed", label, detail: `slot ${item.slot} offset ${item.offset}` });
+      }
+    } else if (position(moved) !== position(item)) {
+      issues.push({
+        kind: "reordered",
+        label,
+        detail: `moved from slot ${item.slot} offset ${item.offset} to slot ${moved.slot} offset ${moved.offset}`
+      });
+    } else {
+      const detail = typeIssue(item.type, moved.type, previous, next, false);
+      if (detail !== undefined) issues.push({ kind: "retyped", label, detail });
+    }
+  }
+
+  // New variables must come after everything the previous version used
+  const end = previousItems.reduce((max, item) => (position(item) > max ? position(item) : max), -1n);
+  for (const item of nextItems) {
+    if (!previousLabels.has(item.label) && !renamed.has(item.label) && position(item) <= end) {
+      issues.push({ kind: "inserted", label: prefix + item.label, detail: `at slot ${item.slot} offset ${item.offset}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Describes why `nextId` cannot reinterpret data stored as `previousId`, or `undefined` if it can.
+ * `growable` is true for struct values of mappings, whose storage can gain trailing members.
+ */
+function typeIssue(
+  previousId: string,
+  nextId: string,
+  previous: StorageLayout,
+  next: StorageLayout,
+  growable: boolean
+): string | undefined {
+  const before = previous.types[previousId];
+  const after = next.types[nextId];
+  if (before.encoding !== after.encoding) {
+    return `${before.label} became ${after.label}`;
+  }
+
+  switch (before.encoding) {
+    case "mapping":
+      return (
+        typeIssue(before.key!, after.key!, previous, next, false) ??
+        typeIssue(before.value!, after.value!, previous, next, true)
+      );
+    case "dynamic_array":
+      return typeIssue(before.base!, after.base!, previous, next, false);
+    case "bytes":
+      return undefined;
+  }
+
+  if (before.members) {
+    if (!after.members) return `${before.label} became ${after.label}`;
+    const name = before.label.replace(/^struct /, "");
+    const detail = compareItems(before.members, after.members, previous, next, `${name}.`)
+      .map((issue) => `${issue.kind} ${issue.label} (${issue.detail})`)
+      .join("; ");
+    if (detail) return detail;
+    if (!growable && after.numberOfBytes !== before.numberOfBytes) {
+      return `${before.label} grew from ${before.numberOfBytes} to ${after.numberOfBytes} bytes outside a mapping`;
+    }
+    return undefined;
+  }
+
+  if (before.base) {
+    // Fixed-size array: same length and element type
+    if (after.numberOfBytes !== before.numberOfBytes) return `${before.label} became ${after.label}`;
+    return typeIssue(before.base, after.base!, previous, next, false);
+  }
+
+  // Enums may gain values as long as they keep their width; other value types must be identical
+  const isEnum = before.label.startsWith("enum ") && after.label.startsWith("enum ");
+  if (after.numberOfBytes !== before.numberOfBytes || (!isEnum && after.label !== before.label)) {
+    return `${before.label} became ${after.label}`;
+  }
+  return undefined;
+}
+
+/** Collects `@custom:storage-location erc7201:` structs declared by the contract or its bases */
+function readNamespaces(sources: Record<string, { ast: AstNode }>, sourceName: string, contractName: string) {
+  const contracts = new Map<number, AstNode>();
+  for (const { ast } of Object.values(sources)) {
+    for (const node of ast.nodes ?? []) {
+      if (node.nodeType === "ContractDefinition") contracts.set(node.id, node);
+    }
+  }
+
+  const target = sources[sourceName].ast.nodes!.find(
+    (node) => node.nodeType === "ContractDefinition" && node.name === contractName
+  )!;
+  const namespaces: NamespacedStorage[] = [];
+  for (const baseId of target.linearizedBaseContracts!) {
+    const base = contracts.get(baseId)!;
+    for (const node of base.nodes ?? []) {
+      const id = node.nodeType === "StructDefinition" && node.documentation?.text.match(NAMESPACE_TAG)?.[1];
+      if (id) {
+        namespaces.push({
+          id,
+          slot: erc7201Slot(id),
+          contract: base.name!,
+          members: node.members!.map((member) => ({ label: member.name!, type: member.typeDescriptions!.typeString }))
+        });
+      }
+    }
+  }
+  return namespaces;
+}
+
+interface AstNode {
+  id: number;
+  nodeType: string;
+  name?: string;
+  nodes?: AstNode[];
+  members?: AstNode[];
+  linearizedBaseContracts?: number[];
+  documentation?: { text: string };
+  typeDescriptions?: { typeString: string };
+}
@@ -3,8 +3,15 @@ import { describe, it } from "node:test";
 import { network } from "hardhat";
 import { encodeAbiParameters, getAddress, keccak256, toHex } from "viem";
 
+import {
+  buildFeedbackAuth,
+  encodeFeedbackAuth,
+  getFeedbackAuthTypedData,
+  getFeedbackAuthTypedDataDigest
+} from "../src/sdk/index.js";
+
 describe("ERC8004 Registries", async function () {
-  const { viem } = await network.connect();
+  const { viem, networkHelpers } = await network.connect();
   const publicClient = await viem.getPublicClient();
 
   // Helper function to extract agentId from Registered event
@@ -22,10 +29,10 @@ describe("ERC8004 Registries", async function () {
     agentId: bigint,
     clientAddress: `0x${string}`,
     identityRegistryAddress: `0x${string}`,
-    signer: any
+    signer: any,
+    indexLimit = 100n // Allow up to 100 feedback submissions
   ) {
     const chainId = BigInt(await publicClient.getChainId());
-    const indexLimit = 100n; // Allow up to 100 feedback submissions
     const expiry = BigInt(Math.floor(Date.now() / 1000) + 3600); // 1 hour from now
 
     // Construct message to sign (using encodeAbiParameters to match contract's abi.encode)
@@ -246,6 +253,60 @@ describe("ERC8004 Registries", async function () {
       const updatedUri = await identityRegistry.read.tokenURI([agentId]);
       assert.equal(updatedUri, "ipfs://later-set-uri");
     });
+
+    it("Should commit a uriHash alongside the tokenURI", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const [, other] = await viem.getWalletClients();
+      const firstHash = keccak256(toHex('{"name":"v1"}'));
+      const secondHash = keccak256(toHex('{"name":"v2"}'));
+      const zeroHash = `0x${"00".repeat(32)}` as const;
+
+      // Register with a hash
+      const txHash = await identityRegistry.write.register(["https://example.com/agent.json", firstHash]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+      assert.equal(await identityRegistry.read.getUriHash([agentId]), firstHash);
+
+      // Replace the URI and hash together
+      await viem.assertions.emitWithArgs(
+        identityRegistry.write.setAgentUri([agentId, "https://example.com/agent-v2.json", secondHash]),
+        identityRegistry,
+        "UriHashCommitted",
+        [agentId, "https://example.com/agent-v2.json", secondHash]
+      );
+      assert.equal(await identityRegistry.read.tokenURI([agentId]), "https://example.com/agent-v2.json");
+      assert.equal(await identityRegistry.read.getUriHash([agentId]), secondHash);
+
+      // Only the owner or an operator may commit
+      await assert.rejects(
+        identityRegistry.write.setAgentUri([agentId, "https://evil.example/agent.json", firstHash], {
+          account: other.account
+        }),
+        /Not authorized/
+      );
+
+      // Setting a URI without a hash clears the stale commitment
+      await viem.assertions.emitWithArgs(
+        identityRegistry.write.setAgentUri([agentId, "ipfs://unhashed"]),
+        identityRegistry,
+        "UriHashCommitted",
+        [agentId, "ipfs://unhashed", zeroHash]
+      );
+      assert.equal(await identityRegistry.read.getUriHash([agentId]), zeroHash);
+
+      // Agents registered without a hash have none
+      const plainTx = await identityRegistry.write.register(["ipfs://plain"]);
+      assert.equal(await identityRegistry.read.getUriHash([await getAgentIdFromRegistration(plainTx)]), zeroHash);
+
+      // The metadata overload commits too
+      const metadataTx = await identityRegistry.write.register([
+        "https://example.com/with-metadata.json",
+        [{ key: "agentName", value: toHex("Hashed") }],
+        firstHash
+      ]);
+      const metadataAgentId = await getAgentIdFromRegistration(metadataTx);
+      assert.equal(await identityRegistry.read.getUriHash([metadataAgentId]), firstHash);
+      assert.equal(await identityRegistry.read.getMetadata([metadataAgentId, "agentName"]), toHex("Hashed"));
+    });
   });
 
   describe("ReputationRegistry", async function () {
@@ -354,6 +415,207 @@ describe("ERC8004 Registries", async function () {
       assert.equal(feedback[3], true); // isRevoked
     });
 
+    it("Should amend feedback through a chain of amendments", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [agentOwner, client, otherClient] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+      const agentId = await getAgentIdFromRegistration(txHash);
+      const feedbackAuth = await createFeedbackAuth(agentId, client.account.address, identityRegistry.address, agentOwner);
+      const zero = "0x0000000000000000000000000000000000000000000000000000000000000000";
+      const tagA = keccak256(toHex("tagA"));
+      const tagB = keccak256(toHex("tagB"));
+      const clientAddress = getAddress(client.account.address);
+
+      await reputationRegistry.write.giveFeedback([agentId, 40, tagA, zero, "ipfs://f1", zero, feedbackAuth], { account: client.account });
+      await reputationRegistry.write.giveFeedback([agentId, 70, tagA, zero, "ipfs://f2", zero, feedbackAuth], { account: client.account });
+
+      // Amending index 1 stores the correction at index 3, then index 3 is amended again
+      await viem.assertions.emitWithArgs(
+        reputationRegistry.write.amendFeedback([agentId, 1n, 60, tagA, zero, "ipfs://f1-v2", zero, feedbackAuth], { account: client.account }),
+        reputationRegistry,
+        "FeedbackAmended",
+        [agentId, clientAddress, 1n, 3n]
+      );
+      await viem.assertions.emitWithArgs(
+        reputationRegistry.write.amendFeedback([agentId, 3n, 90, tagB, zero, "ipfs://f1-v3", zero, feedbackAuth], { account: client.account }),
+        reputationRegistry,
+        "NewFeedback",
+        [agentId, clientAddress, 90, tagB, zero, "ipfs://f1-v3", zero]
+      );
+      assert.equal(await reputationRegistry.read.getLastIndex([agentId, client.account.address]), 4n);
+      assert.deepEqual(await reputationRegistry.read.getFeedbackAmendment([agentId, client.account.address, 1n]), [0n, 3n]);
+      assert.deepEqual(await reputationRegistry.read.getFeedbackAmendment([agentId, client.account.address, 3n]), [1n, 4n]);
+      assert.deepEqual(await reputationRegistry.read.getFeedbackAmendment([agentId, client.account.address, 4n]), [3n, 0n]);
+      assert.equal((await reputationRegistry.read.readFeedback([agentId, client.account.address, 1n]))[0], 40);
+
+      // Only the latest version counts
+      const all = await reputationRegistry.read.readAllFeedback([agentId, [], zero, zero, true]);
+      assert.deepEqual(all[1], [70, 90]);
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], zero, zero]), [2n, 80]);
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], tagA, zero]), [1n, 70]);
+      assert.deepEqual(await reputationRegistry.read.getSummaryTotals([agentId, [], zero, zero]), [2n, 160n, 13000n]);
+
+      // Superseded entries can be neither amended nor revoked
+      for (const index of [1n, 3n]) {
+        await assert.rejects(
+          reputationRegistry.write.amendFeedback([agentId, index, 50, zero, zero, "", zero, feedbackAuth], { account: client.account }),
+          /Already amended/
+        );
+      }
+      await assert.rejects(
+        reputationRegistry.write.revokeFeedback([agentId, 3n], { account: client.account }),
+        /Already amended/
+      );
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 4n, 101, zero, zero, "", zero, feedbackAuth], { account: client.account }),
+        /score>100/
+      );
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 2n, 50, zero, zero, "", zero, feedbackAuth], { account: otherClient.account }),
+        /index out of bounds/
+      );
+
+      // Revoking the latest version drops the whole chain, and it can no longer be amended
+      await reputationRegistry.write.revokeFeedback([agentId, 4n], { account: client.account });
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], zero, zero]), [1n, 70]);
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 4n, 50, zero, zero, "", zero, feedbackAuth], { account: client.account }),
+        /Already revoked/
+      );
+    });
+
+    it("Should apply giveFeedback's checks when amending feedback", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [agentOwner, client, otherClient] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+      const agentId = await getAgentIdFromRegistration(txHash);
+      const zero = "0x0000000000000000000000000000000000000000000000000000000000000000";
+      const singleAuth = await createFeedbackAuth(agentId, client.account.address, identityRegistry.address, agentOwner, 1n);
+      const doubleAuth = await createFeedbackAuth(agentId, client.account.address, identityRegistry.address, agentOwner, 2n);
+      const otherAuth = await createFeedbackAuth(agentId, otherClient.account.address, identityRegistry.address, agentOwner);
+
+      await reputationRegistry.write.giveFeedback([agentId, 40, zero, zero, "", zero, singleAuth], { account: client.account });
+
+      // The amendment takes index 2, which the auth must allow
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 1n, 60, zero, zero, "", zero, singleAuth], { account: client.account }),
+        /IndexLimit exceeded/
+      );
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 1n, 60, zero, zero, "", zero, otherAuth], { account: client.account }),
+        /Client mismatch/
+      );
+      await reputationRegistry.write.amendFeedback([agentId, 1n, 60, zero, zero, "", zero, doubleAuth], { account: client.account });
+      await assert.rejects(
+        reputationRegistry.write.giveFeedback([agentId, 80, zero, zero, "", zero, doubleAuth], { account: client.account }),
+        /IndexLimit exceeded/
+      );
+
+      // A client that comes to control the agent can no longer rewrite its feedback
+      const wideAuth = await createFeedbackAuth(agentId, client.account.address, identityRegistry.address, agentOwner);
+      await identityRegistry.write.transferFrom([agentOwner.account.address, client.account.address, agentId], {
+        account: agentOwner.account
+      });
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 2n, 90, zero, zero, "", zero, wideAuth], { account: client.account }),
+        /Self-feedback not allowed/
+      );
+    });
+
+    it("Should let the agent dispute feedback and exclude it from summaries", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [agentOwner, client, operator, stranger] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+      const agentId = await getAgentIdFromRegistration(txHash);
+      const feedbackAuth = await createFeedbackAuth(agentId, client.account.address, identityRegistry.address, agentOwner);
+      const zero = "0x0000000000000000000000000000000000000000000000000000000000000000";
+      const reasonHash = keccak256(toHex("reason"));
+
+      await reputationRegistry.write.giveFeedback([agentId, 10, zero, zero, "ipfs://f1", zero, feedbackAuth], { account: client.account });
+      await reputationRegistry.write.giveFeedback([agentId, 90, zero, zero, "ipfs://f2", zero, feedbackAuth], { account: client.account });
+
+      await assert.rejects(
+        reputationRegistry.write.disputeFeedback([agentId, client.account.address, 1n, "ipfs://reason", reasonHash], {
+          account: stranger.account
+        }),
+        /Not authorized/
+      );
+      await viem.assertions.emitWithArgs(
+        reputationRegistry.write.disputeFeedback([agentId, client.account.address, 1n, "ipfs://reason", reasonHash], {
+          account: agentOwner.account
+        }),
+        reputationRegistry,
+        "FeedbackDisputed",
+        [agentId, getAddress(client.account.address), 1n, getAddress(agentOwner.account.address), "ipfs://reason", reasonHash]
+      );
+      await assert.rejects(
+        reputationRegistry.write.disputeFeedback([agentId, client.account.address, 1n, "ipfs://again", zero], {
+          account: agentOwner.account
+        }),
+        /Already disputed/
+      );
+      await assert.rejects(
+        reputationRegistry.write.disputeFeedback([agentId, client.account.address, 2n, "", zero], { account: agentOwner.account }),
+        /Empty URI/
+      );
+      await assert.rejects(
+        reputationRegistry.write.amendFeedback([agentId, 1n, 100, zero, zero, "", zero, feedbackAuth], { account: client.account }),
+        /Feedback is disputed/
+      );
+
+      // The status is visible on reads, and summaries only drop it on request
+      const feedback = await reputationRegistry.read.readFeedback([agentId, client.account.address, 1n]);
+      assert.equal(feedback[4], true); // isDisputed
+      const all = await reputationRegistry.read.readAllFeedback([agentId, [], zero, zero, false]);
+      assert.deepEqual(all[5], [true, false]); // disputedStatuses
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], zero, zero]), [2n, 50]);
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], zero, zero, false]), [2n, 50]);
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], zero, zero, true]), [1n, 90]);
+      assert.deepEqual(await reputationRegistry.read.getSummaryTotals([agentId, [], zero, zero, true]), [1n, 90n, 8100n]);
+
+      // Operators act for the owner
+      await identityRegistry.write.setApprovalForAll([operator.account.address, true], { account: agentOwner.account });
+      await viem.assertions.emitWithArgs(
+        reputationRegistry.write.withdrawDispute([agentId, client.account.address, 1n], { account: operator.account }),
+        reputationRegistry,
+        "FeedbackDisputeWithdrawn",
+        [agentId, getAddress(client.account.address), 1n, getAddress(operator.account.address)]
+      );
+      assert.deepEqual(await reputationRegistry.read.getSummary([agentId, [], zero, zero, true]), [2n, 50]);
+      await assert.rejects(
+        reputationRegistry.write.withdrawDispute([agentId, client.account.address, 1n], { account: operator.account }),
+        /Not disputed/
+      );
+
+      // Revoked and amended entries no longer count, so there is nothing to dispute
+      await reputationRegistry.write.revokeFeedback([agentId, 1n], { account: client.account });
+      await reputationRegistry.write.amendFeedback([agentId, 2n, 80, zero, zero, "", zero, feedbackAuth], { account: client.account });
+      await assert.rejects(
+        reputationRegistry.write.disputeFeedback([agentId, client.account.address, 1n, "ipfs://reason", zero], {
+          account: operator.account
+        }),
+        /Already revoked/
+      );
+      await assert.rejects(
+        reputationRegistry.write.disputeFeedback([agentId, client.account.address, 2n, "ipfs://reason", zero], {
+          account: operator.account
+        }),
+        /Already amended/
+      );
+    });
+
     it("Should append response to feedback", async function () {
       const identityRegistry = await viem.deployContract("IdentityRegistry");
       const reputationRegistry = await viem.deployContract("ReputationRegistry", [
@@ -1537,6 +1799,206 @@ describe("ERC8004 Registries", async function () {
         assert.equal(summary[1], 90); // average = (85 + 95) / 2
       });
     });
+
+    describe("EIP-712 FeedbackAuth", async function () {
+      // Helper function to create feedbackAuth signed as EIP-712 typed data
+      async function createTypedFeedbackAuth(
+        agentId: bigint,
+        clientAddress: `0x${string}`,
+        identityRegistryAddress: `0x${string}`,
+        reputationRegistryAddress: `0x${string}`,
+        signer: any,
+        signerAddress: `0x${string}` = signer.account.address
+      ) {
+        const auth = buildFeedbackAuth({
+          agentId,
+          clientAddress,
+          indexLimit: 100n,
+          chainId: BigInt(await publicClient.getChainId()),
+          identityRegistry: identityRegistryAddress,
+          signerAddress
+        });
+        const signature = await signer.signTypedData(getFeedbackAuthTypedData(auth, reputationRegistryAddress));
+        return encodeFeedbackAuth({ ...auth, signature });
+      }
+
+      it("Should expose an EIP-712 domain matching the TypeScript typed data", async function () {
+        const identityRegistry = await viem.deployContract("IdentityRegistry");
+        const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+          identityRegistry.address,
+        ]);
+        const [agentOwner, client] = await viem.getWalletClients();
+        const chainId = BigInt(await publicClient.getChainId());
+
+        const domain = await reputationRegistry.read.eip712Domain();
+        assert.equal(domain[1], "ERC8004ReputationRegistry"); // name
+        assert.equal(domain[2], "1"); // version
+        assert.equal(domain[3], chainId);
+        assert.equal(domain[4], getAddress(reputationRegistry.address)); // verifyingContract
+
+        const auth = buildFeedbackAuth({
+          agentId: 7n,
+          clientAddress: client.account.address,
+          indexLimit: 3n,
+          expiry: 2_000_000_000n,
+          chainId,
+          identityRegistry: identityRegistry.address,
+          signerAddress: agentOwner.account.address
+        });
+        const onChainDigest = await reputationRegistry.read.getFeedbackAuthTypedDataHash([auth]);
+        assert.equal(onChainDigest, getFeedbackAuthTypedDataDigest(auth, reputationRegistry.address));
+      });
+
+      it("Should accept EIP-712 feedbackAuth signed by an EOA", async function () {
+        const identityRegistry = await viem.deployContract("IdentityRegistry");
+        const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+          identityRegistry.address,
+        ]);
+
+        const [agentOwner, client] = await viem.getWalletClients();
+        const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+        const agentId = await getAgentIdFromRegistration(txHash);
+
+        const feedbackAuth = await createTypedFeedbackAuth(
+          agentId,
+          client.account.address,
+          identityRegistry.address,
+          reputationRegistry.address,
+          agentOwner
+        );
+
+        await viem.assertions.emitWithArgs(
+          reputationRegistry.write.giveFeedback(
+            [agentId, 88, keccak256(toHex("eip712")), keccak256(toHex("eoa")), "ipfs://typed", keccak256(toHex("typed")), feedbackAuth],
+            { account: client.account }
+          ),
+          reputationRegistry,
+          "NewFeedback",
+          [agentId, getAddress(client.account.address), 88, keccak256(toHex("eip712")), keccak256(toHex("eoa")), "ipfs://typed", keccak256(toHex("typed"))]
+        );
+      });
+
+      it("Should accept legacy and EIP-712 feedbackAuth side by side", async function () {
+        const identityRegistry = await viem.deployContract("IdentityRegistry");
+        const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+          identityRegistry.address,
+        ]);
+
+        const [agentOwner, client] = await viem.getWalletClients();
+        const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+        const agentId = await getAgentIdFromRegistration(txHash);
+
+        const legacyAuth = await createFeedbackAuth(agentId, client.account.address, identityRegistry.address, agentOwner);
+        const typedAuth = await createTypedFeedbackAuth(
+          agentId,
+          client.account.address,
+          identityRegistry.address,
+          reputationRegistry.address,
+          agentOwner
+        );
+
+        await reputationRegistry.write.giveFeedback(
+          [agentId, 60, keccak256(toHex("tag1")), keccak256(toHex("tag2")), "ipfs://legacy", keccak256(toHex("legacy")), legacyAuth],
+          { account: client.account }
+        );
+        await reputationRegistry.write.giveFeedback(
+          [agentId, 80, keccak256(toHex("tag1")), keccak256(toHex("tag2")), "ipfs://typed", keccak256(toHex("typed")), typedAuth],
+          { account: client.account }
+        );
+
+        const lastIndex = await reputationRegistry.read.getLastIndex([agentId, client.account.address]);
+        assert.equal(lastIndex, 2n);
+        const summary = await reputationRegistry.read.getSummary([
+          agentId,
+          [],
+          "0x0000000000000000000000000000000000000000000000000000000000000000",
+          "0x0000000000000000000000000000000000000000000000000000000000000000"
+        ]);
+        assert.equal(summary[0], 2n);
+        assert.equal(summary[1], 70);
+      });
+
+      it("Should reject EIP-712 feedbackAuth bound to another registry", async function () {
+        const identityRegistry = await viem.deployContract("IdentityRegistry");
+        const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+          identityRegistry.address,
+        ]);
+        const otherReputationRegistry = await viem.deployContract("ReputationRegistry", [
+          identityRegistry.address,
+        ]);
+
+        const [agentOwner, client] = await viem.getWalletClients();
+        const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+        const agentId = await getAgentIdFromRegistration(txHash);
+
+        // Signed for the other registry's domain, so replaying it here must fail
+        const feedbackAuth = await createTypedFeedbackAuth(
+          agentId,
+          client.account.address,
+          identityRegistry.address,
+          otherReputationRegistry.address,
+          agentOwner
+        );
+
+        await assert.rejects(
+          reputationRegistry.write.giveFeedback(
+            [agentId, 50, keccak256(toHex("tag1")), keccak256(toHex("tag2")), "ipfs://f", keccak256(toHex("c")), feedbackAuth],
+            { account: client.account }
+          ),
+          /Invalid signature/
+        );
+      });
+
+      it("Should accept EIP-712 feedbackAuth for an ERC-1271 wallet and reject the wrong key", async function () {
+        const identityRegistry = await viem.deployContract("IdentityRegistry");
+        const reputationRegistry = await viem.deployContract("ReputationRegistry", [
+          identityRegistry.address,
+        ]);
+
+        const [agentOwner, walletOwner, client, attacker] = await viem.getWalletClients();
+        const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+        const agentId = await getAgentIdFromRegistration(txHash);
+
+        const erc1271Wallet = await viem.deployContract("MockERC1271Wallet", [walletOwner.account.address]);
+        await identityRegistry.write.transferFrom(
+          [agentOwner.account.address, erc1271Wallet.address, agentId],
+          { account: agentOwner.account }
+        );
+
+        const forgedAuth = await createTypedFeedbackAuth(
+          agentId,
+          client.account.address,
+          identityRegistry.address,
+          reputationRegistry.address,
+          attacker,
+          erc1271Wallet.address
+        );
+        await assert.rejects(
+          reputationRegistry.write.giveFeedback(
+            [agentId, 40, keccak256(toHex("tag1")), keccak256(toHex("tag2")), "ipfs://f", keccak256(toHex("c")), forgedAuth],
+            { account: client.account }
+          ),
+          /Bad 1271 signature/
+        );
+
+        // The wallet validates the typed-data digest against its owner's key
+        const feedbackAuth = await createTypedFeedbackAuth(
+          agentId,
+          client.account.address,
+          identityRegistry.address,
+          reputationRegistry.address,
+          walletOwner,
+          erc1271Wallet.address
+        );
+        await reputationRegistry.write.giveFeedback(
+          [agentId, 93, keccak256(toHex("tag1")), keccak256(toHex("tag2")), "ipfs://f", keccak256(toHex("c")), feedbackAuth],
+          { account: client.account }
+        );
+
+        const feedback = await reputationRegistry.read.readFeedback([agentId, client.account.address, 1n]);
+        assert.equal(feedback[0], 93);
+      });
+    });
   });
 
   describe("ValidationRegistry", async function () {
@@ -1747,6 +2209,85 @@ describe("ERC8004 Registries", async function () {
       assert.equal(requests[0], req1);
     });
 
+    it("Should exclude pending requests from the summary", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const validationRegistry = await viem.deployContract("ValidationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [owner, validator1, validator2] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const req1 = keccak256(toHex("request1"));
+      const req2 = keccak256(toHex("request2"));
+      const req3 = keccak256(toHex("request3"));
+
+      await validationRegistry.write.validationRequest([validator1.account.address, agentId, "ipfs://req1", req1]);
+      await validationRegistry.write.validationRequest([validator1.account.address, agentId, "ipfs://req2", req2]);
+      await validationRegistry.write.validationRequest([validator2.account.address, agentId, "ipfs://req3", req3]);
+
+      // Nothing answered yet: nothing to average
+      let summary = await validationRegistry.read.getSummary([agentId, [], "0x0000000000000000000000000000000000000000000000000000000000000000"]);
+      assert.equal(summary[0], 0n);
+      assert.equal(summary[1], 0);
+
+      await validationRegistry.write.validationResponse(
+        [req1, 80, "ipfs://resp1", keccak256(toHex("r1")), "0x0000000000000000000000000000000000000000000000000000000000000000"],
+        { account: validator1.account }
+      );
+
+      // req2 and req3 are still pending and must not drag the average down
+      summary = await validationRegistry.read.getSummary([agentId, [], "0x0000000000000000000000000000000000000000000000000000000000000000"]);
+      assert.equal(summary[0], 1n); // count
+      assert.equal(summary[1], 80); // avg
+
+      summary = await validationRegistry.read.getSummary([agentId, [validator2.account.address], "0x0000000000000000000000000000000000000000000000000000000000000000"]);
+      assert.equal(summary[0], 0n);
+
+      let counts = await validationRegistry.read.getPendingCount([agentId, []]);
+      assert.equal(counts[0], 2n); // pending
+      assert.equal(counts[1], 1n); // responded
+
+      counts = await validationRegistry.read.getPendingCount([agentId, [validator1.account.address]]);
+      assert.equal(counts[0], 1n);
+      assert.equal(counts[1], 1n);
+    });
+
+    it("Should track request state from pending to responded", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const validationRegistry = await viem.deployContract("ValidationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [owner, validator] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const requestHash = keccak256(toHex("request"));
+
+      // ValidationState: 0 = None, 1 = Pending, 2 = Responded
+      assert.equal(await validationRegistry.read.getValidationState([requestHash]), 0);
+
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://req", requestHash]);
+      assert.equal(await validationRegistry.read.getValidationState([requestHash]), 1);
+
+      // A response of 0 (failed) is an answer and is counted
+      await validationRegistry.write.validationResponse(
+        [requestHash, 0, "ipfs://fail", keccak256(toHex("fail")), "0x0000000000000000000000000000000000000000000000000000000000000000"],
+        { account: validator.account }
+      );
+      assert.equal(await validationRegistry.read.getValidationState([requestHash]), 2);
+
+      const summary = await validationRegistry.read.getSummary([agentId, [], "0x0000000000000000000000000000000000000000000000000000000000000000"]);
+      assert.equal(summary[0], 1n);
+      assert.equal(summary[1], 0);
+
+      const counts = await validationRegistry.read.getPendingCount([agentId, []]);
+      assert.equal(counts[0], 0n);
+      assert.equal(counts[1], 1n);
+    });
+
     it("Should only allow agent owner to request validation", async function () {
       const identityRegistry = await viem.deployContract("IdentityRegistry");
       const validationRegistry = await viem.deployContract("ValidationRegistry", [
@@ -1905,5 +2446,126 @@ describe("ERC8004 Registries", async function () {
       const status = await validationRegistry.read.getValidationStatus([requestHash]);
       assert.equal(status[2], 67);
     });
+
+    it("Should reject responses after the request deadline", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const validationRegistry = await viem.deployContract("ValidationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [owner, validator] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const now = BigInt(await networkHelpers.time.latest());
+      await assert.rejects(
+        validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://req", keccak256(toHex("late")), now]),
+        /bad deadline/
+      );
+
+      const onTime = keccak256(toHex("onTime"));
+      const late = keccak256(toHex("late"));
+      const deadline = now + 3600n;
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://req1", onTime, deadline]);
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://req2", late, deadline]);
+      assert.equal(await validationRegistry.read.getValidationDeadline([onTime]), deadline);
+
+      await validationRegistry.write.validationResponse(
+        [onTime, 90, "ipfs://resp", keccak256(toHex("resp")), "0x0000000000000000000000000000000000000000000000000000000000000000"],
+        { account: validator.account }
+      );
+
+      await networkHelpers.time.increaseTo(deadline + 1n);
+
+      // ValidationState: 2 = Responded, 4 = Expired
+      assert.equal(await validationRegistry.read.getValidationState([onTime]), 2);
+      assert.equal(await validationRegistry.read.getValidationState([late]), 4);
+      await assert.rejects(
+        validationRegistry.write.validationResponse(
+          [late, 50, "ipfs://resp", keccak256(toHex("resp")), "0x0000000000000000000000000000000000000000000000000000000000000000"],
+          { account: validator.account }
+        ),
+        /expired/
+      );
+
+      // Expired requests are neither pending nor part of the summary
+      const counts = await validationRegistry.read.getPendingCount([agentId, []]);
+      assert.equal(counts[0], 0n);
+      assert.equal(counts[1], 1n);
+      const summary = await validationRegistry.read.getSummary([agentId, [], "0x0000000000000000000000000000000000000000000000000000000000000000"]);
+      assert.equal(summary[0], 1n);
+      assert.equal(summary[1], 90);
+
+      // Requests without a deadline never expire
+      const open = keccak256(toHex("open"));
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://req3", open]);
+      assert.equal(await validationRegistry.read.getValidationDeadline([open]), 0n);
+      await networkHelpers.time.increase(365 * 24 * 3600);
+      assert.equal(await validationRegistry.read.getValidationState([open]), 1);
+    });
+
+    it("Should let the agent owner or operator cancel unanswered requests", async function () {
+      const identityRegistry = await viem.deployContract("IdentityRegistry");
+      const validationRegistry = await viem.deployContract("ValidationRegistry", [
+        identityRegistry.address,
+      ]);
+
+      const [owner, validator, operator, stranger] = await viem.getWalletClients();
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const req1 = keccak256(toHex("request1"));
+      const req2 = keccak256(toHex("request2"));
+      const req3 = keccak256(toHex("request3"));
+      for (const [i, requestHash] of [req1, req2, req3].entries()) {
+        await validationRegistry.write.validationRequest([validator.account.address, agentId, `ipfs://req${i + 1}`, requestHash]);
+      }
+
+      await assert.rejects(
+        validationRegistry.write.cancelValidationRequest([req1], { account: stranger.account }),
+        /Not authorized/
+      );
+
+      await viem.assertions.emitWithArgs(
+        validationRegistry.write.cancelValidationRequest([req1]),
+        validationRegistry,
+        "ValidationCancelled",
+        [getAddress(validator.account.address), agentId, req1]
+      );
+
+      // Removed from both lookup lists (the last hash takes its place)
+      assert.deepEqual(await validationRegistry.read.getAgentValidations([agentId]), [req3, req2]);
+      assert.deepEqual(await validationRegistry.read.getValidatorRequests([validator.account.address]), [req3, req2]);
+
+      // ValidationState: 3 = Cancelled
+      assert.equal(await validationRegistry.read.getValidationState([req1]), 3);
+      await assert.rejects(
+        validationRegistry.write.validationResponse(
+          [req1, 80, "ipfs://resp", keccak256(toHex("resp")), "0x0000000000000000000000000000000000000000000000000000000000000000"],
+          { account: validator.account }
+        ),
+        /cancelled/
+      );
+      await assert.rejects(validationRegistry.write.cancelValidationRequest([req1]), /not pending/);
+
+      // Answered requests are part of the agent's record and cannot be withdrawn
+      await validationRegistry.write.validationResponse(
+        [req2, 20, "ipfs://resp", keccak256(toHex("resp")), "0x0000000000000000000000000000000000000000000000000000000000000000"],
+        { account: validator.account }
+      );
+      await assert.rejects(validationRegistry.write.cancelValidationRequest([req2]), /not pending/);
+
+      // Approved operators may cancel too
+      await identityRegistry.write.setApprovalForAll([operator.account.address, true]);
+      await validationRegistry.write.cancelValidationRequest([req3], { account: operator.account });
+      assert.deepEqual(await validationRegistry.read.getAgentValidations([agentId]), [req2]);
+      assert.deepEqual(await validationRegistry.read.getValidatorRequests([validator.account.address]), [req2]);
+
+      const counts = await validationRegistry.read.getPendingCount([agentId, []]);
+      assert.equal(counts[0], 0n);
+      assert.equal(counts[1], 1n);
+
+      await assert.rejects(validationRegistry.write.cancelValidationRequest([keccak256(toHex("unknown"))]), /unknown/);
+    });
   });
 });
@@ -0,0 +1,319 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { createPublicClient, custom, getAddress, keccak256, parseEther, toHex, zeroHash } from "viem";
+
+import {
+  type AcceptedAsset,
+  type FeedbackDetails,
+  type FeedbackRecord,
+  buildFeedbackFile,
+  computeFeedbackHash,
+  encodeFeedbackTag,
+  getAgentWallets,
+  paymentKey,
+  verifyFeedback,
+  verifyFeedbackFile,
+  verifyFeedbackPayment
+} from "../src/feedback/index.js";
+import { IdentityClient, ReputationClient } from "../src/sdk/index.js";
+
+describe("Feedback files", async function () {
+  const { viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [agentOwner, client, facilitator, wallet, tokenWallet] = await viem.getWalletClients();
+  const chainId = await publicClient.getChainId();
+
+  async function setup() {
+    const identityRegistry = await viem.deployContract("IdentityRegistry");
+    const reputationRegistry = await viem.deployContract("ReputationRegistry", [identityRegistry.address]);
+    const identity = new IdentityClient({ address: identityRegistry.address, publicClient, walletClient: agentOwner });
+    const reputation = new ReputationClient({ address: reputationRegistry.address, publicClient, walletClient: client });
+    const { agentId } = await identity.register("ipfs://agent");
+    return { identityRegistry: identityRegistry.address, identity, reputation, agentId };
+  }
+
+  // Serves stored files at https://feedback.example/<name>
+  const files = new Map<string, string>();
+  const fromFiles = (async (url: string | URL | Request) => {
+    const content = files.get(String(url));
+    return content === undefined ? new Response(null, { status: 404 }) : new Response(content);
+  }) as typeof fetch;
+  const options = { fetch: fromFiles, cacheTtlMs: 0 };
+
+  it("Should build a feedback file with the hash and tags giveFeedback commits to", async function () {
+    const { identityRegistry, reputation, agentId } = await setup();
+    const feedbackAuth = await reputation.createFeedbackAuth({ agentId, clientAddress: client.account.address }, agentOwner);
+    const txHash = keccak256(toHex("payment"));
+
+    const prepared = buildFeedbackFile({
+      agentId,
+      chainId,
+      identityRegistry,
+      clientAddress: client.account.address,
+      score: 87,
+      feedbackAuth,
+      createdAt: new Date("2025-09-23T12:00:00Z"),
+      tag1: "quality",
+      skill: "forecasting",
+      capability: "tools",
+      name: "get_forecast",
+      proofOfPayment: { fromAddress: client.account.address, toAddress: agentOwner.account.address, chainId: 1, txHash }
+    });
+    assert.deepEqual(prepared.file, {
+      agentRegistry: `eip155:${chainId}:${getAddress(identityRegistry)}`,
+      agentId: Number(agentId),
+      clientAddress: `eip155:${chainId}:${getAddress(client.account.address)}`,
+      createdAt: "2025-09-23T12:00:00.000Z",
+      feedbackAuth,
+      score: 87,
+      tag1: "quality",
+      skill: "forecasting",
+      capability: "tools",
+      name: "get_forecast",
+      proof_of_payment: {
+        fromAddress: getAddress(client.account.address),
+        toAddress: getAddress(agentOwner.account.address),
+        chainId: "1",
+        txHash
+      }
+    });
+    assert.equal(prepared.feedbackHash, keccak256(toHex(prepared.content)));
+    assert.equal(prepared.feedbackHash, computeFeedbackHash(prepared.content));
+    assert.equal(prepared.tag1, keccak256(toHex("quality")));
+    assert.equal(prepared.tag2, zeroHash);
+    assert.equal(encodeFeedbackTag(txHash.toUpperCase().replace("0X", "0x")), txHash);
+    const clientAddress = client.account.address;
+    assert.throws(
+      () => buildFeedbackFile({ agentId, chainId, identityRegistry, clientAddress, score: 101, feedbackAuth }),
+      /score must be an integer from 0 to 100/
+    );
+
+    // Offline checks against the on-chain feedback
+    const record: FeedbackRecord = {
+      agentId,
+      clientAddress: client.account.address,
+      score: 87,
+      tag1: prepared.tag1,
+      tag2: zeroHash,
+      feedbackUri: "https://feedback.example/1.json",
+      feedbackHash: prepared.feedbackHash
+    };
+    const context = { chainId, identityRegistry };
+    assert.deepEqual(verifyFeedbackFile(prepared.file, record, context), { valid: true, errors: [], warnings: [] });
+
+    const other = { ...record, agentId: agentId + 1n, score: 50, tag2: keccak256(toHex("speed")) };
+    const { errors } = verifyFeedbackFile(
+      { ...prepared.file, createdAt: "yesterday", capability: "magic", proof_of_payment: { txHash: "0x12" } },
+      other,
+      context
+    );
+    assert.deepEqual(
+      errors.map(({ path, message }) => `${path}: ${message}`),
+      [
+        `/agentId: Feedback file is for agent ${agentId}, not ${agentId + 1n}`,
+        "/createdAt: Must be an ISO 8601 date-time",
+        "/score: Score 87 does not match the on-chain 50",
+        "/tag2: Missing, but tag2 is set on-chain",
+        "/proof_of_payment/fromAddress: Must be an address",
+        "/proof_of_payment/toAddress: Must be an address",
+        "/proof_of_payment/chainId: Must be a chain id",
+        "/proof_of_payment/txHash: Must be a transaction hash",
+        "/feedbackAuth: AgentId mismatch"
+      ]
+    );
+    assert.deepEqual(verifyFeedbackFile({ score: 1 }, record, context).errors.map(({ message }) => message), [
+      'Missing required property "agentRegistry"',
+      'Missing required property "agentId"',
+      'Missing required property "clientAddress"',
+      'Missing required property "createdAt"',
+      'Missing required property "feedbackAuth"',
+      "Score 1 does not match the on-chain 87",
+      "Missing, but tag1 is set on-chain"
+    ]);
+  });
+
+  it("Should verify NewFeedback events against their fetched files", async function () {
+    const { identityRegistry, reputation, agentId } = await setup();
+    const feedbackAuth = await reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, indexLimit: 10n },
+      agentOwner,
+      "eip712"
+    );
+    const details = { agentId, chainId, identityRegistry, clientAddress: client.account.address, feedbackAuth };
+
+    const prepared = buildFeedbackFile({ ...details, score: 90, tag1: "quality", tag2: "speed" });
+    files.set("https://feedback.example/1.json", prepared.content);
+    const { event } = await reputation.giveFeedback({
+      agentId,
+      score: 90,
+      tag1: prepared.tag1,
+      tag2: prepared.tag2,
+      feedbackUri: "https://feedback.example/1.json",
+      feedbackHash: prepared.feedbackHash,
+      feedbackAuth
+    });
+    const verified = await verifyFeedback(reputation, event, options);
+    assert.deepEqual(verified.errors, []);
+    assert.deepEqual(verified.warnings, []);
+    assert.deepEqual(verified.file, prepared.file);
+
+    // The file changed after the feedback was given
+    files.set("https://feedback.example/1.json", prepared.content.replace('"score": 90', '"score": 10'));
+    const changed = await verifyFeedback(reputation, event, options);
+    assert.equal(changed.valid, false);
+    assert.match(changed.errors[0].message, /does not match feedbackHash/);
+
+    // Without a hash the file can only be checked for consistency, and a forged auth is caught
+    const forgedAuth = await reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, signerAddress: agentOwner.account.address },
+      client
+    );
+    const forgedFile = buildFeedbackFile({ ...details, score: 40, feedbackAuth: forgedAuth });
+    files.set("https://feedback.example/2.json", forgedFile.content);
+    const unhashed = await reputation.giveFeedback({
+      agentId,
+      score: 40,
+      feedbackUri: "https://feedback.example/2.json",
+      feedbackAuth
+    });
+    const forged = await verifyFeedback(reputation, unhashed.event, options);
+    assert.deepEqual(
+      forged.warnings.map(({ message }) => message),
+      ["No feedbackHash committed, so the file can change unnoticed"]
+    );
+    assert.deepEqual(forged.errors, [
+      { path: "/feedbackAuth", message: `Not signed by ${getAddress(agentOwner.account.address)}` }
+    ]);
+
+    const bare = await reputation.giveFeedback({ agentId, score: 40, feedbackAuth });
+    assert.deepEqual((await verifyFeedback(reputation, bare.event, options)).errors, [
+      { path: "", message: "Feedback has no feedbackUri" }
+    ]);
+    const missing = await reputation.giveFeedback({
+      agentId,
+      score: 40,
+      feedbackUri: "https://feedback.example/gone.json",
+      feedbackAuth
+    });
+    assert.match((await verifyFeedback(reputation, missing.event, options)).errors[0].message, /failed with HTTP 404/);
+  });
+
+  it("Should mark feedback backed by a settled payment to the agent's wallet", async function () {
+    const { identityRegistry, identity, reputation, agentId } = await setup();
+    const feedbackAuth = await reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, indexLimit: 10n },
+      agentOwner
+    );
+    const clientAddress = client.account.address;
+    const details = { agentId, chainId, identityRegistry, clientAddress, score: 95, feedbackAuth };
+    const record: FeedbackRecord = {
+      agentId,
+      clientAddress,
+      score: 95,
+      tag1: zeroHash,
+      tag2: zeroHash,
+      feedbackUri: "",
+      feedbackHash: zeroHash
+    };
+    const token = await viem.deployContract("MockERC20");
+    const accepted: AcceptedAsset[] = [
+      { asset: "native", minAmount: parseEther("0.01") },
+      { asset: token.address, minAmount: 100_000n }
+    ];
+    const options = {
+      fetch: fromFiles,
+      cacheTtlMs: 0,
+      rpc: { [chainId]: publicClient },
+      acceptedAssets: { [chainId]: accepted }
+    };
+    const fileWith = (proofOfPayment: FeedbackDetails["proofOfPayment"]) =>
+      buildFeedbackFile({ ...details, proofOfPayment }).file;
+    const check = (proofOfPayment: FeedbackDetails["proofOfPayment"]) =>
+      verifyFeedbackPayment(identity, record, fileWith(proofOfPayment), options);
+
+    // The agent is paid at its agentWallet metadata and at the wallet its registration file lists
+    await identity.setMetadata(agentId, "agentWallet", wallet.account.address);
+    const endpoint = `eip155:${chainId}:${getAddress(tokenWallet.account.address)}`;
+    files.set("https://feedback.example/agent.json", JSON.stringify({ endpoints: [{ name: "agentWallet", endpoint }] }));
+    await identity.setAgentUri(agentId, "https://feedback.example/agent.json");
+    assert.deepEqual(
+      (await getAgentWallets(identity, agentId, options)).map(({ address, source }) => `${source}:${address}`),
+      [`metadata:${getAddress(wallet.account.address)}`, `registration:${getAddress(tokenWallet.account.address)}`]
+    );
+
+    // A native transfer from the client
+    const nativeTx = await client.sendTransaction({ to: wallet.account.address, value: parseEther("0.01") });
+    const toWallet = { fromAddress: clientAddress, toAddress: wallet.account.address, chainId };
+    const native = await check({ ...toWallet, txHash: nativeTx });
+    assert.deepEqual(native.errors, []);
+    assert.equal(native.paymentBacked, true);
+    assert.equal(native.payment?.asset, "native");
+    assert.equal(native.payment?.amount, parseEther("0.01"));
+
+    // A token transfer settled by an x402 facilitator on the client's behalf
+    await token.write.mint([clientAddress, 1_000_000n]);
+    const approveTx = await token.write.approve([facilitator.account.address, 250_000n], { account: client.account });
+    const settleTx = await token.write.transferFrom([clientAddress, tokenWallet.account.address, 250_000n], {
+      account: facilitator.account
+    });
+    const toTokenWallet = { fromAddress: clientAddress, toAddress: tokenWallet.account.address, chainId };
+    const tokenPayment = await check({ ...toTokenWallet, txHash: settleTx });
+    assert.equal(tokenPayment.paymentBacked, true);
+    assert.equal(tokenPayment.payment?.asset, getAddress(token.address));
+    assert.equal(tokenPayment.payment?.amount, 250_000n);
+
+    // Too little of an accepted asset, or any amount of a token nobody vetted
+    const smallTx = await client.sendTransaction({ to: wallet.account.address, value: parseEther("0.001") });
+    const worthless = await viem.deployContract("MockERC20");
+    await worthless.write.mint([clientAddress, 10n ** 24n]);
+    const worthlessTx = await worthless.write.transfer([tokenWallet.account.address, 10n ** 24n], { account: client.account });
+
+    const failures = [
+      // Paid by someone else, or to someone else
+      [{ ...toWallet, fromAddress: facilitator.account.address, txHash: nativeTx }, "/fromAddress"],
+      [{ ...toWallet, toAddress: facilitator.account.address, txHash: nativeTx }, "/toAddress"],
+      // The registration file's wallet is only valid on its own chain
+      [{ ...toTokenWallet, chainId: 1, txHash: settleTx }, "/toAddress"],
+      [{ ...toWallet, chainId: 1, txHash: nativeTx }, "/chainId"],
+      [{ ...toWallet, txHash: zeroHash }, "/txHash"],
+      // The approval moved no funds
+      [{ ...toTokenWallet, txHash: approveTx }, "/txHash"],
+      [{ ...toWallet, txHash: smallTx }, "/txHash"],
+      [{ ...toTokenWallet, txHash: worthlessTx }, "/txHash"]
+    ] as const;
+    for (const [proofOfPayment, path] of failures) {
+      const result = await check(proofOfPayment);
+      assert.equal(result.paymentBacked, false);
+      assert.deepEqual(result.errors.map((issue) => issue.path), [`/proof_of_payment${path}`]);
+    }
+    assert.deepEqual(
+      (await verifyFeedbackPayment(identity, record, {}, options)).errors,
+      [{ path: "/proof_of_payment", message: "Missing" }]
+    );
+
+    // A shared spentPayments set lets each payment back one entry
+    const spentPayments = new Set<string>();
+    const nativeFile = fileWith({ ...toWallet, txHash: nativeTx });
+    assert.equal((await verifyFeedbackPayment(identity, record, nativeFile, { ...options, spentPayments })).paymentBacked, true);
+    assert.deepEqual([...spentPayments], [paymentKey(chainId, nativeTx)]);
+    assert.deepEqual((await verifyFeedbackPayment(identity, record, nativeFile, { ...options, spentPayments })).errors, [
+      { path: "/proof_of_payment/txHash", message: "Payment already backs other feedback" }
+    ]);
+
+    // Nothing is accepted on a chain without an allowlist, and RPC failures are reported, not thrown
+    const noAssets = await verifyFeedbackPayment(identity, record, nativeFile, { ...options, acceptedAssets: {} });
+    assert.deepEqual(noAssets.errors.map((issue) => issue.path), ["/proof_of_payment/chainId"]);
+    const down = createPublicClient({
+      transport: custom({
+        request: async () => {
+          throw new Error("connection refused");
+        }
+      })
+    });
+    const offline = await verifyFeedbackPayment(identity, record, nativeFile, { ...options, rpc: { [chainId]: down } });
+    assert.equal(offline.paymentBacked, false);
+    assert.equal(offline.errors[0].path, "/proof_of_payment/txHash");
+    assert.match(offline.errors[0].message, new RegExp(`RPC for chain ${chainId} failed`));
+  });
+});
@@ -0,0 +1,344 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { type EIP1193RequestFn, createPublicClient, custom, getAddress, keccak256, toHex } from "viem";
+
+import { ERC8004Indexer, IndexerStore } from "../src/indexer/index.js";
+import { ZERO_BYTES32, createERC8004Clients } from "../src/sdk/index.js";
+
+describe("ERC8004 Indexer", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+
+  async function setup() {
+    const [agentOwner, client, validator] = await viem.getWalletClients();
+    const identityRegistry = await viem.deployContract("IdentityRegistry");
+    const reputationRegistry = await viem.deployContract("ReputationRegistry", [identityRegistry.address]);
+    const validationRegistry = await viem.deployContract("ValidationRegistry", [identityRegistry.address]);
+    const addresses = {
+      identityRegistry: identityRegistry.address,
+      reputationRegistry: reputationRegistry.address,
+      validationRegistry: validationRegistry.address
+    };
+    const startBlock = await publicClient.getBlockNumber();
+    const owned = createERC8004Clients(addresses, publicClient, agentOwner);
+    const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+    const validation = createERC8004Clients(addresses, publicClient, validator).validation;
+    return { agentOwner, client, validator, addresses, startBlock, ...owned, reputation, validation, owned };
+  }
+
+  it("Should materialize agents, metadata, feedback, responses and validations", async function () {
+    const { agentOwner, client, validator, addresses, startBlock, identity, reputation, validation, owned } =
+      await setup();
+
+    const { agentId } = await identity.register("ipfs://agent", [{ key: "agentWallet", value: "0x1234" }]);
+    await identity.register("ipfs://second");
+    await identity.setAgentUri(agentId, "ipfs://agent-v2");
+    await identity.setMetadata(agentId, "agentWallet", "0xabcd");
+
+    const feedbackAuth = await owned.reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, indexLimit: 10n },
+      agentOwner
+    );
+    const feedbackHash = keccak256(toHex("feedback file"));
+    await reputation.giveFeedback({ agentId, score: 80, feedbackUri: "ipfs://f1", feedbackHash, feedbackAuth });
+    await reputation.giveFeedback({ agentId, score: 60, feedbackUri: "ipfs://f2", feedbackAuth });
+    await reputation.revokeFeedback(agentId, 2n);
+    await owned.reputation.appendResponse(agentId, client.account.address, 1n, "ipfs://r1");
+    await reputation.giveFeedback({ agentId, score: 40, feedbackUri: "ipfs://f3", feedbackAuth });
+    await reputation.amendFeedback({
+      agentId,
+      feedbackIndex: 3n,
+      score: 70,
+      feedbackUri: "ipfs://f3-v2",
+      feedbackAuth
+    });
+    const disputeHash = keccak256(toHex("dispute"));
+    await owned.reputation.disputeFeedback(agentId, client.account.address, 1n, "ipfs://d1", disputeHash);
+    await owned.reputation.disputeFeedback(agentId, client.account.address, 4n, "ipfs://d4");
+    await owned.reputation.withdrawDispute(agentId, client.account.address, 4n);
+
+    const requestHash = keccak256(toHex("request"));
+    await owned.validation.validationRequest(validator.account.address, agentId, "ipfs://req", requestHash);
+    await validation.validationResponse(requestHash, 95, "ipfs://resp", keccak256(toHex("resp")));
+    const withdrawnHash = keccak256(toHex("withdrawn"));
+    await owned.validation.validationRequest(validator.account.address, agentId, "ipfs://withdrawn", withdrawnHash);
+    await owned.validation.cancelValidationRequest(withdrawnHash);
+
+    // Small batches exercise the chunked scan and per-chunk checkpoints
+    const store = new IndexerStore();
+    const indexer = new ERC8004Indexer({ publicClient, addresses, store, startBlock, batchSize: 3n });
+    const result = await indexer.sync();
+    const head = await publicClient.getBlockNumber();
+    assert.equal(result.fromBlock, startBlock);
+    assert.equal(result.toBlock, head);
+    assert.equal(result.events, store.countEvents());
+    assert.equal(store.getCheckpoint()!.blockNumber, head);
+
+    assert.deepEqual(
+      store.getAgents().map((agent) => [agent.agentId, agent.tokenUri]),
+      [[agentId, "ipfs://agent-v2"], [agentId + 1n, "ipfs://second"]]
+    );
+    assert.equal(store.getAgent(agentId)!.owner, getAddress(agentOwner.account.address));
+    assert.deepEqual(
+      store.getMetadata(agentId).map(({ key, value }) => ({ key, value })),
+      [{ key: "agentWallet", value: "0xabcd" }]
+    );
+
+    const active = store.getFeedback(agentId);
+    assert.equal(active.length, 2);
+    assert.equal(active[0].feedbackIndex, 1n);
+    assert.equal(active[0].feedbackUri, "ipfs://f1");
+    assert.equal(active[0].feedbackHash, feedbackHash);
+    assert.deepEqual([active[1].feedbackIndex, active[1].previousIndex, active[1].feedbackUri], [4n, 3n, "ipfs://f3-v2"]);
+    assert.deepEqual([active[0].isDisputed, active[0].disputeUri, active[0].disputeHash], [true, "ipfs://d1", disputeHash]);
+    assert.deepEqual([active[1].isDisputed, active[1].disputeUri], [false, ""]);
+    assert.deepEqual(
+      store.getFeedback(agentId, { excludeDisputed: true }).map(({ feedbackIndex }) => feedbackIndex),
+      [4n]
+    );
+
+    const all = store.getFeedback(agentId, {
+      clientAddress: client.account.address,
+      includeRevoked: true,
+      includeSuperseded: true
+    });
+    assert.deepEqual(
+      all.map((feedback) => [feedback.feedbackIndex, feedback.score, feedback.isRevoked, feedback.supersededBy]),
+      [[1n, 80, false, 0n], [2n, 60, true, 0n], [3n, 40, false, 4n], [4n, 70, false, 0n]]
+    );
+
+    const responses = store.getResponses(agentId, client.account.address, 1n);
+    assert.equal(responses.length, 1);
+    assert.equal(responses[0].responseUri, "ipfs://r1");
+    assert.equal(responses[0].responder, getAddress(agentOwner.account.address));
+
+    const validationRecord = store.getValidation(requestHash)!;
+    assert.equal(validationRecord.requestUri, "ipfs://req");
+    assert.equal(validationRecord.responseUri, "ipfs://resp");
+    assert.equal(validationRecord.response, 95);
+    assert.equal(validationRecord.hasResponse, true);
+    assert.deepEqual(store.getValidatorRequests(validator.account.address), [validationRecord]);
+    assert.equal(store.getValidation(withdrawnHash)!.isCancelled, true);
+    assert.deepEqual(store.getAgentValidations(agentId), [validationRecord]);
+
+    // Materialized state agrees with the contracts
+    assert.equal(await identity.getAgentUri(agentId), store.getAgent(agentId)!.tokenUri);
+    assert.equal(await reputation.getLastIndex(agentId, client.account.address), BigInt(all.length));
+    store.close();
+  });
+
+  it("Should resume from a persisted checkpoint", async function () {
+    const { agentOwner, client, addresses, startBlock, identity, reputation, owned } = await setup();
+    const dir = mkdtempSync(join(tmpdir(), "erc8004-indexer-"));
+    const path = join(dir, "index.db");
+
+    try {
+      const { agentId } = await identity.register("ipfs://agent");
+      let store = new IndexerStore(path);
+      const first = await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+      assert.equal(first.events, 2); // Transfer + Registered
+      store.close();
+
+      const feedbackAuth = await owned.reputation.createFeedbackAuth(
+        { agentId, clientAddress: client.account.address },
+        agentOwner
+      );
+      await reputation.giveFeedback({ agentId, score: 70, feedbackAuth });
+
+      store = new IndexerStore(path);
+      const second = await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+      assert.equal(second.fromBlock, first.toBlock + 1n);
+      assert.equal(second.events, 1);
+      assert.equal(store.getFeedback(agentId).length, 1);
+
+      // Nothing new: an empty range
+      const third = await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+      assert.equal(third.events, 0);
+
+      assert.throws(
+        () => new ERC8004Indexer({ publicClient, addresses: { ...addresses, validationRegistry: client.account.address }, store }),
+        /Store was indexed for different registries/
+      );
+      store.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should rebuild the derived tables of a store written with an older schema", async function () {
+    const { agentOwner, client, validator, addresses, startBlock, identity, reputation, owned } = await setup();
+    const dir = mkdtempSync(join(tmpdir(), "erc8004-indexer-"));
+    const path = join(dir, "index.db");
+
+    try {
+      const { agentId } = await identity.register("ipfs://agent");
+      const feedbackAuth = await owned.reputation.createFeedbackAuth(
+        { agentId, clientAddress: client.account.address, indexLimit: 2n },
+        agentOwner
+      );
+      await reputation.giveFeedback({ agentId, score: 40, feedbackAuth });
+      await reputation.amendFeedback({ agentId, feedbackIndex: 1n, score: 70, feedbackAuth });
+      await owned.reputation.disputeFeedback(agentId, client.account.address, 2n, "ipfs://dispute");
+      const requestHash = keccak256(toHex("request"));
+      await owned.validation.validationRequest(validator.account.address, agentId, "ipfs://req", requestHash);
+      await owned.validation.cancelValidationRequest(requestHash);
+
+      let store = new IndexerStore(path);
+      const first = await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+      store.close();
+
+      // A file from before amendments, disputes and cancellations: same events, fewer columns
+      const db = new DatabaseSync(path);
+      for (const column of ["previous_index", "superseded_by", "is_disputed", "dispute_uri", "dispute_hash"]) {
+        db.exec(`ALTER TABLE feedback DROP COLUMN ${column}`);
+      }
+      db.exec("ALTER TABLE validations DROP COLUMN is_cancelled");
+      db.exec("DELETE FROM sync_state WHERE key = 'schema_version'");
+      db.close();
+
+      store = new IndexerStore(path);
+      const [original, amendment] = store.getFeedback(agentId, { includeRevoked: true, includeSuperseded: true });
+      assert.equal(original.supersededBy, 2n);
+      assert.equal(amendment.previousIndex, 1n);
+      assert.equal(amendment.score, 70);
+      assert.equal(amendment.isDisputed, true);
+      assert.equal(amendment.disputeUri, "ipfs://dispute");
+      assert.equal(store.getValidation(requestHash)!.isCancelled, true);
+      assert.equal(store.countEvents(), first.events);
+
+      // The checkpoint survives, so syncing continues where the old store stopped
+      const nextHash = keccak256(toHex("request 2"));
+      await owned.validation.validationRequest(validator.account.address, agentId, "ipfs://req-2", nextHash);
+      const second = await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+      assert.equal(second.fromBlock, first.toBlock + 1n);
+      assert.equal(second.events, 1);
+      store.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should roll back orphaned blocks and re-index the canonical chain after a reorg", async function () {
+    const { agentOwner, client, addresses, startBlock, identity, reputation, owned } = await setup();
+    const { agentId } = await identity.register("ipfs://agent");
+    const feedbackAuth = await owned.reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, indexLimit: 10n },
+      agentOwner
+    );
+
+    const store = new IndexerStore();
+    const indexer = new ERC8004Indexer({ publicClient, addresses, store, startBlock });
+    await indexer.sync();
+    const forkPoint = store.getCheckpoint()!.blockNumber;
+
+    const snapshot = await networkHelpers.takeSnapshot();
+    await reputation.giveFeedback({ agentId, score: 10, feedbackUri: "ipfs://orphaned", feedbackAuth });
+    await identity.setAgentUri(agentId, "ipfs://orphaned");
+    await indexer.sync();
+    assert.equal(store.getFeedback(agentId)[0].feedbackUri, "ipfs://orphaned");
+
+    // Replace the last two blocks with a longer, different branch
+    await snapshot.restore();
+    await networkHelpers.mine(1);
+    await reputation.giveFeedback({ agentId, score: 90, feedbackUri: "ipfs://canonical", feedbackAuth });
+    await networkHelpers.mine(2);
+
+    const result = await indexer.sync();
+    assert.equal(result.reorgAncestor, forkPoint);
+    assert.equal(result.fromBlock, forkPoint + 1n);
+    assert.equal(result.events, 1);
+
+    const feedback = store.getFeedback(agentId);
+    assert.equal(feedback.length, 1);
+    assert.equal(feedback[0].feedbackIndex, 1n);
+    assert.equal(feedback[0].feedbackUri, "ipfs://canonical");
+    assert.equal(store.getAgent(agentId)!.tokenUri, "ipfs://agent");
+    assert.equal(store.getCheckpoint()!.blockNumber, await publicClient.getBlockNumber());
+    store.close();
+  });
+
+  it("Should take feedback indexes from the registry when scanning starts after earlier feedback", async function () {
+    const { agentOwner, client, addresses, identity, reputation, owned } = await setup();
+    const { agentId } = await identity.register("ipfs://agent");
+    const feedbackAuth = await owned.reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, indexLimit: 10n },
+      agentOwner
+    );
+    await reputation.giveFeedback({ agentId, score: 10, feedbackAuth });
+    const startBlock = (await publicClient.getBlockNumber()) + 1n;
+
+    // Two feedback entries from the same client in one block
+    const testClient = await viem.getTestClient();
+    const registry = await viem.getContractAt("ReputationRegistry", addresses.reputationRegistry);
+    await testClient.setAutomine(false);
+    try {
+      for (const score of [20, 30]) {
+        await registry.write.giveFeedback(
+          [agentId, score, ZERO_BYTES32, ZERO_BYTES32, "", ZERO_BYTES32, feedbackAuth],
+          { account: client.account }
+        );
+      }
+      await networkHelpers.mine(1);
+    } finally {
+      await testClient.setAutomine(true);
+    }
+    await reputation.giveFeedback({ agentId, score: 40, feedbackAuth });
+
+    const store = new IndexerStore();
+    await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+    assert.deepEqual(
+      store.getFeedback(agentId).map(({ feedbackIndex, score }) => [feedbackIndex, score]),
+      [[2n, 20], [3n, 30], [4n, 40]]
+    );
+    await reputation.revokeFeedback(agentId, 3n);
+    await new ERC8004Indexer({ publicClient, addresses, store }).sync();
+    assert.deepEqual(store.getFeedback(agentId).map(({ score }) => score), [20, 40]);
+    store.close();
+  });
+
+  it("Should discard a chunk whose blocks were reorganized while it was fetched", async function () {
+    const { agentOwner, client, addresses, startBlock, identity, reputation, owned } = await setup();
+    const { agentId } = await identity.register("ipfs://agent");
+    const feedbackAuth = await owned.reputation.createFeedbackAuth(
+      { agentId, clientAddress: client.account.address, indexLimit: 10n },
+      agentOwner
+    );
+    const store = new IndexerStore();
+    await new ERC8004Indexer({ publicClient, addresses, store, startBlock }).sync();
+    const forkPoint = store.getCheckpoint()!.blockNumber;
+
+    const snapshot = await networkHelpers.takeSnapshot();
+    await reputation.giveFeedback({ agentId, score: 10, feedbackUri: "ipfs://orphaned", feedbackAuth });
+    await networkHelpers.mine(1);
+
+    // The node switches to another branch between reading the chunk's last block and its logs
+    let reorged = false;
+    const request = (async (args) => {
+      if (args.method === "eth_getLogs" && !reorged) {
+        reorged = true;
+        await snapshot.restore();
+        await reputation.giveFeedback({ agentId, score: 90, feedbackUri: "ipfs://canonical", feedbackAuth });
+        await networkHelpers.mine(2);
+      }
+      return publicClient.request(args as Parameters<typeof publicClient.request>[0]);
+    }) as EIP1193RequestFn;
+    const switching = createPublicClient({ chain: publicClient.chain, transport: custom({ request }) });
+
+    const indexer = new ERC8004Indexer({ publicClient: switching, addresses, store, startBlock });
+    const head = forkPoint + 2n;
+    const result = await indexer.sync(head);
+    assert.ok(reorged);
+    assert.equal(result.fromBlock, forkPoint + 1n);
+    assert.equal(result.events, 1);
+    const feedback = store.getFeedback(agentId);
+    assert.equal(feedback.length, 1);
+    assert.equal(feedback[0].feedbackUri, "ipfs://canonical");
+    assert.equal(store.getCheckpoint()!.blockHash, (await publicClient.getBlock({ blockNumber: head })).hash);
+    store.close();
+  });
+});
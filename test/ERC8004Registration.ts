@@ -0,0 +1,493 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { network } from "hardhat";
+import { getAddress, keccak256, toHex, zeroHash } from "viem";
+
+import {
+  type AgentRegistrationFile,
+  LocalDirectoryStorage,
+  LocalIpfsStorage,
+  REGISTRATION_FILE_TYPE,
+  TokenUriResolver,
+  buildRegistrationFile,
+  computeRawCid,
+  fetchRegistrationFile,
+  formatAgentRegistry,
+  hashTokenUriContent,
+  parseCaip10,
+  publishAndRegister,
+  validateAgentRegistration,
+  validateRegistrationFile
+} from "../src/registration/index.js";
+import { IdentityClient } from "../src/sdk/index.js";
+
+describe("Agent registration files", async function () {
+  const { viem } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+  const [owner] = await viem.getWalletClients();
+
+  const registry = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+  function registrationFile(overrides: Partial<AgentRegistrationFile> = {}): AgentRegistrationFile {
+    return {
+      type: REGISTRATION_FILE_TYPE,
+      name: "myAgentName",
+      description: "A natural language description of the agent",
+      image: "https://example.com/agentimage.png",
+      endpoints: [
+        { name: "A2A", endpoint: "https://agent.example/.well-known/agent-card.json", version: "0.3.0" },
+        { name: "MCP", endpoint: "https://mcp.agent.eth/", version: "2025-06-18" },
+        { name: "OASF", endpoint: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi", version: "0.7" },
+        { name: "ENS", endpoint: "vitalik.eth", version: "v1" },
+        { name: "DID", endpoint: "did:method:foobar", version: "v1" },
+        { name: "agentWallet", endpoint: "eip155:1:0x742d35Cc6634C0532925a3b844Bc454e4438f44e" }
+      ],
+      registrations: [{ agentId: 22, agentRegistry: `eip155:1:${registry}` }],
+      supportedTrust: ["reputation", "crypto-economic", "tee-attestation"],
+      ...overrides
+    };
+  }
+
+  const toDataUri = (file: unknown) =>
+    `data:application/json;base64,${Buffer.from(JSON.stringify(file)).toString("base64")}`;
+  const paths = (issues: { path: string }[]) => issues.map((issue) => issue.path);
+
+  it("Should accept the spec's example registration file", async function () {
+    const result = validateRegistrationFile(registrationFile());
+    assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+
+    // Extra top-level and endpoint fields are allowed
+    const extended = registrationFile({ homepage: "https://agent.example" });
+    extended.endpoints[0].capabilities = ["tasks"];
+    assert.equal(validateRegistrationFile(extended).valid, true);
+  });
+
+  it("Should report schema violations with JSON pointers", async function () {
+    const { image: _image, ...withoutImage } = registrationFile();
+    assert.deepEqual(paths(validateRegistrationFile(withoutImage).errors), ["/image"]);
+
+    const result = validateRegistrationFile({
+      ...registrationFile(),
+      type: "registration-v1",
+      name: "",
+      endpoints: [{ name: "A2A" }],
+      registrations: [{ agentId: "22", agentRegistry: `eip155:1:${registry}`, owner: "me" }],
+      supportedTrust: ["reputation", "reputation"]
+    });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [
+      { path: "/type", message: `Must be "${REGISTRATION_FILE_TYPE}"` },
+      { path: "/name", message: "Must not be empty" },
+      { path: "/endpoints/0/endpoint", message: "Is required" },
+      { path: "/registrations/0/agentId", message: "Must be an integer" },
+      { path: "/registrations/0/owner", message: "Is not allowed" },
+      { path: "/supportedTrust", message: "Must not contain duplicates" }
+    ]);
+
+    // A file rendered before registration has no entry yet
+    assert.equal(validateRegistrationFile(registrationFile({ registrations: [] })).valid, true);
+    assert.deepEqual(validateRegistrationFile([]).errors, [{ path: "", message: "Must be an object" }]);
+  });
+
+  it("Should check CAIP-10 addresses, endpoint formats and registrations", async function () {
+    assert.deepEqual(parseCaip10(`eip155:296:${registry.toLowerCase()}`), { chainId: 296, address: getAddress(registry) });
+    assert.equal(parseCaip10("eip155:1:0x742d35Cc6634C0532925a3b844Bc454e4438F44E"), undefined); // bad checksum
+    assert.equal(parseCaip10(`solana:1:${registry}`), undefined);
+    assert.equal(parseCaip10(`eip155:01:${registry}`), undefined);
+    assert.equal(formatAgentRegistry(1, registry.toLowerCase() as `0x${string}`), `eip155:1:${registry}`);
+
+    const file = registrationFile({
+      registrations: [
+        { agentId: 22, agentRegistry: `eip155:1:${registry}` },
+        { agentId: 22, agentRegistry: `eip155:1:${registry.toLowerCase()}` },
+        { agentId: 23, agentRegistry: `eip155:1:${registry}` },
+        { agentId: 1, agentRegistry: "eip155:1:0x742d35Cc6634C0532925a3b844Bc454e4438F44E" }
+      ],
+      supportedTrust: ["reputation", "zk-proof"]
+    });
+    file.endpoints[0].endpoint = "agent.example";
+    file.endpoints[4].endpoint = "did-foobar";
+    file.endpoints[5].endpoint = "eip155:1:0x742d35Cc6634C0532925a3b844Bc454e4438F44E";
+
+    const result = validateRegistrationFile(file);
+    assert.deepEqual(result.errors.map(({ path, message }) => [path, message]), [
+      ["/endpoints/0/endpoint", "A2A endpoint must be an http(s) URL"],
+      ["/endpoints/4/endpoint", `"did-foobar" is not a DID`],
+      ["/endpoints/5/endpoint", `"eip155:1:0x742d35Cc6634C0532925a3b844Bc454e4438F44E" is not a valid eip155 CAIP-10 address`],
+      ["/registrations/1/agentRegistry", `Duplicate registration in eip155:1:${registry}`],
+      ["/registrations/2/agentRegistry", `Several agentIds registered in eip155:1:${registry}`],
+      ["/registrations/3/agentRegistry", `"eip155:1:0x742d35Cc6634C0532925a3b844Bc454e4438F44E" is not a valid eip155 CAIP-10 address`]
+    ]);
+    assert.deepEqual(result.warnings, [{ path: "/supportedTrust/1", message: `Unknown trust model "zk-proof"` }]);
+  });
+
+  it("Should validate the file behind an agent's tokenURI against the token", async function () {
+    const identityRegistry = await viem.deployContract("IdentityRegistry");
+    const identity = new IdentityClient({ address: identityRegistry.address, publicClient, walletClient: owner });
+    const chainId = await publicClient.getChainId();
+    const agentRegistry = formatAgentRegistry(chainId, identityRegistry.address);
+
+    // Agent 0 registers first, then points its tokenURI at a file naming itself
+    const { agentId } = await identity.register();
+    assert.deepEqual(await validateAgentRegistration(identity, agentId), {
+      tokenUri: "",
+      valid: false,
+      errors: [{ path: "", message: "Agent 0 has no tokenURI" }],
+      warnings: []
+    });
+    const file = registrationFile({ registrations: [{ agentId: Number(agentId), agentRegistry }] });
+    await identity.setAgentUri(agentId, toDataUri(file));
+    const result = await validateAgentRegistration(identity, agentId);
+    assert.equal(result.valid, true, JSON.stringify(result.errors));
+
+    // A file copied from another agent, or from another registry, does not describe this token
+    const { agentId: otherId } = await identity.register(toDataUri(file));
+    assert.deepEqual((await validateAgentRegistration(identity, otherId)).errors, [
+      { path: "/registrations/0/agentId", message: `Registered as agent 0 in ${agentRegistry}, token is agent 1` }
+    ]);
+    const elsewhere = registrationFile({ registrations: [{ agentId: 1, agentRegistry: `eip155:1:${identityRegistry.address}` }] });
+    await identity.setAgentUri(otherId, `data:application/json,${encodeURIComponent(JSON.stringify(elsewhere))}`);
+    assert.deepEqual((await validateAgentRegistration(identity, otherId)).errors, [
+      { path: "/registrations", message: `No registration for ${agentRegistry}` }
+    ]);
+
+    // ipfs:// goes through the configured gateway; fetch failures become errors
+    const requested: string[] = [];
+    const fetchStub = async (url: string | URL | Request) => {
+      requested.push(String(url));
+      return new Response(JSON.stringify(file), { status: String(url).includes("missing") ? 404 : 200 });
+    };
+    await identity.setAgentUri(agentId, "ipfs://bafyagent/registration.json");
+    const viaIpfs = await validateAgentRegistration(identity, agentId, {
+      ipfsGateways: ["https://gateway.example/"],
+      fetch: fetchStub as typeof fetch
+    });
+    assert.equal(viaIpfs.valid, true);
+    assert.deepEqual(requested, ["https://gateway.example/ipfs/bafyagent/registration.json"]);
+
+    await identity.setAgentUri(agentId, "https://agent.example/missing.json");
+    assert.deepEqual((await validateAgentRegistration(identity, agentId, { fetch: fetchStub as typeof fetch })).errors, [
+      { path: "", message: "Fetching https://agent.example/missing.json failed with HTTP 404" }
+    ]);
+
+    await assert.rejects(fetchRegistrationFile("ftp://agent.example/a.json"), /Unsupported tokenURI scheme: ftp:\/\/agent/);
+    await assert.rejects(fetchRegistrationFile("data:application/json,{oops"), /data: URI is not valid JSON/);
+  });
+
+  it("Should render registration files from agent details", async function () {
+    const wallet = "0x742d35cc6634c0532925a3b844bc454e4438f44e";
+    const file = buildRegistrationFile({
+      name: "myAgentName",
+      description: "A natural language description of the agent",
+      image: "https://example.com/agentimage.png",
+      a2a: { endpoint: "https://agent.example/.well-known/agent-card.json", version: "0.3.0" },
+      mcp: "https://mcp.agent.eth/",
+      ens: "vitalik.eth",
+      did: "did:method:foobar",
+      wallet: { chainId: 1, address: wallet },
+      endpoints: [{ name: "custom", endpoint: "https://agent.example/custom" }],
+      supportedTrust: ["reputation"]
+    });
+    assert.deepEqual(file, {
+      type: REGISTRATION_FILE_TYPE,
+      name: "myAgentName",
+      description: "A natural language description of the agent",
+      image: "https://example.com/agentimage.png",
+      endpoints: [
+        { name: "A2A", endpoint: "https://agent.example/.well-known/agent-card.json", version: "0.3.0" },
+        { name: "MCP", endpoint: "https://mcp.agent.eth/" },
+        { name: "ENS", endpoint: "vitalik.eth" },
+        { name: "DID", endpoint: "did:method:foobar" },
+        { name: "agentWallet", endpoint: `eip155:1:${getAddress(wallet)}` },
+        { name: "custom", endpoint: "https://agent.example/custom" }
+      ],
+      registrations: [],
+      supportedTrust: ["reputation"]
+    });
+
+    assert.throws(
+      () => buildRegistrationFile({ name: "", description: "d", image: "i", a2a: "agent.example" }),
+      /Invalid registration file:\n  \/name: Must not be empty\n  \/endpoints\/0\/endpoint: A2A endpoint must be an http\(s\) URL/
+    );
+  });
+
+  it("Should store files in a directory or content-addressed like IPFS", async function () {
+    const dir = mkdtempSync(join(tmpdir(), "erc8004-registration-"));
+    try {
+      const served = new LocalDirectoryStorage(join(dir, "served"), "https://agents.example/registrations/");
+      assert.equal(await served.put("agent.json", "{}"), "https://agents.example/registrations/agent.json");
+      assert.equal(await served.get("https://agents.example/registrations/agent.json"), "{}");
+
+      const local = new LocalDirectoryStorage(join(dir, "local"));
+      const uri = await local.put("agent.json", "{\"v\":1}");
+      assert.match(uri, /^file:\/\/.*\/local\/agent\.json$/);
+      assert.equal(await local.put("agent.json", "{\"v\":2}"), uri);
+      assert.equal(await local.get(uri), "{\"v\":2}");
+
+      // CIDs match `ipfs add --cid-version 1 --raw-leaves`
+      assert.equal(computeRawCid(Buffer.from("hello world")), "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e");
+      const ipfs = new LocalIpfsStorage(join(dir, "ipfs"));
+      const first = await ipfs.put("agent.json", "{\"v\":1}");
+      const second = await ipfs.put("agent.json", "{\"v\":2}");
+      assert.notEqual(first, second);
+      assert.equal(first, `ipfs://${computeRawCid(Buffer.from("{\"v\":1}"))}`);
+      assert.equal(await ipfs.get(first), "{\"v\":1}");
+      await assert.rejects(ipfs.get("ipfs://Qm"), /not a CIDv1 URI/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should publish, register and point the tokenURI at the file naming the new agent", async function () {
+    const identityRegistry = await viem.deployContract("IdentityRegistry");
+    const identity = new IdentityClient({ address: identityRegistry.address, publicClient, walletClient: owner });
+    const agentRegistry = formatAgentRegistry(await publicClient.getChainId(), identityRegistry.address);
+    const details = {
+      name: "Weather Agent",
+      description: "Forecasts on demand",
+      image: "https://example.com/weather.png",
+      a2a: "https://weather.example/.well-known/agent-card.json",
+      supportedTrust: ["reputation"]
+    };
+    await identity.register(); // agent 0, so the new agent's id is not the default
+
+    const dir = mkdtempSync(join(tmpdir(), "erc8004-publish-"));
+    try {
+      const ipfs = new LocalIpfsStorage(join(dir, "ipfs"));
+      const published = await publishAndRegister({
+        identity,
+        storage: ipfs,
+        details,
+        metadata: [{ key: "agentWallet", value: owner.account.address }]
+      });
+      assert.equal(published.agentId, 1n);
+      assert.deepEqual(published.file.registrations, [{ agentId: 1, agentRegistry }]);
+      assert.deepEqual(published.registration.metadata.map(({ key }) => key), ["agentWallet"]);
+      const draft = JSON.stringify({ ...published.file, registrations: [] }, null, 2) + "\n";
+      assert.equal(published.registration.event.tokenUri, `ipfs://${computeRawCid(Buffer.from(draft))}`);
+      assert.ok(published.uriUpdateHash);
+      assert.equal(await identity.getAgentUri(1n), published.tokenUri);
+      assert.equal(readdirSync(join(dir, "ipfs")).length, 2);
+
+      // The registered tokenURI resolves to a file that validates against the token
+      const fromStorage = async (url: string | URL | Request) =>
+        new Response(await ipfs.get(`ipfs://${String(url).split("/ipfs/")[1]}`));
+      const result = await validateAgentRegistration(identity, 1n, { fetch: fromStorage as typeof fetch });
+      assert.deepEqual(result.errors, []);
+
+      // A directory keeps the file name, so the URI registered first already points at the final file
+      const directory = new LocalDirectoryStorage(join(dir, "directory"), "https://agents.example");
+      const second = await publishAndRegister({ identity, storage: directory, details });
+      assert.equal(second.tokenUri, "https://agents.example/weather-agent.json");
+      assert.equal(second.uriUpdateHash, undefined);
+      assert.deepEqual(
+        JSON.parse(readFileSync(join(dir, "directory", "weather-agent.json"), "utf8")).registrations,
+        [{ agentId: 2, agentRegistry }]
+      );
+
+      // file:// URIs only resolve here: fine on this local chain, refused on any other
+      const local = new LocalDirectoryStorage(join(dir, "local"));
+      assert.match((await publishAndRegister({ identity, storage: local, details })).tokenUri, /^file:\/\//);
+      const { viem: remote } = await network.connect({ override: { chainId: 296 } });
+      const [remoteOwner] = await remote.getWalletClients();
+      const remoteRegistry = await remote.deployContract("IdentityRegistry");
+      const remoteIdentity = new IdentityClient({
+        address: remoteRegistry.address,
+        publicClient: await remote.getPublicClient(),
+        walletClient: remoteOwner
+      });
+      await assert.rejects(
+        publishAndRegister({ identity: remoteIdentity, storage: local, details }),
+        /only resolves on this machine; publish to storage with a public URI for chain 296/
+      );
+      assert.equal(await remoteRegistry.read.balanceOf([remoteOwner.account.address]), 0n);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should commit the file hash and flag files changed behind the tokenURI", async function () {
+    const identityRegistry = await viem.deployContract("IdentityRegistry");
+    const identity = new IdentityClient({ address: identityRegistry.address, publicClient, walletClient: owner });
+    const details = { name: "Hashed Agent", description: "Served from a mutable host", image: "https://example.com/a.png" };
+
+    const dir = mkdtempSync(join(tmpdir(), "erc8004-hash-"));
+    try {
+      const storage = new LocalDirectoryStorage(dir, "https://agents.example");
+      const published = await publishAndRegister({ identity, storage, details, commitHash: true });
+
+      // The URI stays the same but the final file's hash still gets committed
+      const path = join(dir, "hashed-agent.json");
+      const draft = JSON.stringify({ ...published.file, registrations: [] }, null, 2) + "\n";
+      assert.equal(published.registration.uriHash?.uriHash, hashTokenUriContent(draft));
+      assert.ok(published.uriUpdateHash);
+      assert.equal(published.uriHash, keccak256(readFileSync(path)));
+      assert.equal(await identity.getUriHash(published.agentId), published.uriHash);
+
+      const fromDir = async () => new Response(readFileSync(path));
+      const options = { fetch: fromDir as unknown as typeof fetch, cacheTtlMs: 0 };
+      assert.deepEqual((await validateAgentRegistration(identity, published.agentId, options)).errors, []);
+
+      // A still schema-valid file swapped in behind the same URL no longer matches
+      writeFileSync(path, JSON.stringify({ ...published.file, description: "Replaced" }));
+      const tampered = await validateAgentRegistration(identity, published.agentId, options);
+      assert.equal(tampered.valid, false);
+      assert.match(tampered.errors[0].message, /does not match its committed hash/);
+
+      // Setting the URI without a hash clears the commitment
+      const cleared = await identity.setAgentUri(published.agentId, published.tokenUri);
+      assert.equal(cleared.uriHash?.uriHash, zeroHash);
+      assert.deepEqual((await validateAgentRegistration(identity, published.agentId, options)).errors, []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("TokenURI resolver", async function () {
+  const file = { type: REGISTRATION_FILE_TYPE, name: "agent" };
+  const json = JSON.stringify(file);
+  const hits = new Map<string, number>();
+  let mutable = json;
+  const dir = mkdtempSync(join(tmpdir(), "erc8004-resolver-"));
+  const ipfs = new LocalIpfsStorage(dir);
+  const cid = (await ipfs.put("agent.json", json)).slice("ipfs://".length);
+
+  // One server plays the agent's web host, a working IPFS/Arweave gateway, a failing one and a stalled one
+  const server = createServer((request, response) => {
+    const path = request.url!;
+    hits.set(path, (hits.get(path) ?? 0) + 1);
+    if (path === "/agent.json" || path === "/gateway/arweave-tx") {
+      response.writeHead(200, { "content-type": "application/json" }).end(json);
+    } else if (path.startsWith("/gateway/ipfs/")) {
+      ipfs.get(`ipfs://${path.slice("/gateway/ipfs/".length)}`).then(
+        (content) => response.writeHead(200, { "content-type": "application/json" }).end(content),
+        () => response.writeHead(404).end()
+      );
+    } else if (path === "/mutable.json") {
+      response.writeHead(200, { "content-type": "application/json" }).end(mutable);
+    } else if (path === "/declared-big") {
+      response.writeHead(200, { "content-length": "2048" }).end("x".repeat(2048));
+    } else if (path === "/streamed-big") {
+      response.writeHead(200);
+      for (let i = 0; i < 4; i++) response.write("x".repeat(512));
+      response.end();
+    } else if (path.startsWith("/broken/")) {
+      response.writeHead(502).end();
+    } else if (!path.startsWith("/stalled/")) {
+      response.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Should fetch http(s) and data: URIs and cache the results", async function () {
+    const resolver = new TokenUriResolver();
+    const first = await resolver.resolve(`${base}/agent.json`);
+    assert.equal(first.text, json);
+    assert.equal(first.contentType, "application/json");
+    assert.equal(first.fromCache, false);
+    assert.deepEqual(await resolver.resolveJson(`${base}/agent.json`), file);
+    assert.equal(hits.get("/agent.json"), 1);
+
+    // Concurrent requests share one fetch; clearing the cache fetches again
+    resolver.clearCache();
+    const [a, b] = await Promise.all([resolver.resolve(`${base}/agent.json`), resolver.resolve(`${base}/agent.json`)]);
+    assert.equal(a.text, b.text);
+    assert.equal(hits.get("/agent.json"), 2);
+    await new TokenUriResolver({ cacheTtlMs: 0 }).resolve(`${base}/agent.json`);
+    assert.equal(hits.get("/agent.json"), 3);
+
+    const base64 = await resolver.resolve(`data:application/json;base64,${Buffer.from(json).toString("base64")}`);
+    assert.equal(base64.text, json);
+    assert.equal(base64.contentType, "application/json");
+    assert.equal((await resolver.resolve(`data:,${encodeURIComponent(json)}`)).text, json);
+
+    await assert.rejects(resolver.resolve(`${base}/missing.json`), /failed with HTTP 404/);
+    await assert.rejects(resolver.resolve("ftp://agent.example/a.json"), /Unsupported tokenURI scheme/);
+    await assert.rejects(resolver.resolveJson("data:,{oops"), /data: URI is not valid JSON/);
+  });
+
+  it("Should fall back across IPFS and Arweave gateways", async function () {
+    const resolver = new TokenUriResolver({
+      ipfsGateways: [`${base}/broken`, `${base}/stalled`, `${base}/gateway`],
+      arweaveGateways: [`${base}/broken`, `${base}/gateway/`],
+      timeoutMs: 200
+    });
+
+    const resolved = await resolver.resolve(`ipfs://${cid}`);
+    assert.equal(resolved.text, json);
+    assert.equal(resolved.url, `${base}/gateway/ipfs/${cid}`);
+    assert.equal(hits.get(`/broken/ipfs/${cid}`), 1);
+    assert.equal(hits.get(`/stalled/ipfs/${cid}`), 1);
+    assert.equal((await resolver.resolve(`ipfs://ipfs/${cid}`)).url, `${base}/gateway/ipfs/${cid}`);
+    assert.deepEqual(await resolver.resolveJson("ar://arweave-tx"), file);
+
+    await assert.rejects(
+      resolver.resolve("ipfs://bafkreimissing"),
+      (error: Error) => {
+        assert.equal(
+          error.message,
+          [
+            "No gateway could resolve ipfs://bafkreimissing:",
+            `  Fetching ${base}/broken/ipfs/bafkreimissing failed with HTTP 502`,
+            `  Fetching ${base}/stalled/ipfs/bafkreimissing timed out after 200 ms`,
+            `  Fetching ${base}/gateway/ipfs/bafkreimissing failed with HTTP 404`
+          ].join("\n")
+        );
+        return true;
+      }
+    );
+  });
+
+  it("Should enforce size limits and accept custom fetchers", async function () {
+    const resolver = new TokenUriResolver({ maxBytes: 1024 });
+    await assert.rejects(resolver.resolve(`${base}/declared-big`), /declared-big exceeds the 1024 byte limit/);
+    await assert.rejects(resolver.resolve(`${base}/streamed-big`), /streamed-big exceeds the 1024 byte limit/);
+    await assert.rejects(resolver.resolve(`data:,${"x".repeat(1025)}`), /exceeds the 1024 byte limit/);
+
+    // e.g. reading straight from a local node instead of a gateway
+    const gatewayHits = hits.get(`/gateway/ipfs/${cid}`);
+    const local = new TokenUriResolver({
+      fetchers: { ipfs: async (uri) => ({ body: Buffer.from(await ipfs.get(uri)) }) }
+    });
+    assert.deepEqual(await local.resolveJson(`ipfs://${cid}`), file);
+    assert.equal(hits.get(`/gateway/ipfs/${cid}`), gatewayHits);
+  });
+
+  it("Should check content against a committed hash", async function () {
+    const resolver = new TokenUriResolver();
+    const uri = `${base}/mutable.json`;
+    const committed = hashTokenUriContent(json);
+    assert.equal(committed, keccak256(toHex(json)));
+    assert.equal((await resolver.resolve(uri, committed)).text, json);
+    assert.equal((await resolver.resolve(uri, zeroHash)).fromCache, true);
+
+    // The host swaps the document: the cached copy still matches the old hash...
+    mutable = JSON.stringify({ ...file, name: "changed" });
+    assert.equal((await resolver.resolve(uri, committed)).fromCache, true);
+
+    // ...and is refetched once when checked against the new one
+    const fetches = hits.get("/mutable.json");
+    const updated = await resolver.resolve(uri, hashTokenUriContent(mutable));
+    assert.equal(updated.fromCache, false);
+    assert.equal(hits.get("/mutable.json"), fetches! + 1);
+
+    await assert.rejects(resolver.resolveJson(uri, committed), /mutable\.json does not match its committed hash/);
+    await assert.rejects(
+      resolver.resolve(`data:,${encodeURIComponent(json)}`, hashTokenUriContent("other")),
+      /data: URI does not match its committed hash/
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { type Address, type Hex, keccak256, toHex } from "viem";
+
+import {
+  type ScoringFeedback,
+  clientTrust,
+  explainScore,
+  feedbackKey,
+  paymentBacked,
+  recencyDecay,
+  scoreAgent,
+  scoreAgents,
+  tagFilter,
+  trustedClients
+} from "../src/scoring/index.js";
+
+type FixtureRow = Omit<ScoringFeedback, "agentId" | "feedbackIndex" | "supersededBy" | "blockNumber"> & {
+  agentId: string;
+  feedbackIndex: string;
+  supersededBy: string;
+  blockNumber: string;
+};
+
+const fixtures: Record<"mixed" | "sybilRing" | "amended", FixtureRow[]> = JSON.parse(
+  readFileSync(new URL("./fixtures/scoring-feedback.json", import.meta.url), "utf8")
+);
+const load = (rows: FixtureRow[]): ScoringFeedback[] =>
+  rows.map((row) => ({
+    ...row,
+    agentId: BigInt(row.agentId),
+    feedbackIndex: BigInt(row.feedbackIndex),
+    supersededBy: BigInt(row.supersededBy),
+    blockNumber: BigInt(row.blockNumber)
+  }));
+
+// Clients of the `mixed` dataset: A and B are honest, C revoked its feedback, S spams agent 1.
+// In `amended`, A replaced its first feedback and the agent disputes B's.
+const A = "0x1111111111111111111111111111111111111111" as Address;
+const B = "0x2222222222222222222222222222222222222222" as Address;
+const C = "0x3333333333333333333333333333333333333333" as Address;
+const quality = keccak256(toHex("quality")) as Hex;
+
+// Weights are floats, so sums only match up to rounding
+function assertClose(actual: number | undefined, expected: number) {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `${actual} is not close to ${expected}`);
+}
+
+describe("Reputation scoring", function () {
+  const mixed = load(fixtures.mixed);
+  const sybilRing = load(fixtures.sybilRing);
+  const amended = load(fixtures.amended);
+
+  it("Should average unrevoked feedback per agent without rules", function () {
+    const [agent1, agent2] = scoreAgents(mixed);
+    assert.equal(agent1.agentId, 1n);
+    assert.equal(agent1.counted, 9);
+    assert.equal(agent1.clients, 3);
+    assert.equal(agent1.score, (80 + 90 + 70 + 6 * 100) / 9);
+    assert.equal(agent1.entries.filter(({ excluded }) => excluded === "revoked").length, 1);
+    assert.equal(agent2.score, 70);
+
+    // Input order does not matter
+    assert.deepEqual(scoreAgents([...mixed].reverse()), scoreAgents(mixed));
+    const unknown = scoreAgent(3n, mixed);
+    assert.equal(unknown.score, undefined);
+    assert.equal(unknown.entries.length, 0);
+  });
+
+  it("Should weigh clients by trust lists and cap each client's influence", function () {
+    // Only listed clients count
+    const trusted = scoreAgent(1n, mixed, { rules: [trustedClients([A, B])] });
+    assert.equal(trusted.score, (80 + 90 + 70) / 3);
+    assert.equal(trusted.entries.filter(({ excluded }) => excluded === "zeroWeight").length, 6);
+
+    // Graded trust with a default for unknown clients
+    const graded = scoreAgent(1n, mixed, { rules: [clientTrust({ [A]: 2, [B]: 1 }, 0.1)] });
+    assertClose(graded.totalWeight, 2 + 2 + 1 + 6 * 0.1);
+
+    // A cap of 1 gives every client one vote however often it reviews
+    const capped = scoreAgent(1n, mixed, { maxWeightPerClient: 1 });
+    assertClose(capped.totalWeight, 3);
+    assertClose(capped.score, ((80 + 90) / 2 + 70 + 100) / 3);
+
+    // Caps cannot stop a ring of fresh addresses, a trust list can
+    assertClose(scoreAgent(7n, sybilRing, { maxWeightPerClient: 1 }).score, (20 + 30 + 12 * 100) / 14);
+    assert.equal(scoreAgent(7n, sybilRing, { rules: [trustedClients([A, B])] }).score, 25);
+  });
+
+  it("Should decay old feedback, favor paid feedback and filter by tag", function () {
+    const decayed = scoreAgent(1n, mixed, {
+      rules: [trustedClients([A, B]), recencyDecay({ currentBlock: 400n, halfLifeBlocks: 100n })]
+    });
+    const [a1, a2, b1] = [0.5 ** 3, 0.5 ** 2, 0.5 ** 2.5];
+    assertClose(decayed.score, (80 * a1 + 90 * a2 + 70 * b1) / (a1 + a2 + b1));
+
+    const backed = [
+      { key: feedbackKey({ agentId: 1n, clientAddress: A, feedbackIndex: 1n }), txHash: keccak256(toHex("payment A")) },
+      { key: `1:${B}:1`, txHash: keccak256(toHex("payment B")) }
+    ];
+    const paid = scoreAgent(1n, mixed, { rules: [paymentBacked(backed, 0.1), tagFilter({ tag1: quality })] });
+    assert.equal(paid.counted, 8);
+    assertClose(paid.score, (80 + 0.1 * 90 + 6 * 0.1 * 100) / (1 + 0.1 + 6 * 0.1));
+
+    assert.throws(
+      () => scoreAgent(1n, mixed, { rules: [{ name: "broken", weigh: () => -1 }] }),
+      /Rule broken returned -1, expected a non-negative number/
+    );
+    assert.throws(() => recencyDecay({ currentBlock: 1n, halfLifeBlocks: 0n }), /halfLifeBlocks must be positive/);
+    assert.throws(() => scoreAgent(1n, mixed, { maxWeightPerClient: 0 }), /maxWeightPerClient must be positive/);
+  });
+
+  it("Should count only the latest version of amended feedback and optionally skip disputed entries", function () {
+    const latest = scoreAgent(4n, amended);
+    assert.equal(latest.score, (90 + 10 + 60) / 3);
+    assert.deepEqual(
+      latest.entries.map(({ excluded }) => excluded),
+      ["superseded", undefined, undefined, undefined]
+    );
+    assert.equal(scoreAgent(4n, amended, { includeSuperseded: true }).score, (20 + 90 + 10 + 60) / 4);
+
+    const undisputed = scoreAgent(4n, amended, { excludeDisputed: true });
+    assert.equal(undisputed.score, (90 + 60) / 2);
+    assert.equal(undisputed.entries.find(({ entry }) => entry.clientAddress === B)!.excluded, "disputed");
+    assert.match(explainScore(undisputed), /#1 score 20: superseded\n.*#1 score 10: disputed/);
+  });
+
+  it("Should let one payment back only one feedback entry", function () {
+    const shared = keccak256(toHex("shared payment"));
+    const backed = [
+      { key: `4:${A}:2`, txHash: shared },
+      { key: `4:${C}:1`, txHash: shared.toUpperCase().replace("0X", "0x") as Hex },
+      { key: `4:${B}:1`, txHash: keccak256(toHex("payment B")) }
+    ];
+    const result = scoreAgent(4n, amended, { rules: [paymentBacked(backed)] });
+    assert.equal(result.score, (90 + 10) / 2);
+    assert.equal(result.entries.find(({ entry }) => entry.clientAddress === C)!.excluded, "zeroWeight");
+
+    // The lowest key keeps the payment however `backed` is ordered
+    assert.deepEqual(scoreAgent(4n, amended, { rules: [paymentBacked([...backed].reverse())] }), result);
+  });
+
+  it("Should explain how each entry contributed", function () {
+    const result = scoreAgent(2n, mixed, { rules: [trustedClients([B], 0.5)], maxWeightPerClient: 0.25 });
+    assert.equal(
+      explainScore(result),
+      [
+        "Agent 2: 70.00 from 2 of 2 feedback entries by 2 client(s), total weight 0.5",
+        "  0x2222222222222222222222222222222222222222#1 score 40: weight 0.25 (trustedClients 1, maxWeightPerClient 0.25)",
+        "  0x5555555555555555555555555555555555555555#1 score 100: weight 0.25 (trustedClients 0.5, maxWeightPerClient 0.5)"
+      ].join("\n")
+    );
+    assert.equal(
+      explainScore(scoreAgent(1n, mixed.slice(3, 4))),
+      [
+        "Agent 1: no score, none of 1 feedback entries count",
+        "  0x3333333333333333333333333333333333333333#1 score 60: revoked"
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,831 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import { encodeAbiParameters, encodeFunctionData, getAddress, keccak256, size, toHex, zeroAddress } from "viem";
+
+import {
+  type DeploymentManifest,
+  FEEDBACK_AUTH_MIN_LENGTH,
+  ZERO_BYTES32,
+  buildFeedbackAuth,
+  createERC8004Clients,
+  decodeFeedbackAuth,
+  encodeFeedbackAuth,
+  getDeploymentBlock,
+  getFixedPointMean,
+  getManifestPath,
+  getScoreStatistics,
+  loadERC8004Clients,
+  readManifest,
+  recoverFeedbackAuthSigner,
+  signFeedbackAuth,
+  validateFeedbackAuth,
+  writeManifest
+} from "../src/sdk/index.js";
+
+describe("ERC8004 SDK", async function () {
+  const { viem, networkHelpers } = await network.connect();
+  const publicClient = await viem.getPublicClient();
+
+  // Helper function to create signed feedbackAuth
+  async function createFeedbackAuth(
+    agentId: bigint,
+    clientAddress: `0x${string}`,
+    identityRegistryAddress: `0x${string}`,
+    signer: any
+  ) {
+    const auth = buildFeedbackAuth({
+      agentId,
+      clientAddress,
+      indexLimit: 100n,
+      chainId: BigInt(await publicClient.getChainId()),
+      identityRegistry: identityRegistryAddress,
+      signerAddress: signer.account.address
+    });
+    return encodeFeedbackAuth(await signFeedbackAuth(auth, signer));
+  }
+
+  async function deployPlain() {
+    const identityRegistry = await viem.deployContract("IdentityRegistry");
+    const reputationRegistry = await viem.deployContract("ReputationRegistry", [identityRegistry.address]);
+    const validationRegistry = await viem.deployContract("ValidationRegistry", [identityRegistry.address]);
+    return {
+      identityRegistry: identityRegistry.address,
+      reputationRegistry: reputationRegistry.address,
+      validationRegistry: validationRegistry.address
+    };
+  }
+
+  async function deployUpgradeable() {
+    const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+    const identityProxy = await viem.deployContract("ERC1967Proxy", [identityImpl.address, "0x8129fc1c"]);
+    const initWithIdentity = ("0xc4d66de8" +
+      encodeAbiParameters([{ type: "address" }], [identityProxy.address]).slice(2)) as `0x${string}`;
+    const reputationImpl = await viem.deployContract("ReputationRegistryUpgradeable");
+    const reputationProxy = await viem.deployContract("ERC1967Proxy", [reputationImpl.address, initWithIdentity]);
+    const validationImpl = await viem.deployContract("ValidationRegistryUpgradeable");
+    const validationProxy = await viem.deployContract("ERC1967Proxy", [validationImpl.address, initWithIdentity]);
+    return {
+      identityRegistry: identityProxy.address,
+      reputationRegistry: reputationProxy.address,
+      validationRegistry: validationProxy.address
+    };
+  }
+
+  for (const [label, deploy, expectedVersion] of [
+    ["plain", deployPlain, undefined],
+    ["upgradeable proxy", deployUpgradeable, "1.1.0"]
+  ] as const) {
+    describe(`against ${label} deployment`, async function () {
+      it("Should register agents and return decoded events", async function () {
+        const [owner] = await viem.getWalletClients();
+        const { identity } = createERC8004Clients(await deploy(), publicClient, owner);
+
+        const first = await identity.register("ipfs://agent");
+        const second = await identity.register("ipfs://agent2", [
+          { key: "agentWallet", value: toHex("wallet") },
+          { key: "agentName", value: toHex("Alice") }
+        ]);
+        const third = await identity.register();
+
+        assert.equal(second.agentId, first.agentId + 1n);
+        assert.equal(third.agentId, second.agentId + 1n);
+        assert.equal(first.event.tokenUri, "ipfs://agent");
+        assert.equal(first.event.owner, getAddress(owner.account.address));
+        assert.equal(first.receipt.status, "success");
+        assert.deepEqual(second.metadata.map((m) => m.key), ["agentWallet", "agentName"]);
+        assert.equal(await identity.getMetadata(second.agentId, "agentName"), toHex("Alice"));
+        assert.equal(await identity.getAgentUri(third.agentId), "");
+        assert.equal(await identity.getVersion(), expectedVersion);
+      });
+
+      it("Should update metadata and URI", async function () {
+        const [owner, operator, stranger] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity } = createERC8004Clients(addresses, publicClient, owner);
+        const { agentId } = await identity.register("ipfs://agent");
+
+        const metadata = await identity.setMetadata(agentId, "agentWallet", toHex("0x1234"));
+        assert.deepEqual(metadata.event, { agentId, key: "agentWallet", value: toHex("0x1234") });
+
+        await owner.writeContract({
+          address: addresses.identityRegistry,
+          abi: identity.abi,
+          functionName: "setApprovalForAll",
+          args: [operator.account.address, true],
+          account: owner.account,
+          chain: owner.chain
+        });
+        assert.equal(await identity.isAuthorized(agentId, operator.account.address), true);
+        assert.equal(await identity.isAuthorized(agentId, stranger.account.address), false);
+
+        const operatorIdentity = createERC8004Clients(addresses, publicClient, operator).identity;
+        const updated = await operatorIdentity.setAgentUri(agentId, "https://example.com/agent.json");
+        assert.equal(updated.event.updatedBy, getAddress(operator.account.address));
+        assert.equal(await identity.getAgentUri(agentId), "https://example.com/agent.json");
+      });
+
+      it("Should give, revoke and respond to feedback", async function () {
+        const [agentOwner, client, responder] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity } = createERC8004Clients(addresses, publicClient, agentOwner);
+        const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+        const { agentId } = await identity.register("ipfs://agent");
+
+        assert.equal(getAddress(await reputation.getIdentityRegistry()), getAddress(addresses.identityRegistry));
+
+        const feedbackAuth = await createFeedbackAuth(
+          agentId,
+          client.account.address,
+          addresses.identityRegistry,
+          agentOwner
+        );
+        const tag1 = keccak256(toHex("quality"));
+
+        const first = await reputation.giveFeedback({ agentId, score: 80, tag1, feedbackUri: "ipfs://f1", feedbackAuth });
+        const second = await reputation.giveFeedback({ agentId, score: 90, feedbackAuth });
+        assert.equal(first.event.feedbackIndex, 1n);
+        assert.equal(second.event.feedbackIndex, 2n);
+        assert.equal(first.event.feedbackUri, "ipfs://f1");
+        assert.equal(first.event.clientAddress, getAddress(client.account.address));
+
+        assert.deepEqual(await reputation.getSummary(agentId), { count: 2n, averageScore: 85 });
+        assert.deepEqual(await reputation.getSummary(agentId, { tag1 }), { count: 1n, averageScore: 80 });
+
+        const revoked = await reputation.revokeFeedback(agentId, 1n);
+        assert.equal(revoked.event.feedbackIndex, 1n);
+        assert.equal((await reputation.readFeedback(agentId, client.account.address, 1n)).isRevoked, true);
+
+        const all = await reputation.readAllFeedback(agentId, {}, true);
+        assert.equal(all.length, 2);
+        assert.equal(all[0].isRevoked, true);
+        assert.equal((await reputation.readAllFeedback(agentId)).length, 1);
+
+        const responderReputation = createERC8004Clients(addresses, publicClient, responder).reputation;
+        const response = await responderReputation.appendResponse(agentId, client.account.address, 2n, "ipfs://r1");
+        assert.equal(response.event.responder, getAddress(responder.account.address));
+        assert.equal(await reputation.getResponseCount(agentId, client.account.address, 2n), 1n);
+        assert.deepEqual(await reputation.getClients(agentId), [getAddress(client.account.address)]);
+        assert.equal(await reputation.getLastIndex(agentId, client.account.address), 2n);
+      });
+
+      it("Should amend feedback and follow its history", async function () {
+        const [agentOwner, client] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity } = createERC8004Clients(addresses, publicClient, agentOwner);
+        const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+        const { agentId } = await identity.register("ipfs://agent");
+        const feedbackAuth = await createFeedbackAuth(
+          agentId,
+          client.account.address,
+          addresses.identityRegistry,
+          agentOwner
+        );
+
+        await reputation.giveFeedback({ agentId, score: 30, feedbackUri: "ipfs://v1", feedbackAuth });
+        const first = await reputation.amendFeedback({
+          agentId,
+          feedbackIndex: 1n,
+          score: 50,
+          feedbackUri: "ipfs://v2",
+          feedbackAuth
+        });
+        assert.deepEqual(first.event, {
+          agentId,
+          clientAddress: getAddress(client.account.address),
+          previousIndex: 1n,
+          newIndex: 2n
+        });
+        assert.equal(first.feedback.feedbackIndex, 2n);
+        assert.equal(first.feedback.feedbackUri, "ipfs://v2");
+        const second = await reputation.amendFeedback({ agentId, feedbackIndex: 2n, score: 75, feedbackAuth });
+        assert.equal(second.feedback.feedbackIndex, 3n);
+
+        assert.deepEqual(await reputation.getFeedbackHistory(agentId, client.account.address, 3n), [1n, 2n, 3n]);
+        assert.deepEqual(await reputation.getFeedbackHistory(agentId, client.account.address, 1n), [1n]);
+        assert.deepEqual(await reputation.getFeedbackAmendment(agentId, client.account.address, 2n), {
+          previousIndex: 1n,
+          supersededBy: 3n
+        });
+        assert.deepEqual(await reputation.getSummary(agentId), { count: 1n, averageScore: 75 });
+        assert.deepEqual(await reputation.getSummaryPaginated(agentId, {}, { pageSize: 2n }), {
+          count: 1n,
+          averageScore: 75
+        });
+
+        const page = await reputation.readFeedbackPage(agentId);
+        assert.deepEqual(page.entries.map((entry) => entry.supersededBy), [2n, 3n, 0n]);
+        const streamed = [];
+        for await (const entry of reputation.iterateFeedback(agentId, {}, true, { pageSize: 2n })) {
+          streamed.push(entry.feedbackIndex);
+        }
+        assert.deepEqual(streamed, [3n]);
+        assert.equal((await reputation.readAllFeedback(agentId, {}, true)).length, 1);
+      });
+
+      it("Should dispute feedback as the agent and exclude it from summaries", async function () {
+        const [agentOwner, client] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const owned = createERC8004Clients(addresses, publicClient, agentOwner);
+        const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+        const { agentId } = await owned.identity.register("ipfs://agent");
+        const feedbackAuth = await createFeedbackAuth(
+          agentId,
+          client.account.address,
+          addresses.identityRegistry,
+          agentOwner
+        );
+        await reputation.giveFeedback({ agentId, score: 20, feedbackAuth });
+        await reputation.giveFeedback({ agentId, score: 80, feedbackAuth });
+
+        const { event } = await owned.reputation.disputeFeedback(agentId, client.account.address, 1n, "ipfs://reason");
+        assert.deepEqual(event, {
+          agentId,
+          clientAddress: getAddress(client.account.address),
+          feedbackIndex: 1n,
+          disputer: getAddress(agentOwner.account.address),
+          reasonUri: "ipfs://reason",
+          reasonHash: ZERO_BYTES32
+        });
+        assert.equal((await reputation.readFeedback(agentId, client.account.address, 1n)).isDisputed, true);
+        assert.deepEqual(
+          (await reputation.readAllFeedback(agentId)).map(({ isDisputed }) => isDisputed),
+          [true, false]
+        );
+        assert.deepEqual(await reputation.getSummary(agentId), { count: 2n, averageScore: 50 });
+        assert.deepEqual(await reputation.getSummary(agentId, { excludeDisputed: true }), { count: 1n, averageScore: 80 });
+        assert.deepEqual(await reputation.getSummaryTotals(agentId, { excludeDisputed: true }), {
+          count: 1n,
+          total: 80n,
+          squaresTotal: 6400n
+        });
+        // Every summary applies the filter the same way
+        const undisputed = { count: 1n, averageScore: 80 };
+        assert.deepEqual(await reputation.getSummaryPaginated(agentId, { excludeDisputed: true }, { pageSize: 1n }), undisputed);
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, {}, { excludeDisputed: true }), undisputed);
+        assert.deepEqual(await reputation.getDecayedSummary(agentId, 365n * 86400n, { excludeDisputed: true }), undisputed);
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, {}), { count: 2n, averageScore: 50 });
+
+        // The client cannot amend the dispute away
+        await assert.rejects(
+          reputation.amendFeedback({ agentId, feedbackIndex: 1n, score: 90, feedbackAuth }),
+          /Feedback is disputed/
+        );
+        await assert.rejects(
+          reputation.disputeFeedback(agentId, client.account.address, 2n, "ipfs://reason"),
+          /Not authorized/
+        );
+
+        await owned.reputation.withdrawDispute(agentId, client.account.address, 1n);
+        assert.deepEqual(await reputation.getSummary(agentId, { excludeDisputed: true }), { count: 2n, averageScore: 50 });
+        await reputation.amendFeedback({ agentId, feedbackIndex: 1n, score: 90, feedbackAuth });
+      });
+
+      it("Should summarize feedback within a time window and with decay", async function () {
+        const [agentOwner, client, otherClient] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity } = createERC8004Clients(addresses, publicClient, agentOwner);
+        const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+        const { agentId } = await identity.register("ipfs://agent");
+
+        const snapshot = await networkHelpers.takeSnapshot();
+        const day = 86400n;
+        const expiry = BigInt(await networkHelpers.time.latest()) + 10n * day;
+        const chainId = BigInt(await publicClient.getChainId());
+        async function give(wallet: typeof client, score: number) {
+          const auth = buildFeedbackAuth({
+            agentId,
+            clientAddress: wallet.account.address,
+            indexLimit: 100n,
+            expiry,
+            chainId,
+            identityRegistry: addresses.identityRegistry,
+            signerAddress: agentOwner.account.address
+          });
+          const feedbackAuth = encodeFeedbackAuth(await signFeedbackAuth(auth, agentOwner));
+          const walletReputation = createERC8004Clients(addresses, publicClient, wallet).reputation;
+          const { receipt } = await walletReputation.giveFeedback({ agentId, score, feedbackAuth });
+          return (await publicClient.getBlock({ blockNumber: receipt.blockNumber })).timestamp;
+        }
+
+        const t0 = await give(client, 80);
+        await networkHelpers.time.increase(2n * day);
+        const t1 = await give(client, 60);
+        await networkHelpers.time.increase(2n * day);
+        const t2 = await give(otherClient, 100);
+        assert.equal(await reputation.getFeedbackTimestamp(agentId, client.account.address, 1n), t0);
+
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, { from: t1 }), { count: 2n, averageScore: 80 });
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, { to: t1 }), { count: 2n, averageScore: 70 });
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, { from: t0 + 1n, to: t2 - 1n }), {
+          count: 1n,
+          averageScore: 60
+        });
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, { from: t2 + 1n }), { count: 0n, averageScore: 0 });
+        assert.deepEqual(
+          await reputation.getSummaryInWindow(agentId, { from: t0 }, { clientAddresses: [otherClient.account.address] }),
+          { count: 1n, averageScore: 100 }
+        );
+
+        // Weights 1/4, 1/2 and 1 for feedback 4, 2 and 0 days old: (20 + 30 + 100) / 1.75
+        assert.deepEqual(await reputation.getDecayedSummary(agentId, 2n * day), { count: 3n, averageScore: 85 });
+        await reputation.revokeFeedback(agentId, 2n);
+        assert.deepEqual(await reputation.getDecayedSummary(agentId, 2n * day), { count: 2n, averageScore: 96 });
+
+        // After 60 half-lives nothing carries weight, while the window still sees everything
+        await networkHelpers.time.increase(120n * day);
+        assert.deepEqual(await reputation.getDecayedSummary(agentId, 2n * day), { count: 0n, averageScore: 0 });
+        assert.deepEqual(await reputation.getSummaryInWindow(agentId, {}), { count: 2n, averageScore: 90 });
+        await assert.rejects(reputation.getDecayedSummary(agentId, 0n), /halfLife must be at least 1 second/);
+
+        await snapshot.restore();
+      });
+
+      it("Should surface contract reverts on writes", async function () {
+        const [agentOwner, client] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity, reputation } = createERC8004Clients(addresses, publicClient, agentOwner);
+        const { agentId } = await identity.register("ipfs://agent");
+
+        const feedbackAuth = await createFeedbackAuth(
+          agentId,
+          client.account.address,
+          addresses.identityRegistry,
+          agentOwner
+        );
+        await assert.rejects(
+          reputation.giveFeedback({ agentId, score: 50, feedbackAuth }),
+          /Self-feedback not allowed/
+        );
+
+        const readOnly = createERC8004Clients(addresses, publicClient);
+        await assert.rejects(readOnly.identity.register("ipfs://x"), /walletClient/);
+      });
+
+      it("Should request and respond to validations", async function () {
+        const [agentOwner, validator] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity, validation } = createERC8004Clients(addresses, publicClient, agentOwner);
+        const validatorClient = createERC8004Clients(addresses, publicClient, validator).validation;
+        const { agentId } = await identity.register("ipfs://agent");
+        const requestHash = keccak256(toHex("request"));
+        const tag = keccak256(toHex("zkml"));
+
+        const request = await validation.validationRequest(
+          validator.account.address,
+          agentId,
+          "ipfs://request",
+          requestHash
+        );
+        assert.equal(request.event.requestHash, requestHash);
+        assert.equal(request.event.validatorAddress, getAddress(validator.account.address));
+        assert.equal(await validation.getValidationState(requestHash), "pending");
+        assert.deepEqual(await validation.getPendingCount(agentId), { pending: 1n, responded: 0n });
+        assert.deepEqual(await validation.getSummary(agentId), { count: 0n, avgResponse: 0 });
+
+        const response = await validatorClient.validationResponse(requestHash, 77, "ipfs://response", requestHash, tag);
+        assert.equal(response.event.response, 77);
+        assert.equal(response.event.tag, tag);
+
+        const status = await validation.getValidationStatus(requestHash);
+        assert.equal(status.agentId, agentId);
+        assert.equal(status.response, 77);
+        assert.equal(status.tag, tag);
+        assert.deepEqual(await validation.getSummary(agentId, [], tag), { count: 1n, avgResponse: 77 });
+        assert.equal(await validation.getValidationState(requestHash), "responded");
+        assert.equal(await validation.getValidationState(keccak256(toHex("unknown"))), "none");
+        assert.deepEqual(await validation.getPendingCount(agentId), { pending: 0n, responded: 1n });
+
+        const latest = await publicClient.getBlock();
+        const withdrawn = keccak256(toHex("withdrawn"));
+        await validation.validationRequest(validator.account.address, agentId, "ipfs://w", withdrawn, latest.timestamp + 600n);
+        assert.equal(await validation.getValidationDeadline(withdrawn), latest.timestamp + 600n);
+        const cancelled = await validation.cancelValidationRequest(withdrawn);
+        assert.equal(cancelled.event.requestHash, withdrawn);
+        assert.equal(await validation.getValidationState(withdrawn), "cancelled");
+        assert.deepEqual(await validation.getAgentValidations(agentId), [requestHash]);
+        assert.deepEqual(await validation.getAgentValidations(agentId), [requestHash]);
+        assert.deepEqual(await validation.getValidatorRequests(validator.account.address), [requestHash]);
+      });
+
+      it("Should return summary totals for exact means", async function () {
+        const [agentOwner, client, validator] = await viem.getWalletClients();
+        const addresses = await deploy();
+        const { identity, validation } = createERC8004Clients(addresses, publicClient, agentOwner);
+        const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+        const validatorClient = createERC8004Clients(addresses, publicClient, validator).validation;
+        const { agentId } = await identity.register("ipfs://agent");
+
+        const feedbackAuth = await createFeedbackAuth(
+          agentId,
+          client.account.address,
+          addresses.identityRegistry,
+          agentOwner
+        );
+        for (const score of [99, 100, 100]) {
+          await reputation.giveFeedback({ agentId, score, feedbackAuth });
+        }
+        assert.deepEqual(await reputation.getSummary(agentId), { count: 3n, averageScore: 99 });
+        const feedbackTotals = await reputation.getSummaryTotals(agentId);
+        assert.deepEqual(feedbackTotals, { count: 3n, total: 299n, squaresTotal: 29801n });
+        assert.equal(getFixedPointMean(feedbackTotals), 9966n);
+        assert.equal(getFixedPointMean(feedbackTotals, 0), 99n);
+
+        // Sample variance (3 · 29801 − 299²) / (3 · 2) = 1/3; the interval is capped at 100
+        const stats = getScoreStatistics(feedbackTotals);
+        assert.equal(stats.mean, 299 / 3);
+        assert.equal(stats.standardDeviation, Math.sqrt(1 / 3));
+        assert.deepEqual(stats.confidenceInterval, [299 / 3 - (1.96 * Math.sqrt(1 / 3)) / Math.sqrt(3), 100]);
+
+        for (const [i, response] of [90, 95].entries()) {
+          const requestHash = keccak256(toHex(`request${i}`));
+          await validation.validationRequest(validator.account.address, agentId, "ipfs://request", requestHash);
+          await validatorClient.validationResponse(requestHash, response, "ipfs://response", requestHash, ZERO_BYTES32);
+        }
+        await validation.validationRequest(validator.account.address, agentId, "ipfs://pending", keccak256(toHex("pending")));
+        assert.deepEqual(await validation.getSummary(agentId), { count: 2n, avgResponse: 92 });
+        const validationTotals = await validation.getSummaryTotals(agentId, [validator.account.address]);
+        assert.deepEqual(validationTotals, { count: 2n, total: 185n, squaresTotal: 17125n });
+        assert.equal(getFixedPointMean(validationTotals, 1), 925n);
+      });
+    });
+  }
+
+  it("Should derive statistics from summary totals", function () {
+    assert.deepEqual(getScoreStatistics({ count: 0n, total: 0n, squaresTotal: 0n }), { count: 0n });
+    assert.deepEqual(getScoreStatistics({ count: 1n, total: 42n, squaresTotal: 1764n }), { count: 1n, mean: 42 });
+    assert.equal(getFixedPointMean({ count: 0n, total: 0n, squaresTotal: 0n }), 0n);
+    assert.throws(() => getFixedPointMean({ count: 1n, total: 1n, squaresTotal: 1n }, -1), /decimals must be/);
+
+    // Scores 0 and 100: sd = 70.71, a z of 1 gives 50 ± 50
+    const spread = getScoreStatistics({ count: 2n, total: 100n, squaresTotal: 10000n }, 1);
+    assert.equal(spread.standardDeviation, Math.sqrt(5000));
+    assert.deepEqual(spread.confidenceInterval, [0, 100]);
+  });
+
+  describe("FeedbackAuth", async function () {
+    async function setup() {
+      const [agentOwner, client, walletOwner, attacker] = await viem.getWalletClients();
+      const addresses = await deployPlain();
+      const { identity } = createERC8004Clients(addresses, publicClient, agentOwner);
+      const reputation = createERC8004Clients(addresses, publicClient, client).reputation;
+      const { agentId } = await identity.register("ipfs://agent");
+      const chainId = BigInt(await publicClient.getChainId());
+      return { agentOwner, client, walletOwner, attacker, addresses, identity, reputation, agentId, chainId };
+    }
+
+    it("Should encode the same bytes as the registry's abi.decode layout and round-trip", async function () {
+      const { agentOwner, client, addresses, agentId, chainId } = await setup();
+      const auth = buildFeedbackAuth({
+        agentId,
+        clientAddress: client.account.address,
+        indexLimit: 5n,
+        expiry: 2_000_000_000n,
+        chainId,
+        identityRegistry: addresses.identityRegistry,
+        signerAddress: agentOwner.account.address
+      });
+      const signed = await signFeedbackAuth(auth, agentOwner);
+      const encoded = encodeFeedbackAuth(signed);
+
+      const manual = encodeAbiParameters(
+        [
+          { type: "uint256" },
+          { type: "address" },
+          { type: "uint64" },
+          { type: "uint256" },
+          { type: "uint256" },
+          { type: "address" },
+          { type: "address" }
+        ],
+        [agentId, client.account.address, 5n, 2_000_000_000n, chainId, addresses.identityRegistry, agentOwner.account.address]
+      );
+      assert.equal(encoded, manual + signed.signature.slice(2));
+      assert.equal(size(encoded), FEEDBACK_AUTH_MIN_LENGTH);
+
+      const decoded = decodeFeedbackAuth(encoded);
+      assert.deepEqual(decoded, {
+        ...signed,
+        clientAddress: getAddress(client.account.address),
+        identityRegistry: getAddress(addresses.identityRegistry),
+        signerAddress: getAddress(agentOwner.account.address)
+      });
+      assert.equal(await recoverFeedbackAuthSigner(decoded), getAddress(agentOwner.account.address));
+      assert.throws(() => decodeFeedbackAuth(manual), /Invalid auth length/);
+    });
+
+    it("Should issue an EOA-signed auth the registry accepts", async function () {
+      const { agentOwner, client, reputation, agentId } = await setup();
+      const feedbackAuth = await reputation.createFeedbackAuth(
+        { agentId, clientAddress: client.account.address },
+        agentOwner
+      );
+
+      const check = await reputation.checkFeedbackAuth(feedbackAuth);
+      assert.deepEqual(check.errors, []);
+      assert.equal(check.valid, true);
+      assert.equal(check.auth.indexLimit, 1n);
+
+      await reputation.giveFeedback({ agentId, score: 70, feedbackAuth });
+
+      // indexLimit defaulted to a single feedback, so the same auth is now exhausted
+      const reused = await reputation.checkFeedbackAuth(feedbackAuth);
+      assert.deepEqual(reused.errors, ["IndexLimit exceeded"]);
+      await assert.rejects(reputation.giveFeedback({ agentId, score: 70, feedbackAuth }), /IndexLimit exceeded/);
+    });
+
+    it("Should issue an ERC-1271 auth and reject one signed by the wrong key", async function () {
+      const { agentOwner, client, walletOwner, attacker, addresses, identity, reputation, agentId } = await setup();
+      const wallet = await viem.deployContract("MockERC1271Wallet", [walletOwner.account.address]);
+      await agentOwner.writeContract({
+        address: addresses.identityRegistry,
+        abi: identity.abi,
+        functionName: "transferFrom",
+        args: [agentOwner.account.address, wallet.address, agentId],
+        account: agentOwner.account,
+        chain: agentOwner.chain
+      });
+
+      const forged = await reputation.createFeedbackAuth(
+        { agentId, clientAddress: client.account.address, indexLimit: 10n, signerAddress: wallet.address },
+        attacker
+      );
+      assert.deepEqual((await reputation.checkFeedbackAuth(forged)).errors, ["Bad 1271 signature"]);
+
+      const feedbackAuth = await reputation.createFeedbackAuth(
+        { agentId, clientAddress: client.account.address, indexLimit: 10n, signerAddress: wallet.address },
+        walletOwner
+      );
+      assert.equal((await reputation.checkFeedbackAuth(feedbackAuth)).valid, true);
+      const { event } = await reputation.giveFeedback({ agentId, score: 95, feedbackAuth });
+      assert.equal(event.score, 95);
+    });
+
+    it("Should issue an EIP-712 auth bound to the registry", async function () {
+      const { agentOwner, client, reputation, agentId } = await setup();
+      const feedbackAuth = await reputation.createFeedbackAuth(
+        { agentId, clientAddress: client.account.address, indexLimit: 2n },
+        agentOwner,
+        "eip712"
+      );
+
+      const decoded = decodeFeedbackAuth(feedbackAuth);
+      assert.equal(
+        await recoverFeedbackAuthSigner(decoded, { scheme: "eip712", reputationRegistry: reputation.address }),
+        getAddress(agentOwner.account.address)
+      );
+      assert.notEqual(await recoverFeedbackAuthSigner(decoded), getAddress(agentOwner.account.address));
+      await assert.rejects(recoverFeedbackAuthSigner(decoded, { scheme: "eip712" }), /reputationRegistry is required/);
+
+      assert.equal((await reputation.checkFeedbackAuth(feedbackAuth)).valid, true);
+      const { event } = await reputation.giveFeedback({ agentId, score: 81, feedbackAuth });
+      assert.equal(event.score, 81);
+    });
+
+    it("Should report every mismatch before spending gas", async function () {
+      const { agentOwner, client, attacker, addresses, reputation, agentId, chainId } = await setup();
+      const signed = await signFeedbackAuth(
+        buildFeedbackAuth({
+          agentId,
+          clientAddress: client.account.address,
+          indexLimit: 0n,
+          expiry: 1n,
+          chainId: chainId + 1n,
+          identityRegistry: attacker.account.address,
+          signerAddress: attacker.account.address
+        }),
+        attacker
+      );
+
+      const check = await reputation.checkFeedbackAuth(signed, agentOwner.account.address);
+      assert.equal(check.valid, false);
+      assert.deepEqual(check.errors, [
+        "Client mismatch",
+        "Auth expired",
+        "ChainId mismatch",
+        "Registry mismatch",
+        "IndexLimit exceeded",
+        "Signer not authorized"
+      ]);
+
+      assert.deepEqual(
+        validateFeedbackAuth(signed, { agentId: agentId + 1n, identityRegistry: addresses.identityRegistry, now: 0n }),
+        ["AgentId mismatch", "Registry mismatch"]
+      );
+    });
+  });
+
+  describe("Pagination", async function () {
+    const BATCH = 125n;
+
+    // Seeds `perClient` entries for each of `clients` MockFeedbackClient contracts, in batches;
+    // scores cycle through 0..100 and tag1 alternates between clients
+    async function seed(clients: number, perClient: bigint) {
+      const [agentOwner, responder] = await viem.getWalletClients();
+      const addresses = await deployPlain();
+      const { identity, reputation } = createERC8004Clients(addresses, publicClient, agentOwner);
+      const { agentId } = await identity.register("ipfs://agent");
+      const tags = [keccak256(toHex("even")), keccak256(toHex("odd"))];
+
+      const mocks = [];
+      const expected: { clientAddress: `0x${string}`; feedbackIndex: bigint; score: number; tag1: `0x${string}` }[] = [];
+      for (let c = 0; c < clients; c++) {
+        const mock = await viem.deployContract("MockFeedbackClient", [addresses.reputationRegistry]);
+        const feedbackAuth = await reputation.createFeedbackAuth(
+          { agentId, clientAddress: mock.address, indexLimit: perClient },
+          agentOwner
+        );
+        for (let sent = 0n; sent < perClient; sent += BATCH) {
+          const count = perClient - sent < BATCH ? perClient - sent : BATCH;
+          await mock.write.giveFeedbackBatch([agentId, count, tags[c % 2], feedbackAuth]);
+          for (let i = 0n; i < count; i++) {
+            expected.push({
+              clientAddress: getAddress(mock.address),
+              feedbackIndex: sent + i + 1n,
+              score: Number(i % 101n),
+              tag1: tags[c % 2]
+            });
+          }
+        }
+        mocks.push(mock);
+      }
+      return { agentOwner, responder, addresses, reputation, agentId, tags, mocks, expected };
+    }
+
+    it("Should read thousands of entries with gas bounded by the page size", async function () {
+      const { reputation, agentId, mocks, expected } = await seed(4, 500n);
+      assert.equal(expected.length, 2000);
+      assert.equal(await reputation.getClientCount(agentId), 4n);
+
+      const { clients, total } = await reputation.getClientsPaginated(agentId, 1n, 2n);
+      assert.equal(total, 4n);
+      assert.deepEqual(clients, [getAddress(mocks[1].address), getAddress(mocks[2].address)]);
+      assert.deepEqual((await reputation.getClientsPaginated(agentId, 9n, 2n)).clients, []);
+
+      const streamedClients = [];
+      for await (const client of reputation.iterateClients(agentId, { pageSize: 3n })) {
+        streamedClients.push(client);
+      }
+      assert.deepEqual(streamedClients, await reputation.getClients(agentId));
+
+      // A page spanning a client boundary
+      const page = await reputation.readFeedbackPage(agentId, { clientOffset: 0n, feedbackIndex: 451n }, 100n);
+      assert.equal(page.entries.length, 100);
+      assert.deepEqual(page.entries[0], { ...expected[450], tag2: ZERO_BYTES32, isRevoked: false, isDisputed: false, supersededBy: 0n });
+      assert.deepEqual(page.entries[50], { ...expected[500], tag2: ZERO_BYTES32, isRevoked: false, isDisputed: false, supersededBy: 0n });
+      assert.deepEqual(page.next, { clientOffset: 1n, feedbackIndex: 51n });
+
+      const last = await reputation.readFeedbackPage(agentId, { clientOffset: 3n, feedbackIndex: 401n }, 100n);
+      assert.equal(last.entries.length, 100);
+      assert.equal(last.next, undefined);
+
+      // Same cost at the start and at the end of the walk, far below the unpaginated read
+      const estimatePage = (clientOffset: bigint, fromIndex: bigint) =>
+        publicClient.estimateGas({
+          to: reputation.address,
+          data: encodeFunctionData({
+            abi: reputation.abi,
+            functionName: "readFeedbackPage",
+            args: [agentId, clientOffset, fromIndex, 100n]
+          })
+        });
+      const firstGas = await estimatePage(0n, 1n);
+      const lastGas = await estimatePage(3n, 401n);
+      assert.ok(firstGas < 2_000_000n, `page gas ${firstGas}`);
+      assert.ok(lastGas * 10n < firstGas * 11n && firstGas * 10n < lastGas * 11n, `${firstGas} vs ${lastGas}`);
+
+      const fullGas = await publicClient
+        .estimateGas({
+          to: reputation.address,
+          data: encodeFunctionData({
+            abi: reputation.abi,
+            functionName: "readAllFeedback",
+            args: [agentId, [], ZERO_BYTES32, ZERO_BYTES32, true]
+          })
+        })
+        .catch(() => undefined);
+      assert.ok(fullGas === undefined || fullGas > 10n * firstGas, `readAllFeedback gas ${fullGas}`);
+
+      let streamed = 0;
+      for await (const entry of reputation.iterateFeedback(agentId, {}, true, { pageSize: 300n })) {
+        assert.equal(entry.feedbackIndex, expected[streamed].feedbackIndex);
+        streamed++;
+      }
+      assert.equal(streamed, expected.length);
+
+      const total2000 = expected.reduce((sum, entry) => sum + entry.score, 0);
+      assert.deepEqual(await reputation.getSummaryPaginated(agentId, {}, { pageSize: 250n }), {
+        count: 2000n,
+        averageScore: Math.floor(total2000 / 2000)
+      });
+    });
+
+    it("Should match the unpaginated reads for filters, revocations and responses", async function () {
+      const { responder, addresses, reputation, agentId, tags, mocks } = await seed(3, 140n);
+      await mocks[1].write.revokeFeedback([agentId, 7n]);
+      await mocks[2].write.revokeFeedback([agentId, 140n]);
+      const responderReputation = createERC8004Clients(addresses, publicClient, responder).reputation;
+      await responderReputation.appendResponse(agentId, mocks[0].address, 1n, "ipfs://r1");
+      await responderReputation.appendResponse(agentId, mocks[0].address, 1n, "ipfs://r2");
+      await responderReputation.appendResponse(agentId, mocks[2].address, 139n, "ipfs://r3");
+
+      const collect = async (filter: { tag1?: `0x${string}`; clientAddresses?: `0x${string}`[] }, includeRevoked: boolean) => {
+        const entries = [];
+        for await (const { feedbackIndex, supersededBy, ...entry } of reputation.iterateFeedback(agentId, filter, includeRevoked, {
+          pageSize: 64n
+        })) {
+          entries.push(entry);
+        }
+        return entries;
+      };
+
+      for (const includeRevoked of [false, true]) {
+        for (const filter of [{}, { tag1: tags[1] }, { clientAddresses: [mocks[2].address] }]) {
+          assert.deepEqual(await collect(filter, includeRevoked), await reputation.readAllFeedback(agentId, filter, includeRevoked));
+        }
+      }
+
+      for (const filter of [{}, { tag1: tags[0] }]) {
+        assert.deepEqual(
+          await reputation.getSummaryPaginated(agentId, filter, { pageSize: 50n }),
+          await reputation.getSummary(agentId, filter)
+        );
+      }
+
+      assert.equal(await reputation.getResponseCountPaginated(agentId, [], { pageSize: 33n }), 3n);
+      assert.equal(
+        await reputation.getResponseCountPaginated(agentId, [responder.account.address], { pageSize: 1000n }),
+        await reputation.getResponseCount(agentId, zeroAddress, 0n, [responder.account.address])
+      );
+      await assert.rejects(
+        reputation.getSummaryPaginated(agentId, {}, { pageSize: 0n }).then(() => undefined),
+        /pageSize must be at least 1/
+      );
+    });
+  });
+
+  describe("Deployment manifest", async function () {
+    it("Should round-trip a manifest and build clients for its network", async function () {
+      const addresses = await deployUpgradeable();
+      const chainId = await publicClient.getChainId();
+      const [deployer] = await viem.getWalletClients();
+      const deployed = (address: `0x${string}`, blockNumber: number) => ({
+        address,
+        transactionHash: ZERO_BYTES32,
+        blockNumber
+      });
+      const manifest: DeploymentManifest = {
+        network: "testnet",
+        chainId,
+        deployer: deployer.account.address,
+        deployedAt: new Date(0).toISOString(),
+        compiler: { version: "0.8.28", settings: { optimizer: { enabled: true, runs: 200 }, viaIR: true } },
+        contracts: {
+          identityRegistry: {
+            contractName: "IdentityRegistryUpgradeable",
+            proxy: deployed(addresses.identityRegistry, 12),
+            implementation: deployed(zeroAddress, 11),
+            initData: "0x8129fc1c"
+          },
+          reputationRegistry: {
+            contractName: "ReputationRegistryUpgradeable",
+            proxy: deployed(addresses.reputationRegistry, 14),
+            implementation: deployed(zeroAddress, 13),
+            initData: "0x"
+          },
+          validationRegistry: {
+            contractName: "ValidationRegistryUpgradeable",
+            proxy: deployed(addresses.validationRegistry, 16),
+            implementation: deployed(zeroAddress, 15),
+            initData: "0x"
+          }
+        }
+      };
+
+      const dir = mkdtempSync(join(tmpdir(), "erc8004-deployments-"));
+      try {
+        assert.equal(writeManifest(manifest, dir), getManifestPath("testnet", dir));
+        assert.deepEqual(readManifest("testnet", dir), manifest);
+        assert.equal(getDeploymentBlock(manifest), 12n);
+
+        const { identity, reputation } = await loadERC8004Clients("testnet", publicClient, deployer, dir);
+        assert.equal(identity.address, addresses.identityRegistry);
+        assert.equal(await reputation.getIdentityRegistry(), getAddress(addresses.identityRegistry));
+        const { agentId } = await identity.register("ipfs://agent");
+        assert.equal(await identity.getAgentUri(agentId), "ipfs://agent");
+
+        assert.throws(() => readManifest("mainnet", dir), /No deployment manifest for network "mainnet"/);
+        writeManifest({ ...manifest, network: "other", chainId: chainId + 1 }, dir);
+        await assert.rejects(
+          loadERC8004Clients("other", publicClient, deployer, dir),
+          new RegExp(`is for chain ${chainId + 1}, connected to ${chainId}`)
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { config } from "hardhat";
+
+import {
+  type StorageLayout,
+  assertStorageLayoutCompatible,
+  compareStorageLayouts,
+  erc7201Slot,
+  readStorageLayout
+} from "../src/upgrades/index.js";
+
+describe("Storage layout checker", async function () {
+  const read = (contractName: string) => readStorageLayout(contractName, config.paths.artifacts);
+  const kinds = (previous: StorageLayout, next: StorageLayout) =>
+    compareStorageLayouts(previous, next).map((issue) => [issue.kind, issue.label]);
+
+  it("Should read registry layouts and their ERC-7201 namespaces from the build info", async function () {
+    for (const contractName of [
+      "IdentityRegistryUpgradeable",
+      "ReputationRegistryUpgradeable",
+      "ValidationRegistryUpgradeable"
+    ]) {
+      const layout = read(contractName);
+      assert.deepEqual(compareStorageLayouts(layout, read(contractName)), []);
+      assert.ok(layout.namespaces.some((namespace) => namespace.id === "openzeppelin.storage.Ownable"));
+    }
+
+    const validation = read("ValidationRegistryUpgradeable");
+    assert.deepEqual(
+      validation.storage.map((item) => [item.label, item.slot]),
+      [
+        ["identityRegistry", "0"],
+        ["validations", "1"],
+        ["_agentValidations", "2"],
+        ["_validatorRequests", "3"],
+        ["_agentValidationPosition", "4"],
+        ["_validatorRequestPosition", "5"]
+      ]
+    );
+
+    // OwnableUpgradeable's hardcoded OwnableStorageLocation
+    const ownable = validation.namespaces.find((namespace) => namespace.id === "openzeppelin.storage.Ownable")!;
+    assert.equal(ownable.slot, "0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300");
+    assert.equal(ownable.slot, erc7201Slot("openzeppelin.storage.Ownable"));
+    assert.deepEqual(ownable.members, [{ label: "_owner", type: "address" }]);
+  });
+
+  it("Should accept appended variables, mapping struct members and namespace members", async function () {
+    const previous = read("MockStorageV1");
+    assert.deepEqual(compareStorageLayouts(previous, read("MockStorageV2Appended")), []);
+
+    // ...but not the reverse
+    assert.deepEqual(kinds(read("MockStorageV2Appended"), previous), [
+      ["retyped", "records"],
+      ["removed", "added"],
+      ["namespace-changed", "erc8004.mock.Namespaced.paused"]
+    ]);
+  });
+
+  it("Should accept the validation registry's appended state and struct fields", async function () {
+    // The layout before request state, deadlines and list positions were added
+    const current = read("ValidationRegistryUpgradeable");
+    const previous: StorageLayout = structuredClone(current);
+    previous.storage = previous.storage.filter((item) => !item.label.endsWith("Position"));
+    const statusId = Object.keys(previous.types).find((id) => id.startsWith("t_struct(ValidationStatus)"))!;
+    const status = previous.types[statusId];
+    status.members = status.members!.filter((member) => member.label !== "state" && member.label !== "deadline");
+
+    assert.deepEqual(compareStorageLayouts(previous, current), []);
+    assert.deepEqual(kinds(current, previous), [
+      ["retyped", "validations"],
+      ["removed", "_agentValidationPosition"],
+      ["removed", "_validatorRequestPosition"]
+    ]);
+  });
+
+  it("Should accept the reputation registry's appended feedback fields", async function () {
+    // The layout before feedback timestamps, amendments and disputes were added
+    const current = read("ReputationRegistryUpgradeable");
+    const previous: StorageLayout = structuredClone(current);
+    const feedbackId = Object.keys(previous.types).find((id) => id.startsWith("t_struct(Feedback)"))!;
+    const feedback = previous.types[feedbackId];
+    const appended = ["createdAt", "previousIndex", "supersededBy", "isDisputed"];
+    feedback.members = feedback.members!.filter((member) => !appended.includes(member.label));
+
+    assert.deepEqual(compareStorageLayouts(previous, current), []);
+    assert.deepEqual(kinds(current, previous), [["retyped", "_feedback"]]);
+  });
+
+  it("Should flag reordered, retyped, removed, inserted and renamed variables", async function () {
+    const previous = read("MockStorageV1");
+    assert.deepEqual(kinds(previous, read("MockStorageV2Reordered")), [
+      ["reordered", "count"],
+      ["reordered", "owner"]
+    ]);
+    assert.deepEqual(kinds(previous, read("MockStorageV2Retyped")), [
+      ["retyped", "count"],
+      ["retyped", "records"]
+    ]);
+    assert.deepEqual(kinds(previous, read("MockStorageV2Removed")), [
+      ["removed", "count"],
+      ["reordered", "owner"],
+      ["reordered", "records"],
+      ["reordered", "history"]
+    ]);
+    assert.deepEqual(kinds(previous, read("MockStorageV2Inserted")), [
+      ["reordered", "owner"],
+      ["reordered", "records"],
+      ["reordered", "history"],
+      ["inserted", "inserted"]
+    ]);
+    assert.deepEqual(kinds(previous, read("MockStorageV2Renamed")), [["renamed", "count"]]);
+
+    // Struct elements of a dynamic array cannot grow: the array stride would change
+    const [issue] = compareStorageLayouts(previous, read("MockStorageV2GrownArray"));
+    assert.equal(issue.kind, "retyped");
+    assert.equal(issue.label, "history");
+    assert.match(issue.detail, /Entry grew from 32 to 64 bytes outside a mapping/);
+  });
+
+  it("Should flag namespaced storage that was dropped or rearranged", async function () {
+    const previous = read("MockStorageV1");
+    assert.deepEqual(kinds(previous, read("MockStorageV2NamespaceRemoved")), [
+      ["namespace-removed", "erc8004.mock.Namespaced"]
+    ]);
+    assert.deepEqual(kinds(previous, read("MockStorageV2NamespaceChanged")), [
+      ["namespace-changed", "erc8004.mock.Namespaced.admin"],
+      ["namespace-changed", "erc8004.mock.Namespaced.nonce"]
+    ]);
+
+    assert.throws(
+      () => assertStorageLayoutCompatible("MockStorageV2NamespaceRemoved", previous, read("MockStorageV2NamespaceRemoved")),
+      /Incompatible storage layout for MockStorageV2NamespaceRemoved:\n  namespace-removed erc8004.mock.Namespaced/
+    );
+  });
+});
@@ -1,10 +1,39 @@
 import assert from "node:assert/strict";
-import { describe, it } from "node:test";
-import { network } from "hardhat";
-import { encodeAbiParameters, getAddress, keccak256, toHex } from "viem";
+import { after, before, describe, it } from "node:test";
+import { artifacts, network } from "hardhat";
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAbiItem,
+  getAddress,
+  keccak256,
+  toHex
+} from "viem";
+
+import ERC8004UpgradeableModule from "../ignition/modules/ERC8004Upgradeable.js";
+
+import {
+  ZERO_BYTES32,
+  buildFeedbackAuth,
+  encodeFeedbackAuth,
+  getFeedbackAuthTypedData,
+  getFeedbackAuthTypedDataDigest,
+  signFeedbackAuth
+} from "../src/sdk/index.js";
+import {
+  type SafeTransactionBatch,
+  buildSafeUpgradeBatch,
+  calculateSafeBatchChecksum,
+  encodeUpgradeCall,
+  getImplementationAddress,
+  getUpgradeTimelock,
+  planUpgrade,
+  predictImplementation
+} from "../src/upgrades/index.js";
 
 describe("ERC8004 Upgradeable Registries", async function () {
-  const { viem } = await network.connect();
+  const { viem, networkHelpers, ignition } = await network.connect();
   const publicClient = await viem.getPublicClient();
 
   // Helper function to extract agentId from Registered event
@@ -51,7 +80,7 @@ describe("ERC8004 Upgradeable Registries", async function () {
 
       // Verify initialization
       const version = await identityRegistry.read.getVersion();
-      assert.equal(version, "1.0.0");
+      assert.equal(version, "1.1.0");
 
       // Verify owner
       const contractOwner = await identityRegistry.read.owner();
@@ -176,7 +205,7 @@ describe("ERC8004 Upgradeable Registries", async function () {
 
       // Verify initialization
       const version = await reputationRegistry.read.getVersion();
-      assert.equal(version, "1.0.0");
+      assert.equal(version, "1.1.0");
 
       const storedIdentityRegistry = await reputationRegistry.read.getIdentityRegistry();
       assert.equal(storedIdentityRegistry.toLowerCase(), identityProxy.address.toLowerCase());
@@ -274,7 +303,7 @@ describe("ERC8004 Upgradeable Registries", async function () {
 
       // Verify initialization
       const version = await validationRegistry.read.getVersion();
-      assert.equal(version, "1.0.0");
+      assert.equal(version, "1.1.0");
 
       const storedIdentityRegistry = await validationRegistry.read.getIdentityRegistry();
       assert.equal(storedIdentityRegistry.toLowerCase(), identityProxy.address.toLowerCase());
@@ -330,6 +359,87 @@ describe("ERC8004 Upgradeable Registries", async function () {
       assert.equal(status[1], agentId);
       assert.equal(status[2], 100); // response
     });
+
+    it("Should exclude pending requests and classify requests stored before the state field", async function () {
+      const [owner, validator] = await viem.getWalletClients();
+
+      const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+      const identityProxy = await deployProxy(identityImpl.address, encodeInitialize());
+      const identityRegistry = await viem.getContractAt("IdentityRegistryUpgradeable", identityProxy.address);
+
+      const validationImpl = await viem.deployContract("ValidationRegistryUpgradeable");
+      const validationProxy = await deployProxy(validationImpl.address, encodeInitializeWithAddress(identityProxy.address));
+      const validationRegistry = await viem.getContractAt("ValidationRegistryUpgradeable", validationProxy.address);
+
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const answered = keccak256(toHex("answered"));
+      const pending = keccak256(toHex("pending"));
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://a", answered]);
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://p", pending]);
+      await validationRegistry.write.validationResponse(
+        [answered, 60, "ipfs://resp", keccak256(toHex("resp")), keccak256(toHex("tag"))],
+        { account: validator.account }
+      );
+
+      let summary = await validationRegistry.read.getSummary([agentId, [], ZERO_BYTES32]);
+      assert.equal(summary[0], 1n);
+      assert.equal(summary[1], 60);
+
+      // Clear the `state` field (7th struct slot of validations, mapping at slot 1) to mimic
+      // entries written by the previous implementation
+      for (const requestHash of [answered, pending]) {
+        const base = BigInt(keccak256(encodeAbiParameters([{ type: "bytes32" }, { type: "uint256" }], [requestHash, 1n])));
+        const slot = toHex(base + 6n, { size: 32 });
+        assert.notEqual(BigInt((await publicClient.getStorageAt({ address: validationProxy.address, slot }))!), 0n);
+        await networkHelpers.setStorageAt(validationProxy.address, slot, 0n);
+      }
+
+      assert.equal(await validationRegistry.read.getValidationState([answered]), 2); // Responded
+      assert.equal(await validationRegistry.read.getValidationState([pending]), 1); // Pending
+      summary = await validationRegistry.read.getSummary([agentId, [], ZERO_BYTES32]);
+      assert.equal(summary[0], 1n);
+      const counts = await validationRegistry.read.getPendingCount([agentId, []]);
+      assert.equal(counts[0], 1n);
+      assert.equal(counts[1], 1n);
+    });
+
+    it("Should cancel requests stored before positions were tracked", async function () {
+      const [owner, validator] = await viem.getWalletClients();
+
+      const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+      const identityProxy = await deployProxy(identityImpl.address, encodeInitialize());
+      const identityRegistry = await viem.getContractAt("IdentityRegistryUpgradeable", identityProxy.address);
+
+      const validationImpl = await viem.deployContract("ValidationRegistryUpgradeable");
+      const validationProxy = await deployProxy(validationImpl.address, encodeInitializeWithAddress(identityProxy.address));
+      const validationRegistry = await viem.getContractAt("ValidationRegistryUpgradeable", validationProxy.address);
+
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const hashes = [keccak256(toHex("r1")), keccak256(toHex("r2")), keccak256(toHex("r3"))];
+      for (const requestHash of hashes) {
+        await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://req", requestHash]);
+      }
+
+      // Clear both position mappings (slots 4 and 5) as if the requests predate them
+      for (const requestHash of hashes) {
+        for (const mappingSlot of [4n, 5n]) {
+          const slot = keccak256(encodeAbiParameters([{ type: "bytes32" }, { type: "uint256" }], [requestHash, mappingSlot]));
+          assert.notEqual(BigInt((await publicClient.getStorageAt({ address: validationProxy.address, slot }))!), 0n);
+          await networkHelpers.setStorageAt(validationProxy.address, slot, 0n);
+        }
+      }
+
+      await validationRegistry.write.cancelValidationRequest([hashes[1]]);
+      assert.deepEqual(await validationRegistry.read.getAgentValidations([agentId]), [hashes[0], hashes[2]]);
+      await validationRegistry.write.cancelValidationRequest([hashes[0]]);
+      assert.deepEqual(await validationRegistry.read.getAgentValidations([agentId]), [hashes[2]]);
+      assert.deepEqual(await validationRegistry.read.getValidatorRequests([validator.account.address]), [hashes[2]]);
+      assert.equal(await validationRegistry.read.getValidationState([hashes[0]]), 3); // Cancelled
+    });
   });
 
   describe("Full Integration Test with Upgrades", async function () {
@@ -461,8 +571,11 @@ describe("ERC8004 Upgradeable Registries", async function () {
         const txHash = await registry.write.register(["ipfs://agent"]);
         const agentId = await getAgentIdFromRegistration(txHash);
 
-        // Transfer ownership to newOwner
+        // Transfer ownership to newOwner, which only takes effect once accepted
         await registry.write.transferOwnership([newOwner.account.address]);
+        assert.equal(await registry.read.owner(), getAddress(owner.account.address));
+        assert.equal(await registry.read.pendingOwner(), getAddress(newOwner.account.address));
+        await registry.write.acceptOwnership({ account: newOwner.account });
 
         // Verify ownership transferred
         const currentOwner = await registry.read.owner();
@@ -654,6 +767,137 @@ describe("ERC8004 Upgradeable Registries", async function () {
         }
       });
     });
+
+    describe("Two-Step Ownership and Upgrade Timelock", async function () {
+      // Later tests sign feedbackAuth expiries against the wall clock, so undo the time travel
+      let snapshot: Awaited<ReturnType<typeof networkHelpers.takeSnapshot>>;
+      before(async function () {
+        snapshot = await networkHelpers.takeSnapshot();
+      });
+      after(async function () {
+        await snapshot.restore();
+      });
+
+      async function deployIdentityRegistry() {
+        const impl = await viem.deployContract("IdentityRegistryUpgradeable");
+        const proxy = await deployProxy(impl.address, encodeInitialize());
+        return await viem.getContractAt("IdentityRegistryUpgradeable", proxy.address);
+      }
+
+      it("Should only transfer ownership once the new owner accepts", async function () {
+        const [owner, newOwner, attacker] = await viem.getWalletClients();
+        const registry = await deployIdentityRegistry();
+
+        await registry.write.transferOwnership([newOwner.account.address]);
+        assert.equal(await registry.read.owner(), getAddress(owner.account.address));
+        assert.equal(await registry.read.pendingOwner(), getAddress(newOwner.account.address));
+
+        await assert.rejects(
+          registry.write.acceptOwnership({ account: attacker.account }),
+          /OwnableUnauthorizedAccount/
+        );
+
+        // The current owner keeps full control until the handshake completes
+        const implV2 = await viem.deployContract("IdentityRegistryUpgradeable");
+        await registry.write.upgradeToAndCall([implV2.address, "0x"]);
+
+        await viem.assertions.emitWithArgs(
+          registry.write.acceptOwnership({ account: newOwner.account }),
+          registry,
+          "OwnershipTransferred",
+          [getAddress(owner.account.address), getAddress(newOwner.account.address)]
+        );
+        assert.equal(await registry.read.owner(), getAddress(newOwner.account.address));
+        assert.equal(await registry.read.pendingOwner(), "0x0000000000000000000000000000000000000000");
+      });
+
+      it("Should only execute the scheduled upgrade once the delay has passed", async function () {
+        const [, attacker] = await viem.getWalletClients();
+        const registry = await deployIdentityRegistry();
+        const delay = 3600n;
+
+        await assert.rejects(registry.write.setUpgradeDelay([delay], { account: attacker.account }), /OwnableUnauthorizedAccount/);
+        await registry.write.setUpgradeDelay([delay]);
+        assert.equal(await registry.read.getUpgradeDelay(), delay);
+
+        const implV2 = await viem.deployContract("IdentityRegistryUpgradeable");
+        const data = encodeFunctionData({ abi: registry.abi, functionName: "getVersion" });
+        await assert.rejects(registry.write.upgradeToAndCall([implV2.address, data]), /Upgrade not scheduled/);
+
+        await assert.rejects(
+          registry.write.scheduleUpgrade([implV2.address, data], { account: attacker.account }),
+          /OwnableUnauthorizedAccount/
+        );
+        const hash = await registry.write.scheduleUpgrade([implV2.address, data]);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        const { timestamp } = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+        assert.deepEqual(await registry.read.getScheduledUpgrade(), [getAddress(implV2.address), keccak256(data), timestamp + delay]);
+        await assert.rejects(registry.write.scheduleUpgrade([implV2.address, data]), /Upgrade already scheduled/);
+
+        await assert.rejects(registry.write.upgradeToAndCall([implV2.address, data]), /Upgrade not ready/);
+
+        await networkHelpers.time.increaseTo(timestamp + delay);
+
+        // Only the announced implementation and calldata go through
+        const implV3 = await viem.deployContract("IdentityRegistryUpgradeable");
+        await assert.rejects(registry.write.upgradeToAndCall([implV3.address, data]), /Upgrade not scheduled/);
+        await assert.rejects(registry.write.upgradeToAndCall([implV2.address, "0x"]), /Upgrade not scheduled/);
+        await assert.rejects(
+          registry.write.upgradeToAndCall([implV2.address, data], { account: attacker.account }),
+          /OwnableUnauthorizedAccount/
+        );
+
+        await viem.assertions.emitWithArgs(
+          registry.write.upgradeToAndCall([implV2.address, data]),
+          registry,
+          "UpgradeExecuted",
+          [getAddress(implV2.address)]
+        );
+        assert.equal(await getImplementationAddress(publicClient, registry.address), getAddress(implV2.address));
+        assert.deepEqual(await registry.read.getScheduledUpgrade(), ["0x0000000000000000000000000000000000000000", ZERO_BYTES32, 0n]);
+
+        // The schedule is consumed: replaying it needs a new announcement
+        await assert.rejects(registry.write.upgradeToAndCall([implV2.address, data]), /Upgrade not scheduled/);
+      });
+
+      it("Should cancel a scheduled upgrade", async function () {
+        const registry = await deployIdentityRegistry();
+        await registry.write.setUpgradeDelay([60n]);
+
+        const implV2 = await viem.deployContract("IdentityRegistryUpgradeable");
+        await assert.rejects(registry.write.cancelUpgrade(), /No upgrade scheduled/);
+        await registry.write.scheduleUpgrade([implV2.address, "0x"]);
+        await viem.assertions.emitWithArgs(
+          registry.write.cancelUpgrade(),
+          registry,
+          "UpgradeCancelled",
+          [getAddress(implV2.address)]
+        );
+
+        await networkHelpers.time.increase(60);
+        await assert.rejects(registry.write.upgradeToAndCall([implV2.address, "0x"]), /Upgrade not scheduled/);
+      });
+
+      it("Should apply a lowered delay only after the current delay", async function () {
+        const registry = await deployIdentityRegistry();
+        await registry.write.setUpgradeDelay([3600n]);
+
+        const hash = await registry.write.setUpgradeDelay([0n]);
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        const { timestamp } = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+        assert.equal(await registry.read.getUpgradeDelay(), 3600n);
+        assert.deepEqual(await registry.read.getPendingUpgradeDelay(), [0n, timestamp + 3600n]);
+
+        const implV2 = await viem.deployContract("IdentityRegistryUpgradeable");
+        await assert.rejects(registry.write.upgradeToAndCall([implV2.address, "0x"]), /Upgrade not scheduled/);
+
+        await networkHelpers.time.increaseTo(timestamp + 3600n);
+        assert.equal(await registry.read.getUpgradeDelay(), 0n);
+        assert.deepEqual(await registry.read.getPendingUpgradeDelay(), [0n, 0n]);
+        await registry.write.upgradeToAndCall([implV2.address, "0x"]);
+        assert.equal(await getImplementationAddress(publicClient, registry.address), getAddress(implV2.address));
+      });
+    });
   });
 
   describe("ReputationRegistryUpgradeable - ERC-1271 Support", async function () {
@@ -1187,4 +1431,558 @@ describe("ERC8004 Upgradeable Registries", async function () {
       assert.equal(lastIndex, 2n);
     });
   });
+
+  describe("ReputationRegistryUpgradeable - EIP-712 FeedbackAuth", async function () {
+    it("Should bind the EIP-712 domain to the proxy and accept typed-data feedbackAuth", async function () {
+      const [agentOwner, client] = await viem.getWalletClients();
+
+      // Deploy identity registry
+      const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+      const identityProxy = await deployProxy(identityImpl.address, encodeInitialize());
+      const identityRegistry = await viem.getContractAt("IdentityRegistryUpgradeable", identityProxy.address);
+
+      // Deploy reputation registry
+      const reputationImpl = await viem.deployContract("ReputationRegistryUpgradeable");
+      const reputationProxy = await deployProxy(reputationImpl.address, encodeInitializeWithAddress(identityProxy.address));
+      const reputationRegistry = await viem.getContractAt("ReputationRegistryUpgradeable", reputationProxy.address);
+
+      const domain = await reputationRegistry.read.eip712Domain();
+      assert.equal(domain[1], "ERC8004ReputationRegistry");
+      assert.equal(domain[2], "1");
+      assert.equal(domain[4], getAddress(reputationProxy.address));
+
+      const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      const auth = buildFeedbackAuth({
+        agentId,
+        clientAddress: client.account.address,
+        indexLimit: 10n,
+        chainId: BigInt(await publicClient.getChainId()),
+        identityRegistry: identityProxy.address,
+        signerAddress: agentOwner.account.address
+      });
+      assert.equal(
+        await reputationRegistry.read.getFeedbackAuthTypedDataHash([auth]),
+        getFeedbackAuthTypedDataDigest(auth, reputationProxy.address)
+      );
+
+      // A signature bound to the implementation's address must not verify through the proxy
+      const implSignature = await agentOwner.signTypedData(getFeedbackAuthTypedData(auth, reputationImpl.address));
+      await assert.rejects(
+        reputationRegistry.write.giveFeedback(
+          [agentId, 75, keccak256(toHex("eip712")), keccak256(toHex("test")), "ipfs://feedback", keccak256(toHex("content")), encodeFeedbackAuth({ ...auth, signature: implSignature })],
+          { account: client.account }
+        ),
+        /Invalid signature/
+      );
+
+      const signature = await agentOwner.signTypedData(getFeedbackAuthTypedData(auth, reputationProxy.address));
+      await reputationRegistry.write.giveFeedback(
+        [agentId, 75, keccak256(toHex("eip712")), keccak256(toHex("test")), "ipfs://feedback", keccak256(toHex("content")), encodeFeedbackAuth({ ...auth, signature })],
+        { account: client.account }
+      );
+
+      const feedback = await reputationRegistry.read.readFeedback([agentId, client.account.address, 1n]);
+      assert.equal(feedback[0], 75);
+    });
+  });
+
+  describe("ReputationRegistryUpgradeable - Pagination", async function () {
+    it("Should page clients and feedback through the proxy", async function () {
+      const [agentOwner, clientA, clientB] = await viem.getWalletClients();
+
+      const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+      const identityProxy = await deployProxy(identityImpl.address, encodeInitialize());
+      const identityRegistry = await viem.getContractAt("IdentityRegistryUpgradeable", identityProxy.address);
+
+      const reputationImpl = await viem.deployContract("ReputationRegistryUpgradeable");
+      const reputationProxy = await deployProxy(reputationImpl.address, encodeInitializeWithAddress(identityProxy.address));
+      const reputationRegistry = await viem.getContractAt("ReputationRegistryUpgradeable", reputationProxy.address);
+
+      const txHash = await identityRegistry.write.register(["ipfs://agent"], { account: agentOwner.account });
+      const agentId = await getAgentIdFromRegistration(txHash);
+
+      for (const [client, scores] of [[clientA, [10, 20]], [clientB, [30]]] as const) {
+        const auth = buildFeedbackAuth({
+          agentId,
+          clientAddress: client.account.address,
+          indexLimit: 10n,
+          chainId: BigInt(await publicClient.getChainId()),
+          identityRegistry: identityProxy.address,
+          signerAddress: agentOwner.account.address
+        });
+        const feedbackAuth = encodeFeedbackAuth(await signFeedbackAuth(auth, agentOwner));
+        for (const score of scores) {
+          await reputationRegistry.write.giveFeedback(
+            [agentId, score, keccak256(toHex("tag1")), keccak256(toHex("tag2")), "", keccak256(toHex("c")), feedbackAuth],
+            { account: client.account }
+          );
+        }
+      }
+
+      assert.equal(await reputationRegistry.read.getClientCount([agentId]), 2n);
+      const [clients, total] = await reputationRegistry.read.getClientsPaginated([agentId, 1n, 5n]);
+      assert.deepEqual(clients, [getAddress(clientB.account.address)]);
+      assert.equal(total, 2n);
+
+      const first = await reputationRegistry.read.readFeedbackPage([agentId, 0n, 0n, 2n]);
+      assert.deepEqual(first[1], [1n, 2n]); // indexes
+      assert.deepEqual(first[2], [10, 20]); // scores
+      assert.deepEqual(first[6], [false, false]); // disputedStatuses
+      assert.deepEqual(first[7], [0n, 0n]); // supersededBy
+      assert.equal(first[8], 1n); // nextClientOffset
+      assert.equal(first[9], 1n); // nextIndex
+
+      const second = await reputationRegistry.read.readFeedbackPage([agentId, first[8], first[9], 2n]);
+      assert.deepEqual(second[0], [getAddress(clientB.account.address)]);
+      assert.deepEqual(second[2], [30]);
+      assert.equal(second[8], 2n); // past the last client
+      assert.equal(second[9], 0n);
+
+      const summary = await reputationRegistry.read.getSummaryPage([agentId, 0n, 2n, 10n, ZERO_BYTES32, ZERO_BYTES32, false]);
+      assert.equal(summary[0], 2n); // count
+      assert.equal(summary[1], 50n); // scoreTotal
+    });
+  });
+
+  describe("Emergency pause", async function () {
+    async function deployRegistries() {
+      const identityImpl = await viem.deployContract("IdentityRegistryUpgradeable");
+      const identityProxy = await deployProxy(identityImpl.address, encodeInitialize());
+      const reputationImpl = await viem.deployContract("ReputationRegistryUpgradeable");
+      const reputationProxy = await deployProxy(reputationImpl.address, encodeInitializeWithAddress(identityProxy.address));
+      const validationImpl = await viem.deployContract("ValidationRegistryUpgradeable");
+      const validationProxy = await deployProxy(validationImpl.address, encodeInitializeWithAddress(identityProxy.address));
+      return {
+        identityRegistry: await viem.getContractAt("IdentityRegistryUpgradeable", identityProxy.address),
+        reputationRegistry: await viem.getContractAt("ReputationRegistryUpgradeable", reputationProxy.address),
+        validationRegistry: await viem.getContractAt("ValidationRegistryUpgradeable", validationProxy.address)
+      };
+    }
+
+    it("Should let the owner manage pausers and keep unpausing to the owner", async function () {
+      const [owner, pauser, attacker] = await viem.getWalletClients();
+      const { validationRegistry: registry } = await deployRegistries();
+
+      await assert.rejects(
+        registry.write.grantPauser([pauser.account.address], { account: attacker.account }),
+        /OwnableUnauthorizedAccount/
+      );
+      await viem.assertions.emitWithArgs(
+        registry.write.grantPauser([pauser.account.address]),
+        registry,
+        "PauserGranted",
+        [getAddress(pauser.account.address)]
+      );
+      assert.equal(await registry.read.isPauser([pauser.account.address]), true);
+      await assert.rejects(registry.write.grantPauser([pauser.account.address]), /Already pauser/);
+      await assert.rejects(registry.write.pause({ account: attacker.account }), /Not pauser/);
+
+      await viem.assertions.emitWithArgs(
+        registry.write.pause({ account: pauser.account }),
+        registry,
+        "Paused",
+        [getAddress(pauser.account.address)]
+      );
+      assert.equal(await registry.read.paused(), true);
+      await assert.rejects(registry.write.pause(), /EnforcedPause/);
+      await assert.rejects(registry.write.unpause({ account: pauser.account }), /OwnableUnauthorizedAccount/);
+      await viem.assertions.emitWithArgs(
+        registry.write.unpause(),
+        registry,
+        "Unpaused",
+        [getAddress(owner.account.address)]
+      );
+      await assert.rejects(registry.write.unpause(), /ExpectedPause/);
+
+      await viem.assertions.emitWithArgs(
+        registry.write.revokePauser([pauser.account.address]),
+        registry,
+        "PauserRevoked",
+        [getAddress(pauser.account.address)]
+      );
+      await assert.rejects(registry.write.pause({ account: pauser.account }), /Not pauser/);
+      await assert.rejects(registry.write.revokePauser([pauser.account.address]), /Not pauser/);
+
+      await registry.write.grantPauser([attacker.account.address]);
+      await viem.assertions.emitWithArgs(
+        registry.write.renouncePauser({ account: attacker.account }),
+        registry,
+        "PauserRevoked",
+        [getAddress(attacker.account.address)]
+      );
+      assert.equal(await registry.read.isPauser([attacker.account.address]), false);
+
+      // The owner can always pause, without holding the role
+      await registry.write.pause();
+      assert.equal(await registry.read.paused(), true);
+    });
+
+    it("Should halt every write path while paused and resume afterwards", async function () {
+      const [agentOwner, client, validator, buyer] = await viem.getWalletClients();
+      const { identityRegistry, reputationRegistry, validationRegistry } = await deployRegistries();
+      const chainId = BigInt(await publicClient.getChainId());
+
+      const agentId = await getAgentIdFromRegistration(await identityRegistry.write.register(["ipfs://agent"]));
+      const auth = buildFeedbackAuth({
+        agentId,
+        clientAddress: client.account.address,
+        indexLimit: 10n,
+        chainId,
+        identityRegistry: identityRegistry.address,
+        signerAddress: agentOwner.account.address
+      });
+      const signature = await agentOwner.signTypedData(getFeedbackAuthTypedData(auth, reputationRegistry.address));
+      const feedbackAuth = encodeFeedbackAuth({ ...auth, signature });
+      const giveFeedback = () =>
+        reputationRegistry.write.giveFeedback(
+          [agentId, 80, ZERO_BYTES32, ZERO_BYTES32, "ipfs://feedback", ZERO_BYTES32, feedbackAuth],
+          { account: client.account }
+        );
+      await giveFeedback();
+      const requestHash = keccak256(toHex("paused-request"));
+      await validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://request", requestHash]);
+
+      await identityRegistry.write.pause();
+      await reputationRegistry.write.pause();
+      await validationRegistry.write.pause();
+
+      const writes = [
+        () => identityRegistry.write.register(),
+        () => identityRegistry.write.register(["ipfs://other"]),
+        () => identityRegistry.write.register(["ipfs://other", [{ key: "k", value: "0x01" }]]),
+        () => identityRegistry.write.setMetadata([agentId, "k", "0x01"]),
+        () => identityRegistry.write.setAgentUri([agentId, "ipfs://moved"]),
+        () => identityRegistry.write.transferFrom([agentOwner.account.address, buyer.account.address, agentId]),
+        giveFeedback,
+        () => reputationRegistry.write.revokeFeedback([agentId, 1n], { account: client.account }),
+        () => reputationRegistry.write.appendResponse([agentId, client.account.address, 1n, "ipfs://response", ZERO_BYTES32]),
+        () => reputationRegistry.write.disputeFeedback([agentId, client.account.address, 1n, "ipfs://dispute", ZERO_BYTES32]),
+        () => validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://request", keccak256(toHex("new"))]),
+        () => validationRegistry.write.validationRequest([validator.account.address, agentId, "ipfs://request", keccak256(toHex("new")), 2n ** 40n]),
+        () => validationRegistry.write.validationResponse([requestHash, 90, "ipfs://response", ZERO_BYTES32, ZERO_BYTES32], {
+          account: validator.account
+        }),
+        () => validationRegistry.write.cancelValidationRequest([requestHash])
+      ];
+      for (const write of writes) {
+        await assert.rejects(write(), /EnforcedPause/);
+      }
+
+      // Reads keep working
+      assert.equal(await identityRegistry.read.tokenURI([agentId]), "ipfs://agent");
+      assert.equal(await identityRegistry.read.ownerOf([agentId]), getAddress(agentOwner.account.address));
+      assert.equal((await reputationRegistry.read.readFeedback([agentId, client.account.address, 1n]))[0], 80);
+      assert.equal((await validationRegistry.read.getValidationStatus([requestHash]))[0], getAddress(validator.account.address));
+
+      // Ownership and upgrades are not affected, so a fix can ship while paused
+      const fixedImpl = await viem.deployContract("ReputationRegistryUpgradeable");
+      await reputationRegistry.write.upgradeToAndCall([fixedImpl.address, "0x"]);
+      assert.equal(await reputationRegistry.read.paused(), true);
+
+      await identityRegistry.write.unpause();
+      await reputationRegistry.write.unpause();
+      await validationRegistry.write.unpause();
+      await identityRegistry.write.setAgentUri([agentId, "ipfs://moved"]);
+      assert.equal(await identityRegistry.read.tokenURI([agentId]), "ipfs://moved");
+      await giveFeedback();
+      assert.equal(await reputationRegistry.read.getLastIndex([agentId, client.account.address]), 2n);
+      await reputationRegistry.write.appendResponse([agentId, client.account.address, 1n, "ipfs://response", ZERO_BYTES32]);
+      await validationRegistry.write.validationResponse([requestHash, 90, "ipfs://response", ZERO_BYTES32, ZERO_BYTES32], {
+        account: validator.account
+      });
+      assert.equal((await validationRegistry.read.getValidationStatus([requestHash]))[2], 90);
+    });
+  });
+
+  describe("Ignition module", async function () {
+    it("Should deploy initialized proxies typed with the implementation ABIs", async function () {
+      const [owner, client] = await viem.getWalletClients();
+      const deployment = await ignition.deploy(ERC8004UpgradeableModule);
+      const { identityRegistry, reputationRegistry, validationRegistry } = deployment;
+
+      for (const [proxy, implementation] of [
+        [identityRegistry, deployment.identityRegistryImplementation],
+        [reputationRegistry, deployment.reputationRegistryImplementation],
+        [validationRegistry, deployment.validationRegistryImplementation]
+      ] as const) {
+        assert.equal(
+          await getImplementationAddress(publicClient, proxy.address),
+          getAddress(implementation.address)
+        );
+        assert.equal(await proxy.read.owner(), getAddress(owner.account.address));
+        assert.equal(await proxy.read.getVersion(), "1.1.0");
+      }
+
+      // Initializers were encoded from the ABI and ran exactly once
+      assert.equal(await reputationRegistry.read.getIdentityRegistry(), getAddress(identityRegistry.address));
+      assert.equal(await validationRegistry.read.getIdentityRegistry(), getAddress(identityRegistry.address));
+      await viem.assertions.revertWithCustomError(
+        identityRegistry.write.initialize(),
+        identityRegistry,
+        "InvalidInitialization"
+      );
+      await viem.assertions.revertWithCustomError(
+        reputationRegistry.write.initialize([client.account.address]),
+        reputationRegistry,
+        "InvalidInitialization"
+      );
+
+      const txHash = await identityRegistry.write.register(["ipfs://agent"]);
+      const agentId = await getAgentIdFromRegistration(txHash);
+      assert.equal(await identityRegistry.read.tokenURI([agentId]), "ipfs://agent");
+    });
+  });
+
+  describe("Upgrade planning", async function () {
+    it("Should simulate an upgrade to an undeployed implementation without sending anything", async function () {
+      const [owner] = await viem.getWalletClients();
+      const { identityRegistry, identityRegistryImplementation } = await ignition.deploy(ERC8004UpgradeableModule);
+      const { bytecode } = await artifacts.readArtifact("IdentityRegistryUpgradeable");
+
+      const predicted = await predictImplementation(publicClient, owner.account.address, bytecode);
+      const dryRun = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: owner.account,
+        implementation: predicted
+      });
+      assert.equal(dryRun.currentImplementation, getAddress(identityRegistryImplementation.address));
+      assert.equal(dryRun.newImplementation, predicted.address);
+      assert.equal(dryRun.currentVersion, "1.1.0");
+      assert.equal(dryRun.newVersion, "1.1.0");
+      assert.equal(dryRun.initData, "0x");
+      assert.equal(await publicClient.getCode({ address: predicted.address }), undefined);
+
+      // A later nonce, as for the second of several implementations deployed in a row
+      const nonce = await publicClient.getTransactionCount({ address: owner.account.address });
+      const later = await predictImplementation(publicClient, owner.account.address, bytecode, nonce + 1);
+      assert.notEqual(later.address, predicted.address);
+      await planUpgrade(publicClient, { proxy: identityRegistry.address, account: owner.account, implementation: later });
+      assert.equal(
+        await getImplementationAddress(publicClient, identityRegistry.address),
+        getAddress(identityRegistryImplementation.address)
+      );
+
+      // The real deployment lands where predicted; executing the plan switches the ERC-1967 slot
+      const implementation = await viem.deployContract("IdentityRegistryUpgradeable");
+      assert.equal(getAddress(implementation.address), predicted.address);
+      const plan = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: owner.account,
+        implementation: implementation.address
+      });
+      assert.ok(plan.step === "upgrade");
+      const hash = await owner.writeContract(plan.request);
+      await publicClient.waitForTransactionReceipt({ hash });
+      assert.equal(await getImplementationAddress(publicClient, identityRegistry.address), predicted.address);
+    });
+
+    it("Should surface reverts from unauthorized upgrades and bad reinitializer calldata", async function () {
+      const [owner, attacker] = await viem.getWalletClients();
+      const { reputationRegistry, identityRegistry } = await ignition.deploy(ERC8004UpgradeableModule);
+      const implementation = await viem.deployContract("ReputationRegistryUpgradeable");
+
+      await assert.rejects(
+        planUpgrade(publicClient, {
+          proxy: reputationRegistry.address,
+          account: attacker.account,
+          implementation: implementation.address
+        }),
+        /OwnableUnauthorizedAccount/
+      );
+
+      // initialize() is not a reinitializer, so running it again through upgradeToAndCall reverts
+      // with InvalidInitialization() (0xf92ee8a9), which the simulated node reports undecoded
+      await assert.rejects(
+        planUpgrade(publicClient, {
+          proxy: reputationRegistry.address,
+          account: owner.account,
+          implementation: implementation.address,
+          initData: encodeFunctionData({
+            abi: reputationRegistry.abi,
+            functionName: "initialize",
+            args: [identityRegistry.address]
+          })
+        }),
+        /0xf92ee8a9/
+      );
+      assert.notEqual(
+        await getImplementationAddress(publicClient, reputationRegistry.address),
+        getAddress(implementation.address)
+      );
+    });
+
+    it("Should schedule upgrades of timelocked proxies and execute them once due", async function () {
+      const [owner] = await viem.getWalletClients();
+      const { identityRegistry, reputationRegistry } = await ignition.deploy(ERC8004UpgradeableModule);
+      await identityRegistry.write.setUpgradeDelay([3600n]);
+      const { bytecode } = await artifacts.readArtifact("IdentityRegistryUpgradeable");
+
+      // A dry run against predicted code plans the announcement, not the upgrade
+      const predicted = await predictImplementation(publicClient, owner.account.address, bytecode);
+      const dryRun = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: owner.account,
+        implementation: predicted
+      });
+      assert.equal(dryRun.step, "schedule");
+      assert.equal(dryRun.delay, 3600n);
+
+      const implementation = await viem.deployContract("IdentityRegistryUpgradeable");
+      const schedule = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: owner.account,
+        implementation: implementation.address
+      });
+      assert.ok(schedule.step === "schedule");
+      await publicClient.waitForTransactionReceipt({ hash: await owner.writeContract(schedule.request) });
+      const timelock = await getUpgradeTimelock(publicClient, identityRegistry.address);
+      assert.equal(timelock.scheduledImplementation, getAddress(implementation.address));
+      assert.equal(timelock.scheduledDataHash, keccak256("0x"));
+
+      // The same upgrade is now the execution, which reverts until the delay has passed
+      const early = planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: owner.account,
+        implementation: implementation.address
+      });
+      await assert.rejects(early, /Upgrade not ready/);
+      await networkHelpers.time.increaseTo(timelock.readyAt);
+      const execute = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: owner.account,
+        implementation: implementation.address
+      });
+      assert.ok(execute.step === "upgrade");
+      await publicClient.waitForTransactionReceipt({ hash: await owner.writeContract(execute.request) });
+      assert.equal(await getImplementationAddress(publicClient, identityRegistry.address), getAddress(implementation.address));
+
+      // Without a delay an upgrade is immediate unless scheduling is asked for
+      const next = await viem.deployContract("ReputationRegistryUpgradeable");
+      const plan = { proxy: reputationRegistry.address, account: owner.account, implementation: next.address };
+      assert.equal((await planUpgrade(publicClient, plan)).step, "upgrade");
+      assert.equal((await planUpgrade(publicClient, { ...plan, schedule: true })).step, "schedule");
+    });
+
+    it("Should emit a Safe Transaction Builder batch that decodes against the registry ABIs", async function () {
+      const [owner, safe] = await viem.getWalletClients();
+      const { identityRegistry, validationRegistry } = await ignition.deploy(ERC8004UpgradeableModule);
+      await identityRegistry.write.transferOwnership([safe.account.address]);
+      await identityRegistry.write.acceptOwnership({ account: safe.account });
+      await validationRegistry.write.transferOwnership([safe.account.address]);
+      await validationRegistry.write.acceptOwnership({ account: safe.account });
+
+      const upgrades = [
+        [identityRegistry, await viem.deployContract("IdentityRegistryUpgradeable")],
+        [validationRegistry, await viem.deployContract("ValidationRegistryUpgradeable")]
+      ] as const;
+      const plans = [];
+      for (const [proxy, implementation] of upgrades) {
+        // Simulated as the Safe; the deployer no longer owns the proxy
+        plans.push(
+          await planUpgrade(publicClient, {
+            proxy: proxy.address,
+            account: safe.account.address,
+            implementation: implementation.address
+          })
+        );
+        await assert.rejects(
+          planUpgrade(publicClient, {
+            proxy: proxy.address,
+            account: owner.account,
+            implementation: implementation.address
+          }),
+          /OwnableUnauthorizedAccount/
+        );
+      }
+
+      const chainId = await publicClient.getChainId();
+      const built = buildSafeUpgradeBatch({ chainId, safe: safe.account.address, upgrades: plans, createdAt: 1700000000000 });
+      const batch: SafeTransactionBatch = JSON.parse(JSON.stringify(built));
+      assert.equal(batch.chainId, String(chainId));
+      assert.equal(batch.meta.createdFromSafeAddress, safe.account.address);
+      assert.equal(batch.meta.checksum, calculateSafeBatchChecksum(batch));
+      assert.notEqual(
+        calculateSafeBatchChecksum({ ...batch, transactions: batch.transactions.slice(1) }),
+        batch.meta.checksum
+      );
+      assert.equal(batch.transactions.length, 2);
+
+      for (const [index, transaction] of batch.transactions.entries()) {
+        const [proxy, implementation] = upgrades[index];
+        const method = getAbiItem({ abi: proxy.abi, name: "upgradeToAndCall" });
+        assert.equal(transaction.to, proxy.address);
+        assert.equal(transaction.value, "0");
+        assert.deepEqual(
+          transaction.contractMethod!.inputs.map(({ name, type }) => ({ name, type })),
+          method.inputs.map(({ name, type }) => ({ name, type }))
+        );
+        assert.equal(transaction.contractMethod!.payable, method.stateMutability === "payable");
+
+        // What the Transaction Builder encodes from the method and input values...
+        const data = encodeFunctionData({
+          abi: proxy.abi,
+          functionName: "upgradeToAndCall",
+          args: [
+            transaction.contractInputsValues!.newImplementation as `0x${string}`,
+            transaction.contractInputsValues!.data as `0x${string}`
+          ]
+        });
+        assert.equal(data, encodeUpgradeCall(plans[index]));
+        const decoded = decodeFunctionData({ abi: proxy.abi, data });
+        assert.equal(decoded.functionName, "upgradeToAndCall");
+        assert.deepEqual(decoded.args, [getAddress(implementation.address), "0x"]);
+
+        // ...upgrades the proxy when the Safe executes it
+        const hash = await safe.sendTransaction({ to: transaction.to, data });
+        await publicClient.waitForTransactionReceipt({ hash });
+        assert.equal(await getImplementationAddress(publicClient, proxy.address), getAddress(implementation.address));
+      }
+    });
+
+    it("Should emit Safe batches that schedule and then execute a timelocked upgrade", async function () {
+      const [, safe] = await viem.getWalletClients();
+      const { identityRegistry } = await ignition.deploy(ERC8004UpgradeableModule);
+      await identityRegistry.write.setUpgradeDelay([3600n]);
+      await identityRegistry.write.transferOwnership([safe.account.address]);
+      await identityRegistry.write.acceptOwnership({ account: safe.account });
+      const implementation = await viem.deployContract("IdentityRegistryUpgradeable");
+      const chainId = await publicClient.getChainId();
+
+      const schedule = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: safe.account.address,
+        implementation: implementation.address
+      });
+      assert.equal(schedule.step, "schedule");
+      const [announce] = buildSafeUpgradeBatch({ chainId, safe: safe.account.address, upgrades: [schedule] }).transactions;
+      const method = getAbiItem({ abi: identityRegistry.abi, name: "scheduleUpgrade" });
+      assert.deepEqual(
+        announce.contractMethod!.inputs.map(({ name, type }) => ({ name, type })),
+        method.inputs.map(({ name, type }) => ({ name, type }))
+      );
+      assert.deepEqual(announce.contractInputsValues, { implementation: implementation.address, data: "0x" });
+      const data = encodeUpgradeCall(schedule);
+      assert.equal(decodeFunctionData({ abi: identityRegistry.abi, data }).functionName, "scheduleUpgrade");
+      await publicClient.waitForTransactionReceipt({ hash: await safe.sendTransaction({ to: announce.to, data }) });
+
+      await networkHelpers.time.increase(3600);
+      const execute = await planUpgrade(publicClient, {
+        proxy: identityRegistry.address,
+        account: safe.account.address,
+        implementation: implementation.address
+      });
+      assert.equal(execute.step, "upgrade");
+      const [upgrade] = buildSafeUpgradeBatch({ chainId, safe: safe.account.address, upgrades: [execute] }).transactions;
+      assert.equal(upgrade.contractMethod!.name, "upgradeToAndCall");
+      await publicClient.waitForTransactionReceipt({
+        hash: await safe.sendTransaction({ to: upgrade.to, data: encodeUpgradeCall(execute) })
+      });
+      assert.equal(
+        await getImplementationAddress(publicClient, identityRegistry.address),
+        getAddress(implementation.address)
+      );
+    });
+  });
 });